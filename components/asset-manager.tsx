@@ -14,27 +14,18 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog"
-import { Plus, Trash2, TrendingUp, TrendingDown } from "lucide-react"
-import type { Asset } from "@/lib/quantum-optimizer"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Plus, Trash2, TrendingUp, TrendingDown, X } from "lucide-react"
+import { assetCategories, type Asset } from "@/lib/quantum-optimizer"
+
+// Select items cannot have an empty value, so "no category" needs a value of its own
+const NO_CATEGORY = "__none__"
 
 interface AssetManagerProps {
   assets: Asset[]
   onAssetsChange: (assets: Asset[]) => void
 }
 
-const assetCategories = [
-  "Technology",
-  "Healthcare",
-  "Financial",
-  "Consumer",
-  "Energy",
-  "Real Estate",
-  "Utilities",
-  "Materials",
-  "ETF",
-  "Bond",
-]
-
 export default function AssetManager({ assets, onAssetsChange }: AssetManagerProps) {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
   const [editingAsset, setEditingAsset] = useState<Asset | null>(null)
@@ -54,6 +45,8 @@ export default function AssetManager({ assets, onAssetsChange }: AssetManagerPro
         expectedReturn: newAsset.expectedReturn || 0.1,
         volatility: newAsset.volatility || 0.2,
         price: newAsset.price || 100,
+        category: newAsset.category,
+        marketCap: newAsset.marketCap,
       }
       onAssetsChange([...assets, asset])
       setNewAsset({ symbol: "", name: "", expectedReturn: 0.1, volatility: 0.2, price: 100 })
@@ -61,12 +54,19 @@ export default function AssetManager({ assets, onAssetsChange }: AssetManagerPro
     }
   }
 
-  const handleUpdateAsset = (index: number, field: keyof Asset, value: string | number) => {
+  const handleUpdateAsset = (index: number, field: keyof Asset, value: string | number | undefined) => {
     const updatedAssets = [...assets]
     updatedAssets[index] = { ...updatedAssets[index], [field]: value }
     onAssetsChange(updatedAssets)
   }
 
+  // History can only be imported, so clearing it is the one edit offered here
+  const handleClearHistory = (index: number) => {
+    const updatedAssets = [...assets]
+    updatedAssets[index] = { ...updatedAssets[index], priceHistory: undefined, returnHistory: undefined }
+    onAssetsChange(updatedAssets)
+  }
+
   const handleRemoveAsset = (index: number) => {
     const updatedAssets = assets.filter((_, i) => i !== index)
     onAssetsChange(updatedAssets)
@@ -125,6 +125,27 @@ export default function AssetManager({ assets, onAssetsChange }: AssetManagerPro
                     onChange={(e) => setNewAsset((prev) => ({ ...prev, name: e.target.value }))}
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select
+                    value={newAsset.category ?? ""}
+                    onValueChange={(value) =>
+                      setNewAsset((prev) => ({ ...prev, category: value === NO_CATEGORY ? undefined : value }))
+                    }
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select a category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_CATEGORY}>None</SelectItem>
+                      {assetCategories.map((category) => (
+                        <SelectItem key={category} value={category}>
+                          {category}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label>Expected Return</Label>
@@ -153,6 +174,18 @@ export default function AssetManager({ assets, onAssetsChange }: AssetManagerPro
                     />
                   </div>
                 </div>
+                <div className="space-y-2">
+                  <Label>Market Cap (optional)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Used for Black-Litterman equilibrium returns"
+                    value={newAsset.marketCap ?? ""}
+                    onChange={(e) =>
+                      setNewAsset((prev) => ({ ...prev, marketCap: Number.parseFloat(e.target.value) || undefined }))
+                    }
+                  />
+                </div>
                 <Button onClick={handleAddAsset} className="w-full">
                   Add Asset
                 </Button>
@@ -180,18 +213,53 @@ export default function AssetManager({ assets, onAssetsChange }: AssetManagerPro
                       <p className="font-medium">{asset.name}</p>
                       <p className="text-sm text-muted-foreground">${asset.price.toFixed(2)}</p>
                     </div>
+                    {(asset.returnHistory?.length || asset.priceHistory?.length || 0) > 0 && (
+                      <div className="flex items-center gap-1">
+                        <Badge variant="secondary" className="text-xs">
+                          {asset.returnHistory?.length || asset.priceHistory?.length} history points
+                        </Badge>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleClearHistory(index)}
+                          aria-label={`Clear ${asset.symbol} history`}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={asset.category ?? ""}
+                      onValueChange={(value) =>
+                        handleUpdateAsset(index, "category", value === NO_CATEGORY ? undefined : value)
+                      }
+                    >
+                      <SelectTrigger size="sm" className="w-36">
+                        <SelectValue placeholder="Category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_CATEGORY}>None</SelectItem>
+                        {assetCategories.map((category) => (
+                          <SelectItem key={category} value={category}>
+                            {category}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemoveAsset(index)}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleRemoveAsset(index)}
-                    className="text-destructive hover:text-destructive"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
                 </div>
 
-                <div className="grid grid-cols-2 gap-4">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
                   <div className="space-y-2">
                     <Label className="text-xs">Expected Return</Label>
                     <div className="flex items-center gap-2">
@@ -230,6 +298,54 @@ export default function AssetManager({ assets, onAssetsChange }: AssetManagerPro
                       <span className="text-sm text-muted-foreground">{formatPercentage(asset.volatility)}</span>
                     </div>
                   </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-xs">Market Cap</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder="Not set"
+                      value={asset.marketCap ?? ""}
+                      onChange={(e) =>
+                        handleUpdateAsset(index, "marketCap", Number.parseFloat(e.target.value) || undefined)
+                      }
+                      className="text-sm"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-xs">Lot Size</Label>
+                    <Input
+                      type="number"
+                      step="1"
+                      min="1"
+                      placeholder="1"
+                      value={asset.lotSize ?? ""}
+                      onChange={(e) =>
+                        handleUpdateAsset(index, "lotSize", Number.parseInt(e.target.value) || undefined)
+                      }
+                      className="text-sm"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-xs">Return Uncertainty</Label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="Auto"
+                      value={asset.returnUncertainty ?? ""}
+                      onChange={(e) =>
+                        handleUpdateAsset(
+                          index,
+                          "returnUncertainty",
+                          e.target.value === "" ? undefined : Number.parseFloat(e.target.value),
+                        )
+                      }
+                      className="text-sm"
+                    />
+                  </div>
                 </div>
               </div>
             ))
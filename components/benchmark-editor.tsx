@@ -0,0 +1,212 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Plus, Target, Trash2 } from "lucide-react"
+import type { Asset } from "@/lib/quantum-optimizer"
+import type { Benchmark } from "@/lib/benchmark"
+
+interface BenchmarkEditorProps {
+  assets: Asset[]
+  benchmark: Benchmark
+  onBenchmarkChange: (benchmark: Benchmark) => void
+}
+
+export default function BenchmarkEditor({ assets, benchmark, onBenchmarkChange }: BenchmarkEditorProps) {
+  const outside = benchmark.assets ?? []
+  const constituents = [...assets, ...outside.filter((asset) => !assets.some((a) => a.symbol === asset.symbol))]
+  const total = constituents.reduce((sum, asset) => sum + (benchmark.weights[asset.symbol] || 0), 0)
+
+  const setWeight = (symbol: string, weight: number) =>
+    onBenchmarkChange({ ...benchmark, weights: { ...benchmark.weights, [symbol]: weight } })
+
+  const updateOutside = (index: number, update: Partial<Asset>) => {
+    const previous = outside[index]
+    const next = { ...previous, ...update }
+    const weights = { ...benchmark.weights }
+    // Keep the weight with the constituent when its symbol is edited
+    if (update.symbol !== undefined && update.symbol !== previous.symbol) {
+      weights[next.symbol] = weights[previous.symbol] ?? 0
+      delete weights[previous.symbol]
+    }
+    onBenchmarkChange({ ...benchmark, weights, assets: outside.map((asset, i) => (i === index ? next : asset)) })
+  }
+
+  const handleAddOutside = () => {
+    onBenchmarkChange({
+      ...benchmark,
+      assets: [
+        ...outside,
+        {
+          symbol: `IDX${outside.length + 1}`,
+          name: "Benchmark constituent",
+          expectedReturn: 0.08,
+          volatility: 0.2,
+          price: 100,
+        },
+      ],
+    })
+  }
+
+  const handleRemoveOutside = (index: number) => {
+    const weights = { ...benchmark.weights }
+    delete weights[outside[index].symbol]
+    onBenchmarkChange({ ...benchmark, weights, assets: outside.filter((_, i) => i !== index) })
+  }
+
+  const handleMarketCapWeights = () =>
+    onBenchmarkChange({
+      ...benchmark,
+      weights: Object.fromEntries(constituents.map((asset) => [asset.symbol, asset.marketCap ?? 0])),
+    })
+
+  const handleEqualWeights = () =>
+    onBenchmarkChange({ ...benchmark, weights: Object.fromEntries(assets.map((asset) => [asset.symbol, 1])) })
+
+  const formatPercentage = (value: number) => `${(value * 100).toFixed(2)}%`
+  const shareOf = (symbol: string) => (total > 0 ? (benchmark.weights[symbol] || 0) / total : 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Target className="h-5 w-5" />
+              Benchmark
+            </CardTitle>
+            <CardDescription>
+              The index the portfolio is measured against, for tracking error, beta and information ratio
+            </CardDescription>
+          </div>
+          {total > 0 && (
+            <Badge variant="secondary">
+              {constituents.filter((asset) => shareOf(asset.symbol) > 0).length} constituents
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="benchmark-name">Name</Label>
+            <Input
+              id="benchmark-name"
+              value={benchmark.name}
+              onChange={(e) => onBenchmarkChange({ ...benchmark, name: e.target.value })}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleMarketCapWeights} disabled={constituents.length === 0}>
+              Market Cap Weights
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleEqualWeights} disabled={assets.length === 0}>
+              Equal Weights
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => onBenchmarkChange({ ...benchmark, weights: {} })}>
+              Clear
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-4 text-sm text-muted-foreground">
+            <span>Asset</span>
+            <span>Weight</span>
+            <span className="text-right">Share of Benchmark</span>
+          </div>
+          {assets.map((asset) => (
+            <div key={asset.symbol} className="grid grid-cols-3 gap-4 items-center text-sm">
+              <Badge variant="outline" className="w-fit font-mono">
+                {asset.symbol}
+              </Badge>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0"
+                value={benchmark.weights[asset.symbol] ?? ""}
+                onChange={(e) => setWeight(asset.symbol, Number.parseFloat(e.target.value) || 0)}
+              />
+              <span className="text-right">{formatPercentage(shareOf(asset.symbol))}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Constituents Outside the Portfolio</Label>
+              <p className="text-xs text-muted-foreground">
+                Index members the portfolio cannot hold; their risk still counts towards tracking error
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleAddOutside}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Constituent
+            </Button>
+          </div>
+          {outside.map((asset, index) => (
+            <div key={index} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Symbol</span>
+                <Input
+                  value={asset.symbol}
+                  onChange={(e) => updateOutside(index, { symbol: e.target.value.toUpperCase() })}
+                />
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Expected Return</span>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={asset.expectedReturn}
+                  onChange={(e) => updateOutside(index, { expectedReturn: Number.parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Volatility</span>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={asset.volatility}
+                  onChange={(e) => updateOutside(index, { volatility: Number.parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">
+                  Weight ({formatPercentage(shareOf(asset.symbol))})
+                </span>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0"
+                  value={benchmark.weights[asset.symbol] ?? ""}
+                  onChange={(e) => setWeight(asset.symbol, Number.parseFloat(e.target.value) || 0)}
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemoveOutside(index)}
+                className="text-destructive hover:text-destructive w-fit"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Weights are scaled to sum to 100%. Constituents outside the portfolio use their volatility with a
+          moderate correlation to the other assets.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
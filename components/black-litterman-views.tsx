@@ -0,0 +1,272 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertCircle, Eye, Plus, Save, Trash2 } from "lucide-react"
+import type { Asset } from "@/lib/quantum-optimizer"
+import type { BlackLittermanResult, BlackLittermanView } from "@/lib/black-litterman"
+
+export interface BlackLittermanSettings {
+  enabled: boolean // optimize on the posterior instead of the entered or historical returns
+  riskAversion: number
+  tau: number
+}
+
+interface BlackLittermanViewsProps {
+  assets: Asset[]
+  views: BlackLittermanView[]
+  onViewsChange: (views: BlackLittermanView[]) => void
+  settings: BlackLittermanSettings
+  onSettingsChange: (settings: BlackLittermanSettings) => void
+  priorReturns: number[] // what the optimizer uses without Black-Litterman
+  result: BlackLittermanResult | null
+  error: string | null
+  onSave?: () => void // saves the views with the current portfolio
+  isSaving?: boolean
+}
+
+export default function BlackLittermanViews({
+  assets,
+  views,
+  onViewsChange,
+  settings,
+  onSettingsChange,
+  priorReturns,
+  result,
+  error,
+  onSave,
+  isSaving,
+}: BlackLittermanViewsProps) {
+  const symbols = assets.map((asset) => asset.symbol)
+
+  const updateView = (index: number, update: Partial<BlackLittermanView>) => {
+    onViewsChange(views.map((view, i) => (i === index ? { ...view, ...update } : view)))
+  }
+
+  const handleAddView = () => {
+    onViewsChange([
+      ...views,
+      {
+        id: `view_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+        type: "absolute",
+        asset: symbols[0] ?? "",
+        value: 0.1,
+        confidence: 0.5,
+      },
+    ])
+  }
+
+  const formatPercentage = (value: number) => `${(value * 100).toFixed(2)}%`
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Eye className="h-5 w-5" />
+              Black-Litterman Views
+            </CardTitle>
+            <CardDescription>
+              Start from the returns implied by market capitalisations and tilt them towards your views
+            </CardDescription>
+          </div>
+          <Button
+            variant={settings.enabled ? "default" : "outline"}
+            onClick={() => onSettingsChange({ ...settings, enabled: !settings.enabled })}
+          >
+            {settings.enabled ? "Using Posterior Returns" : "Use Posterior Returns"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="bl-risk-aversion">Risk Aversion (δ)</Label>
+            <Input
+              id="bl-risk-aversion"
+              type="number"
+              step="0.1"
+              min="0"
+              value={settings.riskAversion}
+              onChange={(e) => onSettingsChange({ ...settings, riskAversion: Number.parseFloat(e.target.value) })}
+            />
+            <p className="text-xs text-muted-foreground">Market excess return per unit of variance</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bl-tau">Tau (τ)</Label>
+            <Input
+              id="bl-tau"
+              type="number"
+              step="0.01"
+              min="0"
+              value={settings.tau}
+              onChange={(e) => onSettingsChange({ ...settings, tau: Number.parseFloat(e.target.value) })}
+            />
+            <p className="text-xs text-muted-foreground">How uncertain the equilibrium returns are</p>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label>Views</Label>
+            <Button variant="outline" size="sm" onClick={handleAddView} disabled={assets.length === 0}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add View
+            </Button>
+          </div>
+          {views.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No views: the posterior equals the market-implied returns
+            </p>
+          )}
+          {views.map((view, index) => (
+            <div key={view.id} className="border rounded-lg p-3 space-y-2">
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+                <div className="space-y-1">
+                  <span className="text-xs text-muted-foreground">Type</span>
+                  <Select
+                    value={view.type}
+                    onValueChange={(value) =>
+                      updateView(index, {
+                        type: value as BlackLittermanView["type"],
+                        versus: value === "relative" ? symbols.find((s) => s !== view.asset) : undefined,
+                      })
+                    }
+                  >
+                    <SelectTrigger size="sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="absolute">Absolute</SelectItem>
+                      <SelectItem value="relative">Relative</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <span className="text-xs text-muted-foreground">Asset</span>
+                  <Select value={view.asset} onValueChange={(value) => updateView(index, { asset: value })}>
+                    <SelectTrigger size="sm">
+                      <SelectValue placeholder="Asset" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {symbols.map((symbol) => (
+                        <SelectItem key={symbol} value={symbol}>
+                          {symbol}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {view.type === "relative" ? (
+                  <div className="space-y-1">
+                    <span className="text-xs text-muted-foreground">Outperforms</span>
+                    <Select value={view.versus ?? ""} onValueChange={(value) => updateView(index, { versus: value })}>
+                      <SelectTrigger size="sm">
+                        <SelectValue placeholder="Asset" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {symbols
+                          .filter((symbol) => symbol !== view.asset)
+                          .map((symbol) => (
+                            <SelectItem key={symbol} value={symbol}>
+                              {symbol}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                  <div className="hidden md:block" />
+                )}
+                <div className="space-y-1">
+                  <span className="text-xs text-muted-foreground">
+                    {view.type === "relative" ? "By" : "Return"} ({formatPercentage(view.value || 0)})
+                  </span>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={Number.isNaN(view.value) ? "" : view.value}
+                    onChange={(e) => updateView(index, { value: Number.parseFloat(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <span className="text-xs text-muted-foreground">
+                    Confidence ({formatPercentage(view.confidence || 0)})
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      step="0.05"
+                      min="0"
+                      max="1"
+                      value={Number.isNaN(view.confidence) ? "" : view.confidence}
+                      onChange={(e) => updateView(index, { confidence: Number.parseFloat(e.target.value) })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onViewsChange(views.filter((_, i) => i !== index))}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {view.type === "relative"
+                  ? `${view.asset} returns ${formatPercentage(view.value || 0)} a year more than ${view.versus ?? "?"}`
+                  : `${view.asset} returns ${formatPercentage(view.value || 0)} a year`}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {result && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-5 gap-4 text-sm text-muted-foreground">
+              <span>Asset</span>
+              <span className="text-right">Market Weight</span>
+              <span className="text-right">Current Input</span>
+              <span className="text-right">Implied</span>
+              <span className="text-right">Posterior</span>
+            </div>
+            {assets.map((asset, index) => (
+              <div key={asset.symbol} className="grid grid-cols-5 gap-4 items-center text-sm">
+                <Badge variant="outline" className="w-fit">
+                  {asset.symbol}
+                </Badge>
+                <span className="text-right">{formatPercentage(result.marketWeights[index])}</span>
+                <span className="text-right text-muted-foreground">
+                  {priorReturns[index] !== undefined ? formatPercentage(priorReturns[index]) : "—"}
+                </span>
+                <span className="text-right">{formatPercentage(result.impliedReturns[index])}</span>
+                <span className="text-right font-semibold">{formatPercentage(result.posteriorReturns[index])}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {onSave && (
+          <Button onClick={onSave} disabled={isSaving} variant="outline" className="w-full">
+            <Save className="h-4 w-4 mr-2" />
+            {isSaving ? "Saving..." : "Save Views with Portfolio"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -19,9 +19,20 @@ import {
 import { Textarea } from "@/components/ui/textarea"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Progress } from "@/components/ui/progress"
-import { Download, Upload, FileJson, FileSpreadsheet, CheckCircle, AlertCircle, BarChart3 } from "lucide-react"
-import { ImportExportManager } from "@/lib/import-export"
+import {
+  Download,
+  Upload,
+  FileJson,
+  FileSpreadsheet,
+  FileCode,
+  CheckCircle,
+  AlertCircle,
+  BarChart3,
+} from "lucide-react"
+import { HISTORY_SEPARATOR, ImportExportManager, type QuantumProblem } from "@/lib/import-export"
 import type { Asset, OptimizationResult } from "@/lib/quantum-optimizer"
+import type { RiskReport } from "@/lib/risk-analytics"
+import type { DiscreteAllocation } from "@/lib/discrete-allocation"
 
 interface ImportExportManagerProps {
   assets: Asset[]
@@ -33,6 +44,10 @@ interface ImportExportManagerProps {
     optimizationResult?: OptimizationResult
     metadata?: any
   }) => void
+  // Builds the QUBO for the current settings on demand; quantum exports are hidden without it
+  onBuildQuantumProblem?: () => QuantumProblem
+  riskReport?: RiskReport | null // written to the CSV summary block with the results
+  allocation?: DiscreteAllocation | null // share orders written next to the weights in the CSV
 }
 
 export default function ImportExportManagerComponent({
@@ -40,6 +55,9 @@ export default function ImportExportManagerComponent({
   optimizationResult,
   onImportAssets,
   onImportComplete,
+  onBuildQuantumProblem,
+  riskReport,
+  allocation,
 }: ImportExportManagerProps) {
   const [isExportDialogOpen, setIsExportDialogOpen] = useState(false)
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false)
@@ -49,6 +67,7 @@ export default function ImportExportManagerComponent({
     format: "json" as "json" | "csv",
     includeResults: true,
   })
+  const [quantumExportError, setQuantumExportError] = useState<string | null>(null)
   const [importStatus, setImportStatus] = useState<{
     loading: boolean
     success: boolean
@@ -82,6 +101,8 @@ export default function ImportExportManagerComponent({
       assets,
       optimizationResult?.optimalWeights,
       exportForm.includeResults ? optimizationResult || undefined : undefined,
+      riskReport ?? undefined,
+      allocation ?? undefined,
     )
 
     const filename = ImportExportManager.generateFilename(exportForm.name.replace(/[^a-zA-Z0-9]/g, "_"), "csv")
@@ -90,6 +111,32 @@ export default function ImportExportManagerComponent({
     setIsExportDialogOpen(false)
   }
 
+  const handleExportQuantum = (format: "qubo-json" | "qubo-text" | "qasm") => {
+    if (!onBuildQuantumProblem) return
+    setQuantumExportError(null)
+
+    try {
+      const { model, angles } = onBuildQuantumProblem()
+      const baseName = exportForm.name.replace(/[^a-zA-Z0-9]/g, "_")
+      if (format === "qubo-json") {
+        const content = ImportExportManager.exportQUBOToJSON(model, assets)
+        const filename = ImportExportManager.generateFilename(baseName, "json")
+        ImportExportManager.downloadFile(content, filename, "application/json")
+      } else if (format === "qubo-text") {
+        const content = ImportExportManager.exportQUBOToText(model, assets)
+        ImportExportManager.downloadFile(content, ImportExportManager.generateFilename(baseName, "qubo"), "text/plain")
+      } else {
+        if (!angles) {
+          throw new Error("Run QAOA asset selection first to obtain circuit angles")
+        }
+        const content = ImportExportManager.exportQAOAToQASM(model, assets, angles.gammas, angles.betas)
+        ImportExportManager.downloadFile(content, ImportExportManager.generateFilename(baseName, "qasm"), "text/plain")
+      }
+    } catch (error) {
+      setQuantumExportError(error instanceof Error ? error.message : "Export failed")
+    }
+  }
+
   const handleExportOptimizationResults = () => {
     if (!optimizationResult) return
 
@@ -231,6 +278,32 @@ export default function ImportExportManagerComponent({
                       Export CSV
                     </Button>
                   </div>
+                  {onBuildQuantumProblem && (
+                    <div className="space-y-2 border-t pt-4">
+                      <Label>Quantum Formats</Label>
+                      <p className="text-xs text-muted-foreground">
+                        The QUBO of the current annealing or QAOA settings, with a symbol-to-qubit mapping
+                      </p>
+                      <div className="grid grid-cols-3 gap-2">
+                        <Button variant="outline" size="sm" onClick={() => handleExportQuantum("qubo-json")}>
+                          QUBO JSON
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleExportQuantum("qubo-text")}>
+                          QUBO Text
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleExportQuantum("qasm")}>
+                          <FileCode className="h-4 w-4" />
+                          OpenQASM 3
+                        </Button>
+                      </div>
+                      {quantumExportError && (
+                        <Alert variant="destructive">
+                          <AlertCircle className="h-4 w-4" />
+                          <AlertDescription>{quantumExportError}</AlertDescription>
+                        </Alert>
+                      )}
+                    </div>
+                  )}
                 </div>
               </DialogContent>
             </Dialog>
@@ -353,7 +426,10 @@ export default function ImportExportManagerComponent({
               <FileSpreadsheet className="h-4 w-4 text-chart-2 mt-0.5" />
               <div>
                 <p className="font-medium">CSV Format</p>
-                <p className="text-muted-foreground">Asset data with Symbol, Name, Return, Volatility, Price</p>
+                <p className="text-muted-foreground">
+                  Asset data with Symbol, Name, Category, Return, Volatility, Price, and optional Price History or
+                  Return History with values separated by &quot;{HISTORY_SEPARATOR}&quot;
+                </p>
               </div>
             </div>
           </div>
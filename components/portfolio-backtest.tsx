@@ -0,0 +1,385 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { LineChart, Line, AreaChart, Area, XAxis, YAxis, CartesianGrid } from "recharts"
+import { AlertCircle, Download, History, Loader2, Play, Square, TrendingDown } from "lucide-react"
+import type { Asset } from "@/lib/quantum-optimizer"
+import { isAbortError, type OptimizerClient } from "@/lib/optimizer-client"
+import type { SolveRequest } from "@/lib/solver-registry"
+import type { CovarianceEstimator } from "@/lib/risk-model"
+import {
+  rebalanceSchedules,
+  type BacktestResult,
+  type EstimationWindow,
+  type RebalanceSchedule,
+} from "@/lib/backtester"
+import { ImportExportManager } from "@/lib/import-export"
+
+interface PortfolioBacktestProps {
+  assets: Asset[]
+  client: OptimizerClient
+  solverName: string
+  request: Omit<SolveRequest, "assets" | "seed"> // the solver settings from the Optimization tab
+  covarianceEstimator: CovarianceEstimator
+  seed?: number
+}
+
+export default function PortfolioBacktest({
+  assets,
+  client,
+  solverName,
+  request,
+  covarianceEstimator,
+  seed,
+}: PortfolioBacktestProps) {
+  const [scheduleType, setScheduleType] = useState<RebalanceSchedule["type"]>("monthly")
+  const [driftThreshold, setDriftThreshold] = useState(0.05)
+  const [estimationWindow, setEstimationWindow] = useState<EstimationWindow>({ type: "rolling", length: 252 })
+  const [costBps, setCostBps] = useState(10)
+  const [initialCapital, setInitialCapital] = useState(100000)
+  const [isRunning, setIsRunning] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [backtest, setBacktest] = useState<BacktestResult | null>(null)
+  const abortController = useRef<AbortController | null>(null)
+
+  const historyLength = Math.min(
+    ...assets.map((asset) => asset.returnHistory?.length || Math.max(0, (asset.priceHistory?.length ?? 0) - 1)),
+  )
+  const hasHistory = assets.length >= 2 && historyLength > 0
+
+  const handleRun = async () => {
+    const schedule: RebalanceSchedule =
+      scheduleType === "drift" ? { type: "drift", threshold: driftThreshold } : { type: scheduleType }
+
+    setIsRunning(true)
+    setProgress(0)
+    setError(null)
+    client.setCovarianceEstimator(covarianceEstimator)
+    const controller = new AbortController()
+    abortController.current = controller
+    try {
+      const result = await client.backtest(
+        assets,
+        { solver: solverName, request, schedule, window: estimationWindow, costBps, initialCapital, seed },
+        { signal: controller.signal, onProgress: (values) => setProgress(values[values.length - 1] ?? 0) },
+      )
+      setBacktest(result)
+    } catch (error) {
+      if (!isAbortError(error)) {
+        setError(error instanceof Error ? error.message : "Backtest failed")
+      }
+    } finally {
+      abortController.current = null
+      setIsRunning(false)
+    }
+  }
+
+  const handleExport = () => {
+    if (!backtest) return
+    const content = ImportExportManager.exportBacktestToCSV(backtest)
+    ImportExportManager.downloadFile(content, ImportExportManager.generateFilename("backtest", "csv"), "text/csv")
+  }
+
+  const equityData = (backtest?.equityCurve ?? []).map((point) => ({
+    year: Number(point.time.toFixed(3)),
+    value: point.value,
+    drawdown: -point.drawdown * 100,
+  }))
+
+  const equityConfig: ChartConfig = {
+    value: {
+      label: "Portfolio Value",
+      color: "hsl(var(--chart-1))",
+    },
+  }
+
+  const drawdownConfig: ChartConfig = {
+    drawdown: {
+      label: "Drawdown",
+      color: "hsl(var(--destructive))",
+    },
+  }
+
+  const formatPercentage = (value: number) => `${(value * 100).toFixed(2)}%`
+  const formatCurrency = (value: number) =>
+    value.toLocaleString(undefined, { style: "currency", currency: "USD", maximumFractionDigits: 0 })
+  const formatCompactCurrency = (value: number) =>
+    value.toLocaleString(undefined, { style: "currency", currency: "USD", notation: "compact" })
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Backtest Settings
+          </CardTitle>
+          <CardDescription>
+            Walk forward through the price history, re-optimizing with the solver and settings from the Optimization
+            tab ({solverName}) using only the data available at each date
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>Rebalancing Schedule</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {rebalanceSchedules.map((schedule) => (
+                <Button
+                  key={schedule.value}
+                  variant={scheduleType === schedule.value ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setScheduleType(schedule.value)}
+                >
+                  {schedule.label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {rebalanceSchedules.find((schedule) => schedule.value === scheduleType)?.description}
+            </p>
+          </div>
+
+          {scheduleType === "drift" && (
+            <div className="space-y-2">
+              <Label htmlFor="drift-threshold">Drift Threshold</Label>
+              <Input
+                id="drift-threshold"
+                type="number"
+                step="0.01"
+                min="0.01"
+                max="1"
+                value={driftThreshold}
+                onChange={(e) => setDriftThreshold(Number.parseFloat(e.target.value))}
+              />
+              <p className="text-xs text-muted-foreground">
+                Trade back to target once any weight is more than {formatPercentage(driftThreshold || 0)} away from it.
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Estimation Window</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  variant={estimationWindow.type === "rolling" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setEstimationWindow((prev) => ({ ...prev, type: "rolling" }))}
+                >
+                  Rolling
+                </Button>
+                <Button
+                  variant={estimationWindow.type === "expanding" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setEstimationWindow((prev) => ({ ...prev, type: "expanding" }))}
+                >
+                  Expanding
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="window-length">Window Length (periods)</Label>
+              <Input
+                id="window-length"
+                type="number"
+                step="21"
+                min="2"
+                value={estimationWindow.length}
+                onChange={(e) => setEstimationWindow((prev) => ({ ...prev, length: Number.parseInt(e.target.value) }))}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {estimationWindow.type === "rolling"
+              ? "Each re-optimization sees only the most recent window of returns."
+              : "Each re-optimization sees every return since the start of the history."}{" "}
+            The first {estimationWindow.length || 0} periods are used for estimation only.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="backtest-cost">Trading Cost (bps)</Label>
+              <Input
+                id="backtest-cost"
+                type="number"
+                step="1"
+                min="0"
+                value={costBps}
+                onChange={(e) => setCostBps(Number.parseFloat(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-capital">Initial Capital ($)</Label>
+              <Input
+                id="backtest-capital"
+                type="number"
+                step="1000"
+                min="1"
+                value={initialCapital}
+                onChange={(e) => setInitialCapital(Number.parseFloat(e.target.value))}
+              />
+            </div>
+          </div>
+
+          {!hasHistory && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Backtesting needs price or return history for every asset. Import a portfolio JSON with a
+                priceHistory or returnHistory series per asset, or a CSV with a Price History or Return History
+                column.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button onClick={handleRun} disabled={isRunning || !hasHistory} className="w-full">
+            {isRunning ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Backtesting...
+              </>
+            ) : (
+              <>
+                <Play className="mr-2 h-4 w-4" />
+                Run Backtest
+              </>
+            )}
+          </Button>
+
+          {isRunning && (
+            <div className="space-y-2">
+              <Progress value={progress * 100} />
+              <Button variant="outline" className="w-full" onClick={() => abortController.current?.abort()}>
+                <Square className="mr-2 h-4 w-4" />
+                Cancel
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {backtest && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            {[
+              { label: "CAGR", value: formatPercentage(backtest.metrics.cagr) },
+              { label: "Volatility", value: formatPercentage(backtest.metrics.volatility) },
+              { label: "Sharpe Ratio", value: backtest.metrics.sharpeRatio.toFixed(3) },
+              { label: "Max Drawdown", value: formatPercentage(backtest.metrics.maxDrawdown) },
+              { label: "Annual Turnover", value: formatPercentage(backtest.metrics.annualTurnover) },
+              { label: "Trading Costs", value: formatCurrency(backtest.metrics.totalCosts) },
+            ].map((metric) => (
+              <Card key={metric.label}>
+                <CardContent className="pt-6">
+                  <p className="text-sm font-medium text-muted-foreground">{metric.label}</p>
+                  <p className="text-2xl font-bold">{metric.value}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <History className="h-5 w-5" />
+                    Equity Curve
+                  </CardTitle>
+                  <CardDescription>
+                    {formatCurrency(backtest.initialCapital)} grew to{" "}
+                    {formatCurrency(backtest.equityCurve[backtest.equityCurve.length - 1].value)} over{" "}
+                    {backtest.equityCurve[backtest.equityCurve.length - 1].time.toFixed(1)} years with{" "}
+                    {backtest.metrics.rebalances} rebalances
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="text-xs">
+                    {backtest.solver.name} v{backtest.solver.version}
+                  </Badge>
+                  <Button variant="outline" size="sm" onClick={handleExport}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Export CSV
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={equityConfig} className="h-[300px]">
+                <LineChart data={equityData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="year"
+                    type="number"
+                    domain={["dataMin", "dataMax"]}
+                    label={{ value: "Years", position: "insideBottom", offset: -5 }}
+                  />
+                  <YAxis tickFormatter={formatCompactCurrency} width={70} domain={["auto", "auto"]} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        formatter={(value) => [formatCurrency(Number(value)), "Portfolio Value"]}
+                        labelFormatter={(_, payload) => `Year ${payload?.[0]?.payload?.year ?? ""}`}
+                      />
+                    }
+                  />
+                  <Line type="monotone" dataKey="value" stroke="hsl(var(--chart-1))" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingDown className="h-5 w-5" />
+                Drawdown
+              </CardTitle>
+              <CardDescription>Fall from the running peak of portfolio value</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={drawdownConfig} className="h-[200px]">
+                <AreaChart data={equityData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="year" type="number" domain={["dataMin", "dataMax"]} />
+                  <YAxis tickFormatter={(value) => `${Number(value).toFixed(0)}%`} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        formatter={(value) => [`${Number(value).toFixed(2)}%`, "Drawdown"]}
+                        labelFormatter={(_, payload) => `Year ${payload?.[0]?.payload?.year ?? ""}`}
+                      />
+                    }
+                  />
+                  <Area
+                    type="monotone"
+                    dataKey="drawdown"
+                    stroke="hsl(var(--destructive))"
+                    fill="hsl(var(--destructive))"
+                    fillOpacity={0.3}
+                  />
+                </AreaChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
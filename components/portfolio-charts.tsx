@@ -14,32 +14,61 @@ import {
   CartesianGrid,
   ScatterChart,
   Scatter,
-  AreaChart,
-  Area,
   BarChart,
   Bar,
+  ComposedChart,
+  Area,
+  ErrorBar,
 } from "recharts"
-import { TrendingUp, Target, BarChart3, PieChartIcon } from "lucide-react"
-import type { Asset, OptimizationResult } from "@/lib/quantum-optimizer"
+import { TrendingUp, Target, BarChart3, PieChartIcon, Activity, Network } from "lucide-react"
+import type { Asset, EfficientFrontierPoint, OptimizationResult } from "@/lib/quantum-optimizer"
+import type { SimulationResult } from "@/lib/monte-carlo"
+import type { ClusterNode } from "@/lib/hierarchical-risk-parity"
+import { RESAMPLING_INTERVAL } from "@/lib/resampled-optimizer"
 
 interface PortfolioChartsProps {
   assets: Asset[]
   optimizationResult?: OptimizationResult | null
+  efficientFrontier?: EfficientFrontierPoint[] | null
+  assetStatistics?: { expectedReturn: number; volatility: number }[] | null
+  liveConvergence?: number[] | null // trace of a run still in progress, drawn instead of the last result's
+  simulation?: SimulationResult | null
+  clusters?: ClusterNode | null // correlation cluster tree, drawn as a dendrogram
 }
 
-export default function PortfolioCharts({ assets, optimizationResult }: PortfolioChartsProps) {
-  // Prepare data for portfolio allocation chart
+export default function PortfolioCharts({
+  assets,
+  optimizationResult,
+  efficientFrontier,
+  assetStatistics,
+  liveConvergence,
+  simulation,
+  clusters,
+}: PortfolioChartsProps) {
+  // Prepare data for portfolio allocation chart. Slices show the size of each position, so a short
+  // position gets a slice for its absolute weight in the destructive colour.
+  const resampling = optimizationResult?.resampling
   const allocationData = optimizationResult
-    ? assets.map((asset, index) => ({
-        name: asset.symbol,
-        fullName: asset.name,
-        weight: optimizationResult.optimalWeights[index],
-        value: optimizationResult.optimalWeights[index] * 100,
-        expectedReturn: asset.expectedReturn,
-        volatility: asset.volatility,
-        fill: `hsl(var(--chart-${(index % 5) + 1}))`,
-      }))
+    ? assets.map((asset, index) => {
+        const weight = optimizationResult.optimalWeights[index]
+        return {
+          name: asset.symbol,
+          fullName: asset.name,
+          weight,
+          value: weight * 100,
+          exposure: Math.abs(weight) * 100,
+          short: weight < 0,
+          expectedReturn: asset.expectedReturn,
+          volatility: asset.volatility,
+          fill: weight < 0 ? "hsl(var(--destructive))" : `hsl(var(--chart-${(index % 5) + 1}))`,
+          // Distance from the weight down to and up to the ends of its resampled interval
+          interval: resampling
+            ? [(weight - resampling.lower[index]) * 100, (resampling.upper[index] - weight) * 100]
+            : undefined,
+        }
+      })
     : []
+  const hasShorts = allocationData.some((d) => d.short)
 
   // Prepare data for risk-return scatter plot
   const riskReturnData = assets.map((asset, index) => ({
@@ -52,24 +81,80 @@ export default function PortfolioCharts({ assets, optimizationResult }: Portfoli
   }))
 
   // Prepare convergence data
-  const convergenceData = optimizationResult
-    ? optimizationResult.convergenceData.map((sharpe, index) => ({
-        iteration: index + 1,
-        sharpeRatio: sharpe,
-        improvement: index > 0 ? sharpe - optimizationResult.convergenceData[index - 1] : 0,
-      }))
+  const convergenceTrace = liveConvergence ?? optimizationResult?.convergenceData ?? []
+  const convergenceData = convergenceTrace.map((sharpe, index) => ({
+    iteration: index + 1,
+    sharpeRatio: sharpe,
+    improvement: index > 0 ? sharpe - convergenceTrace[index - 1] : 0,
+  }))
+
+  // Prepare efficient frontier data: the solved frontier, each asset on its own and the optimal portfolio
+  const efficientFrontierData = (efficientFrontier || []).map((point) => ({
+    name: "Efficient frontier",
+    risk: point.volatility * 100,
+    return: point.expectedReturn * 100,
+    sharpeRatio: point.sharpeRatio,
+  }))
+
+  const frontierAssetData = assets.map((asset, index) => ({
+    name: asset.symbol,
+    risk: (assetStatistics?.[index]?.volatility ?? asset.volatility) * 100,
+    return: (assetStatistics?.[index]?.expectedReturn ?? asset.expectedReturn) * 100,
+  }))
+
+  const optimalPortfolioData = optimizationResult
+    ? [
+        {
+          name: "Optimal portfolio",
+          risk: optimizationResult.volatility * 100,
+          return: optimizationResult.expectedReturn * 100,
+          sharpeRatio: optimizationResult.sharpeRatio,
+        },
+      ]
     : []
 
-  // Prepare efficient frontier simulation data
-  const efficientFrontierData = Array.from({ length: 20 }, (_, i) => {
-    const risk = 0.1 + i * 0.02 // Risk from 10% to 50%
-    const maxReturn = 0.08 + risk * 0.4 // Simplified efficient frontier curve
-    return {
-      risk: risk * 100,
-      return: maxReturn * 100,
-      isOptimal: optimizationResult && Math.abs(risk - optimizationResult.volatility) < 0.02,
-    }
-  })
+  // Prepare fan chart data: percentiles are paired from the outside in (5th with 95th, 25th with 75th),
+  // each pair drawn as a shaded range, with an unpaired middle percentile drawn as a line
+  const simulationPercentiles = simulation?.percentiles ?? []
+  const bandPairs = Array.from({ length: Math.floor(simulationPercentiles.length / 2) }, (_, k) => ({
+    key: `band${k}`,
+    low: k,
+    high: simulationPercentiles.length - 1 - k,
+  }))
+  const middlePercentile = simulationPercentiles.length % 2 === 1 ? (simulationPercentiles.length - 1) / 2 : null
+  const fanChartData = (simulation?.bands ?? []).map((band) => ({
+    year: Number(band.time.toFixed(2)),
+    mean: band.mean,
+    middle: middlePercentile !== null ? band.values[middlePercentile] : undefined,
+    ...Object.fromEntries(bandPairs.map((pair) => [pair.key, [band.values[pair.low], band.values[pair.high]]])),
+  }))
+
+  const terminalWealthData = (simulation?.terminalHistogram ?? []).map((bin) => ({
+    wealth: (bin.from + bin.to) / 2,
+    from: bin.from,
+    to: bin.to,
+    probability: bin.probability * 100,
+    loss: simulation ? bin.to <= simulation.initialCapital : false,
+  }))
+
+  // Prepare dendrogram data: leaves sit at their position in the cluster order, and every merge is drawn
+  // as a bracket from the two children's heights up to the height they join at
+  const clusterOrder = clusters?.assets ?? []
+  const dendrogramLinks: { x: number; height: number }[][] = []
+  const layoutCluster = (node: ClusterNode): number => {
+    if (!node.children) return clusterOrder.indexOf(node.assets[0])
+    const [left, right] = node.children
+    const leftX = layoutCluster(left)
+    const rightX = layoutCluster(right)
+    dendrogramLinks.push([
+      { x: leftX, height: left.height },
+      { x: leftX, height: node.height },
+      { x: rightX, height: node.height },
+      { x: rightX, height: right.height },
+    ])
+    return (leftX + rightX) / 2
+  }
+  if (clusters) layoutCluster(clusters)
 
   // Chart configurations
   const allocationConfig: ChartConfig = {
@@ -103,7 +188,38 @@ export default function PortfolioCharts({ assets, optimizationResult }: Portfoli
     },
   }
 
+  const dendrogramConfig: ChartConfig = {
+    height: {
+      label: "Cluster Distance",
+      color: "hsl(var(--chart-2))",
+    },
+  }
+
+  const simulationConfig: ChartConfig = {
+    middle: {
+      label: middlePercentile !== null ? `${simulationPercentiles[middlePercentile]}th percentile` : "Median",
+      color: "hsl(var(--chart-1))",
+    },
+    mean: {
+      label: "Mean",
+      color: "hsl(var(--chart-3))",
+    },
+    ...Object.fromEntries(
+      bandPairs.map((pair) => [
+        pair.key,
+        {
+          label: `${simulationPercentiles[pair.low]}th–${simulationPercentiles[pair.high]}th percentile`,
+          color: "hsl(var(--chart-2))",
+        },
+      ]),
+    ),
+  }
+
   const formatPercentage = (value: number) => `${value.toFixed(1)}%`
+  const formatCurrency = (value: number) =>
+    value.toLocaleString(undefined, { style: "currency", currency: "USD", maximumFractionDigits: 0 })
+  const formatCompactCurrency = (value: number) =>
+    value.toLocaleString(undefined, { style: "currency", currency: "USD", notation: "compact" })
 
   return (
     <div className="space-y-6">
@@ -116,7 +232,11 @@ export default function PortfolioCharts({ assets, optimizationResult }: Portfoli
               Portfolio Allocation
             </CardTitle>
             <CardDescription>
-              {optimizationResult ? "Quantum-optimized asset weights" : "Configure assets to see allocation"}
+              {!optimizationResult
+                ? "Configure assets to see allocation"
+                : hasShorts
+                  ? "Position sizes by absolute weight, short positions in red"
+                  : "Quantum-optimized asset weights"}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -128,16 +248,19 @@ export default function PortfolioCharts({ assets, optimizationResult }: Portfoli
                     content={
                       <ChartTooltipContent
                         hideLabel
-                        formatter={(value, name) => [
-                          `${Number(value).toFixed(1)}%`,
-                          allocationData.find((d) => d.name === name)?.fullName || name,
-                        ]}
+                        formatter={(value, name) => {
+                          const entry = allocationData.find((d) => d.name === name)
+                          return [
+                            `${entry?.short ? "-" : ""}${Number(value).toFixed(1)}%`,
+                            `${entry?.fullName || name}${entry?.short ? " (short)" : ""}`,
+                          ]
+                        }}
                       />
                     }
                   />
                   <Pie
                     data={allocationData}
-                    dataKey="value"
+                    dataKey="exposure"
                     nameKey="name"
                     innerRadius={60}
                     strokeWidth={2}
@@ -223,13 +346,15 @@ export default function PortfolioCharts({ assets, optimizationResult }: Portfoli
               Optimization Convergence
             </CardTitle>
             <CardDescription>
-              {optimizationResult
-                ? `Sharpe ratio improvement over ${optimizationResult.iterations} iterations`
-                : "Quantum algorithm convergence tracking"}
+              {liveConvergence
+                ? `Optimizing… ${liveConvergence.length} iterations so far`
+                : optimizationResult
+                  ? `Sharpe ratio improvement over ${optimizationResult.iterations} iterations`
+                  : "Quantum algorithm convergence tracking"}
             </CardDescription>
           </CardHeader>
           <CardContent>
-            {optimizationResult && convergenceData.length > 0 ? (
+            {convergenceData.length > 0 ? (
               <ChartContainer config={convergenceConfig} className="h-[300px]">
                 <LineChart data={convergenceData}>
                   <CartesianGrid strokeDasharray="3 3" />
@@ -253,6 +378,7 @@ export default function PortfolioCharts({ assets, optimizationResult }: Portfoli
                     strokeWidth={2}
                     dot={{ fill: "hsl(var(--chart-1))", strokeWidth: 2, r: 4 }}
                     activeDot={{ r: 6, stroke: "hsl(var(--chart-1))", strokeWidth: 2 }}
+                    isAnimationActive={!liveConvergence} // redraw live updates without replaying the animation
                   />
                 </LineChart>
               </ChartContainer>
@@ -273,56 +399,67 @@ export default function PortfolioCharts({ assets, optimizationResult }: Portfoli
               <BarChart3 className="h-5 w-5" />
               Efficient Frontier
             </CardTitle>
-            <CardDescription>Risk-return trade-off curve with optimal portfolio position</CardDescription>
+            <CardDescription>
+              Minimum-variance portfolios under your weight limits, with each asset and the optimal portfolio
+            </CardDescription>
           </CardHeader>
           <CardContent>
-            <ChartContainer config={riskReturnConfig} className="h-[300px]">
-              <AreaChart data={efficientFrontierData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis
-                  dataKey="risk"
-                  tickFormatter={formatPercentage}
-                  label={{ value: "Portfolio Risk (%)", position: "insideBottom", offset: -5 }}
-                />
-                <YAxis
-                  tickFormatter={formatPercentage}
-                  label={{ value: "Expected Return (%)", angle: -90, position: "insideLeft" }}
-                />
-                <ChartTooltip
-                  content={
-                    <ChartTooltipContent
-                      formatter={(value, name) => {
-                        if (name === "return") return [`${Number(value).toFixed(1)}%`, "Expected Return"]
-                        return [value, name]
-                      }}
-                      labelFormatter={(label) => `Risk: ${Number(label).toFixed(1)}%`}
-                    />
-                  }
-                />
-                <Area
-                  type="monotone"
-                  dataKey="return"
-                  stroke="hsl(var(--chart-2))"
-                  fill="hsl(var(--chart-2) / 0.2)"
-                  strokeWidth={2}
-                />
-                {optimizationResult && (
-                  <Scatter
-                    data={[
-                      {
-                        risk: optimizationResult.volatility * 100,
-                        return: optimizationResult.expectedReturn * 100,
-                      },
-                    ]}
+            {efficientFrontierData.length > 0 ? (
+              <ChartContainer config={riskReturnConfig} className="h-[300px]">
+                <ScatterChart>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="risk"
+                    type="number"
+                    domain={["dataMin - 1", "dataMax + 1"]}
+                    tickFormatter={formatPercentage}
+                    label={{ value: "Portfolio Risk (%)", position: "insideBottom", offset: -5 }}
+                  />
+                  <YAxis
                     dataKey="return"
-                    fill="hsl(var(--accent))"
-                    stroke="hsl(var(--accent))"
-                    strokeWidth={3}
-                    r={8}
+                    type="number"
+                    domain={["dataMin - 1", "dataMax + 1"]}
+                    tickFormatter={formatPercentage}
+                    label={{ value: "Expected Return (%)", angle: -90, position: "insideLeft" }}
                   />
-                )}
-              </AreaChart>
-            </ChartContainer>
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        formatter={(value, name) => {
+                          if (name === "risk") return [`${Number(value).toFixed(1)}%`, "Volatility"]
+                          if (name === "return") return [`${Number(value).toFixed(1)}%`, "Expected Return"]
+                          return [value, name]
+                        }}
+                        labelFormatter={(_, payload) => payload?.[0]?.payload?.name ?? ""}
+                      />
+                    }
+                  />
+                  <Scatter
+                    data={efficientFrontierData}
+                    fill="hsl(var(--chart-2))"
+                    line={{ stroke: "hsl(var(--chart-2))", strokeWidth: 2 }}
+                    r={2}
+                  />
+                  <Scatter data={frontierAssetData} fill="hsl(var(--chart-1))" r={5} />
+                  {optimizationResult && (
+                    <Scatter
+                      data={optimalPortfolioData}
+                      fill="hsl(var(--accent))"
+                      stroke="hsl(var(--accent))"
+                      strokeWidth={3}
+                      r={8}
+                    />
+                  )}
+                </ScatterChart>
+              </ChartContainer>
+            ) : (
+              <div className="flex items-center justify-center h-[300px] text-muted-foreground">
+                <div className="text-center">
+                  <BarChart3 className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                  <p>Run optimization to compute the efficient frontier</p>
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -334,7 +471,12 @@ export default function PortfolioCharts({ assets, optimizationResult }: Portfoli
             <BarChart3 className="h-5 w-5" />
             Asset Performance Metrics
           </CardTitle>
-          <CardDescription>Comparison of expected returns, volatility, and optimal weights</CardDescription>
+          <CardDescription>
+            Comparison of expected returns, volatility, and optimal weights
+            {resampling &&
+              ` · error bars span the ${RESAMPLING_INTERVAL[0]}th to ${RESAMPLING_INTERVAL[1]}th percentile of ` +
+                "the resampled weights"}
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <ChartContainer config={allocationConfig} className="h-[400px]">
@@ -354,12 +496,65 @@ export default function PortfolioCharts({ assets, optimizationResult }: Portfoli
                   />
                 }
               />
-              <Bar dataKey={optimizationResult ? "value" : "return"} fill="hsl(var(--chart-1))" radius={[0, 4, 4, 0]} />
+              <Bar dataKey={optimizationResult ? "value" : "return"} fill="hsl(var(--chart-1))" radius={[0, 4, 4, 0]}>
+                {allocationData.map((entry) => (
+                  <Cell key={entry.name} fill={entry.short ? "hsl(var(--destructive))" : "hsl(var(--chart-1))"} />
+                ))}
+                {resampling && (
+                  <ErrorBar dataKey="interval" width={6} strokeWidth={1.5} stroke="hsl(var(--foreground))" />
+                )}
+              </Bar>
             </BarChart>
           </ChartContainer>
         </CardContent>
       </Card>
 
+      {/* Correlation Clusters */}
+      {clusters && clusterOrder.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Network className="h-5 w-5" />
+              Correlation Clusters
+            </CardTitle>
+            <CardDescription>
+              Single-linkage dendrogram used by hierarchical risk parity; assets that join lower move together more
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={dendrogramConfig} className="h-[300px]">
+              <ScatterChart>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis
+                  dataKey="x"
+                  type="number"
+                  domain={[-0.5, clusterOrder.length - 0.5]}
+                  ticks={clusterOrder.map((_, position) => position)}
+                  tickFormatter={(position) => assets[clusterOrder[position]]?.symbol ?? ""}
+                  interval={0}
+                />
+                <YAxis
+                  dataKey="height"
+                  type="number"
+                  domain={[0, "auto"]}
+                  tickFormatter={(value) => Number(value).toFixed(2)}
+                  label={{ value: "Cluster Distance", angle: -90, position: "insideLeft" }}
+                />
+                {dendrogramLinks.map((link, index) => (
+                  <Scatter
+                    key={index}
+                    data={link}
+                    line={{ stroke: "hsl(var(--chart-2))", strokeWidth: 2 }}
+                    shape={() => <g />}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </ScatterChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Performance Summary Cards */}
       {optimizationResult && (
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -406,6 +601,133 @@ export default function PortfolioCharts({ assets, optimizationResult }: Portfoli
           </Card>
         </div>
       )}
+
+      {/* Monte Carlo Projection */}
+      {simulation && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Activity className="h-5 w-5" />
+                Monte Carlo Projection
+              </CardTitle>
+              <CardDescription>
+                Percentile bands of portfolio value over {simulation.horizonYears} years from{" "}
+                {formatCurrency(simulation.initialCapital)}, {simulation.paths.toLocaleString()}{" "}
+                {simulation.distribution === "student-t"
+                  ? `Student-t paths (ν = ${simulation.degreesOfFreedom})`
+                  : "normal paths"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={simulationConfig} className="h-[300px]">
+                <ComposedChart data={fanChartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="year"
+                    type="number"
+                    domain={[0, simulation.horizonYears]}
+                    label={{ value: "Years", position: "insideBottom", offset: -5 }}
+                  />
+                  <YAxis tickFormatter={formatCompactCurrency} width={70} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        formatter={(value, name) => {
+                          const label = simulationConfig[String(name)]?.label ?? name
+                          if (Array.isArray(value)) {
+                            const [low, high] = value.map(Number)
+                            return [`${formatCurrency(low)} – ${formatCurrency(high)}`, label]
+                          }
+                          return [formatCurrency(Number(value)), label]
+                        }}
+                        labelFormatter={(_, payload) => `Year ${payload?.[0]?.payload?.year ?? ""}`}
+                      />
+                    }
+                  />
+                  {bandPairs.map((pair, k) => (
+                    <Area
+                      key={pair.key}
+                      dataKey={pair.key}
+                      type="monotone"
+                      stroke="none"
+                      fill="hsl(var(--chart-2))"
+                      fillOpacity={0.15 + (0.3 * (k + 1)) / bandPairs.length}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                  {middlePercentile !== null && (
+                    <Line type="monotone" dataKey="middle" stroke="hsl(var(--chart-1))" strokeWidth={2} dot={false} />
+                  )}
+                  <Line
+                    type="monotone"
+                    dataKey="mean"
+                    stroke="hsl(var(--chart-3))"
+                    strokeWidth={1}
+                    strokeDasharray="4 4"
+                    dot={false}
+                  />
+                </ComposedChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BarChart3 className="h-5 w-5" />
+                Terminal Wealth
+              </CardTitle>
+              <CardDescription>Distribution of portfolio value at the horizon, losses highlighted</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Probability of Loss</p>
+                  <p className="text-xl font-bold text-destructive">
+                    {formatPercentage(simulation.probabilityOfLoss * 100)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Median</p>
+                  <p className="text-xl font-bold">{formatCompactCurrency(simulation.medianTerminalWealth)}</p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Mean</p>
+                  <p className="text-xl font-bold">{formatCompactCurrency(simulation.expectedTerminalWealth)}</p>
+                </div>
+              </div>
+              <ChartContainer config={{ probability: { label: "Probability" } }} className="h-[230px]">
+                <BarChart data={terminalWealthData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="wealth" tickFormatter={formatCompactCurrency} minTickGap={20} />
+                  <YAxis tickFormatter={formatPercentage} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        formatter={(value) => [`${Number(value).toFixed(2)}%`, "Probability"]}
+                        labelFormatter={(_, payload) => {
+                          const bin = payload?.[0]?.payload
+                          return bin ? `${formatCurrency(bin.from)} – ${formatCurrency(bin.to)}` : ""
+                        }}
+                      />
+                    }
+                  />
+                  <Bar dataKey="probability" radius={[2, 2, 0, 0]}>
+                    {terminalWealthData.map((entry) => (
+                      <Cell
+                        key={entry.from}
+                        fill={entry.loss ? "hsl(var(--destructive))" : "hsl(var(--chart-2))"}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+              <p className="text-xs text-muted-foreground">Seed {simulation.seed}</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
     </div>
   )
 }
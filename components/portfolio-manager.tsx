@@ -29,14 +29,21 @@ import {
 import { Save, FolderOpen, Trash2, Calendar, Tag } from "lucide-react"
 import { PortfolioStorage, type SavedPortfolio } from "@/lib/portfolio-storage"
 import type { Asset } from "@/lib/quantum-optimizer"
+import type { BlackLittermanView } from "@/lib/black-litterman"
 
 interface PortfolioManagerProps {
   currentAssets: Asset[]
   currentWeights?: number[]
-  onLoadPortfolio: (assets: Asset[], weights?: number[]) => void
+  currentViews?: BlackLittermanView[]
+  onLoadPortfolio: (assets: Asset[], weights?: number[], views?: BlackLittermanView[]) => void
 }
 
-export default function PortfolioManager({ currentAssets, currentWeights, onLoadPortfolio }: PortfolioManagerProps) {
+export default function PortfolioManager({
+  currentAssets,
+  currentWeights,
+  currentViews,
+  onLoadPortfolio,
+}: PortfolioManagerProps) {
   const [savedPortfolios, setSavedPortfolios] = useState<SavedPortfolio[]>([])
   const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false)
   const [isLoadDialogOpen, setIsLoadDialogOpen] = useState(false)
@@ -64,6 +71,7 @@ export default function PortfolioManager({ currentAssets, currentWeights, onLoad
       description: saveForm.description.trim() || undefined,
       assets: currentAssets,
       weights: currentWeights,
+      views: currentViews && currentViews.length > 0 ? currentViews : undefined,
       createdAt: new Date(),
       updatedAt: new Date(),
       tags: saveForm.tags
@@ -81,7 +89,7 @@ export default function PortfolioManager({ currentAssets, currentWeights, onLoad
   }
 
   const handleLoadPortfolio = (portfolio: SavedPortfolio) => {
-    onLoadPortfolio(portfolio.assets, portfolio.weights)
+    onLoadPortfolio(portfolio.assets, portfolio.weights, portfolio.views)
     setIsLoadDialogOpen(false)
   }
 
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { useRouter } from "next/navigation"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
@@ -10,13 +10,85 @@ import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Progress } from "@/components/ui/progress"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { Loader2, TrendingUp, BarChart3, Zap, Settings, LogOut, User } from "lucide-react"
-import { QuantumPortfolioOptimizer, type Asset, type OptimizationResult, sampleAssets } from "@/lib/quantum-optimizer"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Loader2,
+  TrendingUp,
+  BarChart3,
+  Zap,
+  Settings,
+  LogOut,
+  User,
+  AlertCircle,
+  Plus,
+  Trash2,
+  Square,
+  Play,
+  Download,
+} from "lucide-react"
+import {
+  CONSTRAINT_TOLERANCE,
+  QuantumPortfolioOptimizer,
+  assetCategories,
+  type AnnealingOptimizationResult,
+  type Asset,
+  type CategoryLimit,
+  type EfficientFrontierPoint,
+  type OptimizationObjective,
+  type OptimizationResult,
+  type QAOAOptimizationResult,
+  type RebalanceOptions,
+  optimizationObjectives,
+  sampleAssets,
+} from "@/lib/quantum-optimizer"
+import { MAX_QAOA_QUBITS } from "@/lib/qaoa-simulator"
+import type { QUBOEncoding } from "@/lib/qubo"
+import { annealingMethods, type AnnealingMethod } from "@/lib/annealing-solver"
+import {
+  MAX_SIMULATION_PATHS,
+  returnDistributions,
+  type ReturnDistribution,
+  type SimulationResult,
+} from "@/lib/monte-carlo"
+import { OptimizerClient, isAbortError } from "@/lib/optimizer-client"
+import { gradientSolver, solverRegistry, type SolveRequest } from "@/lib/solver-registry"
+import { covarianceEstimators, type CovarianceEstimator } from "@/lib/risk-model"
+import { ImportExportManager, type QuantumProblem } from "@/lib/import-export"
+import type { DiscreteAllocation } from "@/lib/discrete-allocation"
+import type { RiskReport } from "@/lib/risk-analytics"
+import {
+  BlackLitterman,
+  DEFAULT_RISK_AVERSION,
+  DEFAULT_TAU,
+  type BlackLittermanResult,
+  type BlackLittermanView,
+} from "@/lib/black-litterman"
+import {
+  DEFAULT_RESAMPLES,
+  MAX_RESAMPLES,
+  RESAMPLING_INTERVAL,
+  resamplingMethods,
+  type ResamplingMethod,
+  type ResamplingOptions,
+  type ResamplingSummary,
+} from "@/lib/resampled-optimizer"
+import {
+  DEFAULT_ROBUST_RISK_AVERSION,
+  robustCriteria,
+  uncertaintySets,
+  type RobustOptions,
+  type RobustSummary,
+} from "@/lib/robust-optimizer"
+import type { Benchmark, BenchmarkSummary } from "@/lib/benchmark"
 import { DatabaseOperations } from "@/lib/database-operations"
 import { createClient } from "@/lib/supabase/client"
 import AssetManager from "@/components/asset-manager"
+import BlackLittermanViews, { type BlackLittermanSettings } from "@/components/black-litterman-views"
+import BenchmarkEditor from "@/components/benchmark-editor"
 import PortfolioManager from "@/components/portfolio-manager"
 import PortfolioCharts from "@/components/portfolio-charts"
+import PortfolioBacktest from "@/components/portfolio-backtest"
+import StressTestPanel from "@/components/stress-test-panel"
 import ImportExportManagerComponent from "@/components/import-export-manager"
 
 export default function PortfolioOptimizer() {
@@ -25,12 +97,99 @@ export default function PortfolioOptimizer() {
   const [assets, setAssets] = useState<Asset[]>([])
   const [currentPortfolioId, setCurrentPortfolioId] = useState<string | null>(null)
   const [isOptimizing, setIsOptimizing] = useState(false)
+  const [optimizationError, setOptimizationError] = useState<string | null>(null)
   const [optimizationResult, setOptimizationResult] = useState<OptimizationResult | null>(null)
+  const [efficientFrontier, setEfficientFrontier] = useState<{
+    points: EfficientFrontierPoint[]
+    assetStatistics: { expectedReturn: number; volatility: number }[]
+  } | null>(null)
   const [optimizer] = useState(() => new QuantumPortfolioOptimizer())
+  // Runs the solvers in a Web Worker so the page stays responsive
+  const [solver] = useState(() => new OptimizerClient())
+  const abortController = useRef<AbortController | null>(null)
+  const [liveConvergence, setLiveConvergence] = useState<number[] | null>(null)
   const [db] = useState(() => new DatabaseOperations())
   const [constraints, setConstraints] = useState({
     minWeight: 0.05,
     maxWeight: 0.4,
+    categoryLimits: [] as CategoryLimit[],
+    minHoldings: undefined as number | undefined,
+    maxHoldings: undefined as number | undefined,
+    minBuyIn: undefined as number | undefined,
+    netExposure: 1,
+    grossExposure: undefined as number | undefined,
+    borrowingRate: 0,
+  })
+  const [algorithm, setAlgorithm] = useState(gradientSolver.name)
+  const [covarianceEstimator, setCovarianceEstimator] = useState<CovarianceEstimator>("sample")
+  // Fixed seed for stochastic solvers; each run draws and records a fresh one when unset
+  const [seed, setSeed] = useState<number | undefined>(undefined)
+  const [replayStatus, setReplayStatus] = useState<{ identical: boolean; message: string } | null>(null)
+  const [objectiveType, setObjectiveType] = useState<OptimizationObjective["type"]>("max-sharpe")
+  const [objectiveTargets, setObjectiveTargets] = useState({
+    targetReturn: 0.12,
+    targetVolatility: 0.2,
+    trackingErrorBudget: 0.03,
+    targetActiveReturn: undefined as number | undefined,
+  })
+  const [benchmark, setBenchmark] = useState<Benchmark>({ name: "Benchmark", weights: {}, assets: [] })
+  const [qaoaSettings, setQaoaSettings] = useState({
+    numAssets: 3,
+    layers: 2,
+  })
+  const [annealingSettings, setAnnealingSettings] = useState({
+    encoding: "discrete-weights" as QUBOEncoding,
+    method: "simulated-annealing" as AnnealingMethod,
+    numAssets: 3,
+    resolution: 20,
+    sweeps: 1000,
+  })
+  const [simulationSettings, setSimulationSettings] = useState({
+    horizonYears: 10,
+    initialCapital: 100000,
+    paths: 2000,
+    distribution: "normal" as ReturnDistribution,
+    degreesOfFreedom: 5,
+  })
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null)
+  const [isSimulating, setIsSimulating] = useState(false)
+  const [simulationError, setSimulationError] = useState<string | null>(null)
+  const [riskSettings, setRiskSettings] = useState({
+    confidenceLevels: "95, 99", // percentages, comma separated
+    horizonPeriods: 1,
+  })
+  const [allocationCapital, setAllocationCapital] = useState(100000)
+  const [views, setViews] = useState<BlackLittermanView[]>([])
+  const [blackLittermanSettings, setBlackLittermanSettings] = useState<BlackLittermanSettings>({
+    enabled: false,
+    riskAversion: DEFAULT_RISK_AVERSION,
+    tau: DEFAULT_TAU,
+  })
+  const [isSavingViews, setIsSavingViews] = useState(false)
+  const [optimizationMode, setOptimizationMode] = useState<"allocation" | "rebalance" | "robust">("allocation")
+  const rebalanceMode = optimizationMode === "rebalance"
+  // Rebalancing nets trading costs out of the Sharpe ratio, so it has no other objective
+  const activeObjectiveType: OptimizationObjective["type"] = rebalanceMode ? "max-sharpe" : objectiveType
+  // Current holdings and trading costs by symbol, used in rebalance mode
+  const [holdings, setHoldings] = useState<Record<string, { weight: number; costBps: number; fixedCost: number }>>(
+    {},
+  )
+  const [rebalanceSettings, setRebalanceSettings] = useState({
+    portfolioValue: 100000,
+    maxTurnover: undefined as number | undefined,
+  })
+  const [robustSettings, setRobustSettings] = useState<RobustOptions>({
+    uncertainty: "ellipsoidal",
+    criterion: "sharpe",
+    scale: 1,
+    riskAversion: DEFAULT_ROBUST_RISK_AVERSION,
+  })
+  // Resampling repeats the selected objective over resampled inputs in new-allocation mode
+  const [resamplingSettings, setResamplingSettings] = useState({
+    enabled: false,
+    method: "parametric" as ResamplingMethod,
+    samples: DEFAULT_RESAMPLES,
+    observations: undefined as number | undefined,
   })
   const router = useRouter()
   const supabase = createClient()
@@ -57,6 +216,7 @@ export default function PortfolioOptimizer() {
           const latestPortfolio = portfolios[0]
           setCurrentPortfolioId(latestPortfolio.id)
           setAssets(latestPortfolio.assets || [])
+          setViews(latestPortfolio.views ?? [])
           if (latestPortfolio.optimization_results && latestPortfolio.optimization_results.length > 0) {
             const latestResult = latestPortfolio.optimization_results[0]
             setOptimizationResult({
@@ -66,6 +226,10 @@ export default function PortfolioOptimizer() {
               sharpeRatio: latestResult.sharpe_ratio,
               iterations: 100, // Default value
               convergenceData: latestResult.convergence_data || [],
+              objective: latestResult.parameters?.objective?.type,
+              solver: latestResult.parameters?.solver,
+              seed: latestResult.manifest?.seed,
+              manifest: latestResult.manifest ?? undefined,
             })
           }
         }
@@ -91,7 +255,58 @@ export default function PortfolioOptimizer() {
     return () => subscription.unsubscribe()
   }, [supabase.auth, router, db])
 
+  useEffect(() => () => solver.terminate(), [solver])
+
+  const buildObjective = (): OptimizationObjective =>
+    activeObjectiveType === "target-return"
+      ? { type: activeObjectiveType, targetReturn: objectiveTargets.targetReturn }
+      : activeObjectiveType === "target-volatility"
+        ? { type: activeObjectiveType, targetVolatility: objectiveTargets.targetVolatility }
+        : activeObjectiveType === "max-information-ratio"
+          ? { type: activeObjectiveType, benchmark, trackingErrorBudget: objectiveTargets.trackingErrorBudget }
+          : activeObjectiveType === "min-tracking-error"
+            ? { type: activeObjectiveType, benchmark, targetActiveReturn: objectiveTargets.targetActiveReturn }
+            : { type: activeObjectiveType }
+
+  const buildResampling = (): ResamplingOptions | undefined =>
+    resamplingSettings.enabled
+      ? {
+          method: resamplingSettings.method,
+          samples: resamplingSettings.samples,
+          observations: resamplingSettings.observations,
+        }
+      : undefined
+
+  // What the selected solver is asked at every re-optimization of a backtest
+  const buildBacktestRequest = (): Omit<SolveRequest, "assets" | "seed"> =>
+    algorithm === "qaoa-simulator"
+      ? { qaoa: qaoaSettings }
+      : algorithm === "annealing"
+        ? { annealing: { ...annealingSettings, minWeight: constraints.minWeight, maxWeight: constraints.maxWeight } }
+        : optimizationMode === "robust"
+          ? { constraints, robust: robustSettings }
+          : { constraints, objective: buildObjective(), resampling: buildResampling() }
+
+  // Posterior returns from the market caps and views; with Black-Litterman enabled the optimizer,
+  // frontier, simulation and risk analytics all value the assets at the posterior
+  const blackLitterman = ((): { result: BlackLittermanResult | null; error: string | null } => {
+    if (assets.length === 0) return { result: null, error: null }
+    try {
+      return { result: optimizer.calculateBlackLitterman(assets, views, blackLittermanSettings), error: null }
+    } catch (error) {
+      return { result: null, error: error instanceof Error ? error.message : "Black-Litterman failed" }
+    }
+  })()
+  const modelAssets =
+    blackLittermanSettings.enabled && blackLitterman.result
+      ? BlackLitterman.applyPosterior(assets, blackLitterman.result)
+      : assets
+
   const handleOptimize = async () => {
+    if (blackLittermanSettings.enabled && blackLitterman.error) {
+      setOptimizationError(`Black-Litterman: ${blackLitterman.error}`)
+      return
+    }
     if (!currentPortfolioId) {
       // Create a new portfolio first
       try {
@@ -103,15 +318,7 @@ export default function PortfolioOptimizer() {
         setCurrentPortfolioId(portfolio.id)
 
         // Save assets to the new portfolio
-        await db.saveAssets(
-          portfolio.id,
-          assets.map((asset) => ({
-            symbol: asset.symbol,
-            name: asset.name,
-            expected_return: asset.expectedReturn,
-            volatility: asset.volatility,
-          })),
-        )
+        await db.saveAssets(portfolio.id, assets)
       } catch (error) {
         console.error("Error creating portfolio:", error)
         return
@@ -119,9 +326,60 @@ export default function PortfolioOptimizer() {
     }
 
     setIsOptimizing(true)
+    setOptimizationError(null)
+    setLiveConvergence([])
+    optimizer.setCovarianceEstimator(covarianceEstimator)
+    solver.setCovarianceEstimator(covarianceEstimator)
+    const controller = new AbortController()
+    abortController.current = controller
+    const run = { signal: controller.signal, onProgress: setLiveConvergence }
     try {
-      const result = await optimizer.optimizePortfolio(assets, constraints)
+      let result: OptimizationResult
+      let parameters: Record<string, unknown>
+      if (algorithm === "qaoa-simulator") {
+        const request = { assets: modelAssets, qaoa: qaoaSettings, seed }
+        const selection = (await solver.solve(algorithm, request, run)) as QAOAOptimizationResult
+        result = selection
+        parameters = { ...qaoaSettings, gammas: selection.qaoa.gammas, betas: selection.qaoa.betas }
+      } else if (algorithm === "annealing") {
+        const annealing = { ...annealingSettings, minWeight: constraints.minWeight, maxWeight: constraints.maxWeight }
+        const request = { assets: modelAssets, annealing, seed }
+        const annealed = (await solver.solve(algorithm, request, run)) as AnnealingOptimizationResult
+        result = annealed
+        parameters = { ...annealing, energy: annealed.annealing.energy }
+      } else {
+        const objective = buildObjective()
+        if (rebalanceMode) {
+          const rebalance: RebalanceOptions = {
+            currentWeights: assets.map((asset) => holdingFor(asset.symbol).weight),
+            proportionalCosts: assets.map((asset) => holdingFor(asset.symbol).costBps / 10000),
+            fixedCosts: assets.map((asset) => holdingFor(asset.symbol).fixedCost),
+            ...rebalanceSettings,
+          }
+          result = await solver.solve(algorithm, { assets: modelAssets, constraints, rebalance, seed }, run)
+          parameters = { ...constraints, objective, rebalance }
+        } else if (optimizationMode === "robust") {
+          const request = { assets: modelAssets, constraints, robust: robustSettings, seed }
+          result = await solver.solve(algorithm, request, run)
+          parameters = { ...constraints, robust: robustSettings }
+        } else {
+          const resampling = buildResampling()
+          result = await solver.solve(algorithm, { assets: modelAssets, constraints, objective, resampling, seed }, run)
+          parameters = { ...constraints, objective, resampling }
+        }
+      }
+      // Record exactly which solver and seed produced the run
+      parameters = {
+        solver: result.solver,
+        seed: result.seed,
+        ...parameters,
+        covarianceEstimator: result.covarianceEstimator,
+      }
       setOptimizationResult(result)
+      setReplayStatus(null)
+      setSimulation(null)
+      setLiveConvergence(null)
+      setEfficientFrontier(null)
 
       // Save optimization result to database
       if (currentPortfolioId) {
@@ -140,18 +398,117 @@ export default function PortfolioOptimizer() {
           volatility: result.volatility,
           sharpe_ratio: result.sharpeRatio,
           convergence_data: result.convergenceData,
-          parameters: constraints,
+          parameters,
+          manifest: result.manifest ?? null,
         })
       }
+
+      // The result is saved by now, so a failed or cancelled frontier only leaves the chart empty
+      try {
+        setEfficientFrontier({
+          points: await solver.computeEfficientFrontier(modelAssets, constraints, 25, { signal: controller.signal }),
+          assetStatistics: optimizer.estimateAssetStatistics(modelAssets),
+        })
+      } catch (error) {
+        if (!isAbortError(error)) {
+          console.error("Efficient frontier failed:", error)
+        }
+      }
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error("Optimization failed:", error)
+        setOptimizationError(error instanceof Error ? error.message : "Optimization failed")
+      }
+    } finally {
+      abortController.current = null
+      setLiveConvergence(null)
+      setIsOptimizing(false)
+    }
+  }
+
+  // The annealing QUBO, or the QAOA selection problem with the angles of the last QAOA run, built from
+  // the same inputs the solvers are given
+  const handleBuildQuantumProblem = (): QuantumProblem => {
+    optimizer.setCovarianceEstimator(covarianceEstimator)
+    if (algorithm === "annealing") {
+      return {
+        model: optimizer.buildQUBO(modelAssets, {
+          ...annealingSettings,
+          minWeight: constraints.minWeight,
+          maxWeight: constraints.maxWeight,
+        }),
+      }
+    }
+    const numAssets = qaoaResult?.qaoa.numAssets ?? qaoaSettings.numAssets
+    return {
+      model: optimizer.buildQUBO(modelAssets, { encoding: "selection", numAssets }),
+      angles: qaoaResult ? { gammas: qaoaResult.qaoa.gammas, betas: qaoaResult.qaoa.betas } : undefined,
+    }
+  }
+
+  // Re-run the displayed result from its manifest and check the weights come out identical
+  const handleReplay = async () => {
+    const manifest = optimizationResult?.manifest
+    if (!manifest) return
+
+    setIsOptimizing(true)
+    setReplayStatus(null)
+    const controller = new AbortController()
+    abortController.current = controller
+    try {
+      const replayed = await solver.replay(manifest, { signal: controller.signal, onProgress: setLiveConvergence })
+      const identical =
+        replayed.optimalWeights.length === optimizationResult.optimalWeights.length &&
+        replayed.optimalWeights.every((w, i) => w === optimizationResult.optimalWeights[i])
+      setReplayStatus({
+        identical,
+        message: identical
+          ? "Replay reproduced identical weights"
+          : "Replay produced different weights; the inputs hash matched, so the solver output changed",
+      })
     } catch (error) {
-      console.error("Optimization failed:", error)
+      if (!isAbortError(error)) {
+        setReplayStatus({ identical: false, message: error instanceof Error ? error.message : "Replay failed" })
+      }
     } finally {
+      abortController.current = null
+      setLiveConvergence(null)
       setIsOptimizing(false)
     }
   }
 
-  const handleLoadPortfolio = async (loadedAssets: Asset[], weights?: number[]) => {
+  // Project the optimal weights forward; the run's seed makes the projection repeatable
+  const handleSimulate = async () => {
+    if (!optimizationResult) return
+
+    setIsSimulating(true)
+    setSimulationError(null)
+    try {
+      solver.setCovarianceEstimator(covarianceEstimator)
+      setSimulation(
+        await solver.simulatePortfolio(modelAssets, optimizationResult.optimalWeights, {
+          ...simulationSettings,
+          seed: optimizationResult.seed,
+        }),
+      )
+    } catch (error) {
+      if (!isAbortError(error)) {
+        setSimulationError(error instanceof Error ? error.message : "Simulation failed")
+      }
+    } finally {
+      setIsSimulating(false)
+    }
+  }
+
+  const handleCancelOptimization = () => {
+    abortController.current?.abort()
+  }
+
+  const handleLoadPortfolio = async (loadedAssets: Asset[], weights?: number[], loadedViews?: BlackLittermanView[]) => {
     setAssets(loadedAssets)
+    setViews(loadedViews ?? [])
+    setEfficientFrontier(null)
+    setSimulation(null)
 
     // Save as new portfolio if assets changed significantly
     try {
@@ -159,24 +516,39 @@ export default function PortfolioOptimizer() {
         name: `Imported Portfolio ${new Date().toLocaleDateString()}`,
         description: "Imported portfolio configuration",
         tags: ["imported"],
+        views: loadedViews ?? null,
       })
       setCurrentPortfolioId(portfolio.id)
 
-      await db.saveAssets(
-        portfolio.id,
-        loadedAssets.map((asset) => ({
-          symbol: asset.symbol,
-          name: asset.name,
-          expected_return: asset.expectedReturn,
-          volatility: asset.volatility,
-        })),
-      )
+      await db.saveAssets(portfolio.id, loadedAssets)
     } catch (error) {
       console.error("Error saving imported portfolio:", error)
     }
 
     if (weights) {
       setOptimizationResult(null)
+      // Loaded weights are what the user holds now, so they become the starting point for rebalancing
+      setHoldings((prev) =>
+        Object.fromEntries(
+          loadedAssets.map((asset, index) => [
+            asset.symbol,
+            { ...holdingFor(asset.symbol), ...prev[asset.symbol], weight: weights[index] ?? 0 },
+          ]),
+        ),
+      )
+    }
+  }
+
+  const handleSaveViews = async () => {
+    if (!currentPortfolioId) return
+
+    setIsSavingViews(true)
+    try {
+      await db.updatePortfolio(currentPortfolioId, { views })
+    } catch (error) {
+      console.error("Error saving views:", error)
+    } finally {
+      setIsSavingViews(false)
     }
   }
 
@@ -187,6 +559,8 @@ export default function PortfolioOptimizer() {
     metadata?: any
   }) => {
     setAssets(data.assets)
+    setEfficientFrontier(null)
+    setSimulation(null)
     if (data.optimizationResult) {
       setOptimizationResult(data.optimizationResult)
     } else {
@@ -194,11 +568,114 @@ export default function PortfolioOptimizer() {
     }
   }
 
+  const holdingFor = (symbol: string) => holdings[symbol] ?? { weight: 0, costBps: 10, fixedCost: 0 }
+
+  const updateHolding = (symbol: string, update: Partial<{ weight: number; costBps: number; fixedCost: number }>) => {
+    setHoldings((prev) => ({ ...prev, [symbol]: { ...holdingFor(symbol), ...update } }))
+  }
+
+  const addCategoryLimit = () => {
+    const used = new Set(constraints.categoryLimits.map((limit) => limit.category))
+    const category =
+      assets.map((asset) => asset.category).find((c): c is string => !!c && !used.has(c)) ??
+      assetCategories.find((c) => !used.has(c)) ??
+      assetCategories[0]
+    setConstraints((prev) => ({ ...prev, categoryLimits: [...prev.categoryLimits, { category }] }))
+  }
+
+  const updateCategoryLimit = (index: number, update: Partial<CategoryLimit>) => {
+    setConstraints((prev) => ({
+      ...prev,
+      categoryLimits: prev.categoryLimits.map((limit, i) => (i === index ? { ...limit, ...update } : limit)),
+    }))
+  }
+
+  const removeCategoryLimit = (index: number) => {
+    setConstraints((prev) => ({ ...prev, categoryLimits: prev.categoryLimits.filter((_, i) => i !== index) }))
+  }
+
   const handleSignOut = async () => {
     await supabase.auth.signOut()
     router.push("/auth/login")
   }
 
+  const qaoaResult =
+    optimizationResult && "qaoa" in optimizationResult ? (optimizationResult as QAOAOptimizationResult) : null
+  const annealingResult =
+    optimizationResult && "annealing" in optimizationResult
+      ? (optimizationResult as AnnealingOptimizationResult)
+      : null
+  const categoryExposures = optimizationResult
+    ? (optimizationResult.categoryExposures ??
+      optimizer.calculateCategoryExposures(assets, optimizationResult.optimalWeights))
+    : []
+
+  // Risk figures for the displayed weights; settings that cannot be evaluated show an error instead
+  const riskAnalysis = ((): { report: RiskReport | null; error: string | null } => {
+    if (!optimizationResult) return { report: null, error: null }
+    try {
+      const confidenceLevels = riskSettings.confidenceLevels
+        .split(/[,\s]+/)
+        .filter(Boolean)
+        .map((level) => Number.parseFloat(level) / 100)
+      const options = { confidenceLevels, horizonPeriods: riskSettings.horizonPeriods }
+      return {
+        report: optimizer.calculateRiskMetrics(modelAssets, optimizationResult.optimalWeights, options, constraints),
+        error: null,
+      }
+    } catch (error) {
+      return { report: null, error: error instanceof Error ? error.message : "Risk analysis failed" }
+    }
+  })()
+
+  const shareAllocation = ((): { allocation: DiscreteAllocation | null; error: string | null } => {
+    if (!optimizationResult) return { allocation: null, error: null }
+    try {
+      return {
+        allocation: optimizer.allocateShares(modelAssets, optimizationResult.optimalWeights, allocationCapital),
+        error: null,
+      }
+    } catch (error) {
+      return { allocation: null, error: error instanceof Error ? error.message : "Share allocation failed" }
+    }
+  })()
+
+  // Active weights, tracking error and beta against the benchmark, once it has any weight
+  const benchmarkAnalysis = ((): { summary: BenchmarkSummary | null; error: string | null } => {
+    if (!optimizationResult) return { summary: null, error: null }
+    if (optimizationResult.benchmark) return { summary: optimizationResult.benchmark, error: null }
+    if (!Object.values(benchmark.weights).some((w) => w > 0)) return { summary: null, error: null }
+    try {
+      return {
+        summary: optimizer.calculateBenchmarkMetrics(
+          modelAssets,
+          optimizationResult.optimalWeights,
+          benchmark,
+          constraints,
+        ),
+        error: null,
+      }
+    } catch (error) {
+      return { summary: null, error: error instanceof Error ? error.message : "Benchmark analysis failed" }
+    }
+  })()
+
+  const handleExportOrders = () => {
+    if (!shareAllocation.allocation) return
+    const content = ImportExportManager.exportOrdersToCSV(shareAllocation.allocation)
+    ImportExportManager.downloadFile(content, ImportExportManager.generateFilename("orders", "csv"), "text/csv")
+  }
+
+  // Correlation clusters for the dendrogram; left out when an asset has no volatility to correlate
+  const assetClusters = (() => {
+    if (assets.length < 2) return null
+    try {
+      return optimizer.clusterAssets(assets)
+    } catch {
+      return null
+    }
+  })()
+
   const formatPercentage = (value: number) => `${(value * 100).toFixed(2)}%`
   const formatCurrency = (value: number) => `$${value.toFixed(2)}`
 
@@ -257,7 +734,7 @@ export default function PortfolioOptimizer() {
         </div>
 
         <Tabs defaultValue="portfolio" className="space-y-8">
-          <TabsList className="grid w-full grid-cols-6 h-14 bg-card/50 backdrop-blur-sm border border-border/50 shadow-lg">
+          <TabsList className="grid w-full grid-cols-7 h-14 bg-card/50 backdrop-blur-sm border border-border/50 shadow-lg">
             <TabsTrigger
               value="portfolio"
               className="text-sm font-medium data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
@@ -282,6 +759,12 @@ export default function PortfolioOptimizer() {
             >
               Analytics
             </TabsTrigger>
+            <TabsTrigger
+              value="backtest"
+              className="text-sm font-medium data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+            >
+              Backtest
+            </TabsTrigger>
             <TabsTrigger
               value="import-export"
               className="text-sm font-medium data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
@@ -302,6 +785,7 @@ export default function PortfolioOptimizer() {
               <PortfolioManager
                 currentAssets={assets}
                 currentWeights={optimizationResult?.optimalWeights}
+                currentViews={views}
                 onLoadPortfolio={handleLoadPortfolio}
               />
 
@@ -357,6 +841,19 @@ export default function PortfolioOptimizer() {
           {/* Asset Management Tab */}
           <TabsContent value="assets" className="space-y-6">
             <AssetManager assets={assets} onAssetsChange={setAssets} />
+            <BlackLittermanViews
+              assets={assets}
+              views={views}
+              onViewsChange={setViews}
+              settings={blackLittermanSettings}
+              onSettingsChange={setBlackLittermanSettings}
+              priorReturns={optimizer.estimateAssetStatistics(assets).map((stats) => stats.expectedReturn)}
+              result={blackLitterman.result}
+              error={blackLitterman.error}
+              onSave={currentPortfolioId ? handleSaveViews : undefined}
+              isSaving={isSavingViews}
+            />
+            <BenchmarkEditor assets={assets} benchmark={benchmark} onBenchmarkChange={setBenchmark} />
           </TabsContent>
 
           {/* Optimization Tab */}
@@ -372,37 +869,793 @@ export default function PortfolioOptimizer() {
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="space-y-2">
-                    <Label>Minimum Weight per Asset</Label>
-                    <Input
-                      type="number"
-                      step="0.01"
-                      min="0"
-                      max="1"
-                      value={constraints.minWeight}
-                      onChange={(e) =>
-                        setConstraints((prev) => ({ ...prev, minWeight: Number.parseFloat(e.target.value) }))
-                      }
-                    />
+                    <Label>Algorithm</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {solverRegistry.list().map((entry) => (
+                        <Button
+                          key={entry.name}
+                          variant={algorithm === entry.name ? "default" : "outline"}
+                          onClick={() => setAlgorithm(entry.name)}
+                        >
+                          {entry.label}
+                        </Button>
+                      ))}
+                    </div>
                     <p className="text-xs text-muted-foreground">
-                      Minimum allocation: {formatPercentage(constraints.minWeight)}
+                      {solverRegistry.get(algorithm).description} (v{solverRegistry.get(algorithm).version})
                     </p>
                   </div>
                   <div className="space-y-2">
-                    <Label>Maximum Weight per Asset</Label>
+                    <Label>Covariance Estimator</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {covarianceEstimators.map((estimator) => (
+                        <Button
+                          key={estimator.value}
+                          variant={covarianceEstimator === estimator.value ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => setCovarianceEstimator(estimator.value)}
+                        >
+                          {estimator.label}
+                        </Button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {covarianceEstimators.find((e) => e.value === covarianceEstimator)?.description}. Only applies
+                      to assets with price or return history.
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="seed">Random Seed</Label>
                     <Input
+                      id="seed"
                       type="number"
-                      step="0.01"
+                      step="1"
                       min="0"
-                      max="1"
-                      value={constraints.maxWeight}
+                      placeholder="Random"
+                      value={seed ?? ""}
                       onChange={(e) =>
-                        setConstraints((prev) => ({ ...prev, maxWeight: Number.parseFloat(e.target.value) }))
+                        setSeed(e.target.value === "" ? undefined : Number.parseInt(e.target.value) >>> 0)
                       }
                     />
                     <p className="text-xs text-muted-foreground">
-                      Maximum allocation: {formatPercentage(constraints.maxWeight)}
+                      Every run records its seed, so leaving this blank still gives a reproducible result
                     </p>
                   </div>
+                  {algorithm === "qaoa-simulator" ? (
+                    <>
+                      <div className="space-y-2">
+                        <Label>Assets to Select (K)</Label>
+                        <Input
+                          type="number"
+                          step="1"
+                          min="1"
+                          max={assets.length}
+                          value={qaoaSettings.numAssets}
+                          onChange={(e) =>
+                            setQaoaSettings((prev) => ({ ...prev, numAssets: Number.parseInt(e.target.value) }))
+                          }
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Selected assets are equally weighted. Simulation supports up to {MAX_QAOA_QUBITS} assets.
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Circuit Layers (p)</Label>
+                        <Input
+                          type="number"
+                          step="1"
+                          min="1"
+                          max="6"
+                          value={qaoaSettings.layers}
+                          onChange={(e) =>
+                            setQaoaSettings((prev) => ({ ...prev, layers: Number.parseInt(e.target.value) }))
+                          }
+                        />
+                      </div>
+                    </>
+                  ) : algorithm === "annealing" ? (
+                    <>
+                      <div className="space-y-2">
+                        <Label>QUBO Encoding</Label>
+                        <div className="grid grid-cols-2 gap-2">
+                          <Button
+                            variant={annealingSettings.encoding === "discrete-weights" ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => setAnnealingSettings((prev) => ({ ...prev, encoding: "discrete-weights" }))}
+                          >
+                            Discrete Weights
+                          </Button>
+                          <Button
+                            variant={annealingSettings.encoding === "selection" ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => setAnnealingSettings((prev) => ({ ...prev, encoding: "selection" }))}
+                          >
+                            Asset Selection
+                          </Button>
+                        </div>
+                      </div>
+                      {annealingSettings.encoding === "selection" ? (
+                        <div className="space-y-2">
+                          <Label>Assets to Select (K)</Label>
+                          <Input
+                            type="number"
+                            step="1"
+                            min="1"
+                            max={assets.length}
+                            value={annealingSettings.numAssets}
+                            onChange={(e) =>
+                              setAnnealingSettings((prev) => ({ ...prev, numAssets: Number.parseInt(e.target.value) }))
+                            }
+                          />
+                          <p className="text-xs text-muted-foreground">Selected assets are equally weighted.</p>
+                        </div>
+                      ) : (
+                        <div className="space-y-2">
+                          <Label>Weight Resolution (units)</Label>
+                          <Input
+                            type="number"
+                            step="1"
+                            min="1"
+                            value={annealingSettings.resolution}
+                            onChange={(e) =>
+                              setAnnealingSettings((prev) => ({ ...prev, resolution: Number.parseInt(e.target.value) }))
+                            }
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Weights are multiples of{" "}
+                            {formatPercentage(1 / Math.max(1, annealingSettings.resolution || 1))} within the minimum
+                            and maximum weight below.
+                          </p>
+                        </div>
+                      )}
+                      <div className="space-y-2">
+                        <Label>Annealing Method</Label>
+                        <div className="grid grid-cols-2 gap-2">
+                          {annealingMethods.map((method) => (
+                            <Button
+                              key={method.value}
+                              variant={annealingSettings.method === method.value ? "default" : "outline"}
+                              size="sm"
+                              onClick={() => setAnnealingSettings((prev) => ({ ...prev, method: method.value }))}
+                            >
+                              {method.label}
+                            </Button>
+                          ))}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {annealingMethods.find((m) => m.value === annealingSettings.method)?.description}
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Sweeps</Label>
+                        <Input
+                          type="number"
+                          step="100"
+                          min="1"
+                          value={annealingSettings.sweeps}
+                          onChange={(e) =>
+                            setAnnealingSettings((prev) => ({ ...prev, sweeps: Number.parseInt(e.target.value) }))
+                          }
+                        />
+                      </div>
+                      {annealingSettings.encoding === "discrete-weights" && (
+                        <div className="grid grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="anneal-min-weight">Minimum Weight</Label>
+                            <Input
+                              id="anneal-min-weight"
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              max="1"
+                              value={constraints.minWeight}
+                              onChange={(e) =>
+                                setConstraints((prev) => ({ ...prev, minWeight: Number.parseFloat(e.target.value) }))
+                              }
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="anneal-max-weight">Maximum Weight</Label>
+                            <Input
+                              id="anneal-max-weight"
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              max="1"
+                              value={constraints.maxWeight}
+                              onChange={(e) =>
+                                setConstraints((prev) => ({ ...prev, maxWeight: Number.parseFloat(e.target.value) }))
+                              }
+                            />
+                          </div>
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <>
+                      <div className="space-y-2">
+                        <Label>Mode</Label>
+                        <div className="grid grid-cols-3 gap-2">
+                          <Button
+                            variant={optimizationMode === "allocation" ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => setOptimizationMode("allocation")}
+                          >
+                            New Allocation
+                          </Button>
+                          <Button
+                            variant={optimizationMode === "robust" ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => setOptimizationMode("robust")}
+                          >
+                            Robust
+                          </Button>
+                          <Button
+                            variant={rebalanceMode ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => setOptimizationMode("rebalance")}
+                          >
+                            Rebalance Holdings
+                          </Button>
+                        </div>
+                      </div>
+                      {rebalanceMode && (
+                        <div className="space-y-2">
+                          <div className="flex items-center justify-between">
+                            <Label>Current Holdings</Label>
+                            {optimizationResult && optimizationResult.optimalWeights.length === assets.length && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() =>
+                                  assets.forEach((asset, index) =>
+                                    updateHolding(asset.symbol, { weight: optimizationResult.optimalWeights[index] }),
+                                  )
+                                }
+                              >
+                                Use Last Result
+                              </Button>
+                            )}
+                          </div>
+                          <div className="grid grid-cols-[4rem_1fr_1fr_1fr] gap-2 text-xs text-muted-foreground">
+                            <span>Asset</span>
+                            <span>Weight</span>
+                            <span>Cost (bps)</span>
+                            <span>Fixed ($)</span>
+                          </div>
+                          {assets.map((asset) => (
+                            <div key={asset.symbol} className="grid grid-cols-[4rem_1fr_1fr_1fr] items-center gap-2">
+                              <Badge variant="outline" className="font-mono">
+                                {asset.symbol}
+                              </Badge>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                max="1"
+                                value={holdingFor(asset.symbol).weight}
+                                onChange={(e) =>
+                                  updateHolding(asset.symbol, { weight: Number.parseFloat(e.target.value) || 0 })
+                                }
+                              />
+                              <Input
+                                type="number"
+                                step="1"
+                                min="0"
+                                value={holdingFor(asset.symbol).costBps}
+                                onChange={(e) =>
+                                  updateHolding(asset.symbol, { costBps: Number.parseFloat(e.target.value) || 0 })
+                                }
+                              />
+                              <Input
+                                type="number"
+                                step="1"
+                                min="0"
+                                value={holdingFor(asset.symbol).fixedCost}
+                                onChange={(e) =>
+                                  updateHolding(asset.symbol, { fixedCost: Number.parseFloat(e.target.value) || 0 })
+                                }
+                              />
+                            </div>
+                          ))}
+                          <div className="grid grid-cols-2 gap-2">
+                            <div className="space-y-1">
+                              <Label className="text-xs">Portfolio Value ($)</Label>
+                              <Input
+                                type="number"
+                                step="1000"
+                                min="0"
+                                value={rebalanceSettings.portfolioValue}
+                                onChange={(e) =>
+                                  setRebalanceSettings((prev) => ({
+                                    ...prev,
+                                    portfolioValue: Number.parseFloat(e.target.value) || 0,
+                                  }))
+                                }
+                              />
+                            </div>
+                            <div className="space-y-1">
+                              <Label className="text-xs">Max Turnover</Label>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                max="1"
+                                placeholder="No limit"
+                                value={rebalanceSettings.maxTurnover ?? ""}
+                                onChange={(e) =>
+                                  setRebalanceSettings((prev) => ({
+                                    ...prev,
+                                    maxTurnover: e.target.value === "" ? undefined : Number.parseFloat(e.target.value),
+                                  }))
+                                }
+                              />
+                            </div>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Turnover is the share of the portfolio bought (equal to the share sold).
+                          </p>
+                        </div>
+                      )}
+                      {optimizationMode === "robust" && (
+                        <div className="space-y-3">
+                          <div className="space-y-2">
+                            <Label>Uncertainty Set</Label>
+                            <div className="grid grid-cols-2 gap-2">
+                              {uncertaintySets.map((set) => (
+                                <Button
+                                  key={set.value}
+                                  variant={robustSettings.uncertainty === set.value ? "default" : "outline"}
+                                  size="sm"
+                                  onClick={() => setRobustSettings((prev) => ({ ...prev, uncertainty: set.value }))}
+                                >
+                                  {set.label}
+                                </Button>
+                              ))}
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                              {uncertaintySets.find((set) => set.value === robustSettings.uncertainty)?.description}
+                            </p>
+                          </div>
+                          <div className="space-y-2">
+                            <Label>Criterion</Label>
+                            <div className="grid grid-cols-2 gap-2">
+                              {robustCriteria.map((criterion) => (
+                                <Button
+                                  key={criterion.value}
+                                  variant={robustSettings.criterion === criterion.value ? "default" : "outline"}
+                                  size="sm"
+                                  onClick={() => setRobustSettings((prev) => ({ ...prev, criterion: criterion.value }))}
+                                >
+                                  {criterion.label}
+                                </Button>
+                              ))}
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                              {robustCriteria.find((c) => c.value === robustSettings.criterion)?.description}
+                            </p>
+                          </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <div className="space-y-1">
+                              <Label className="text-xs">Uncertainty Scale (κ)</Label>
+                              <Input
+                                type="number"
+                                step="0.25"
+                                min="0"
+                                value={robustSettings.scale ?? 1}
+                                onChange={(e) =>
+                                  setRobustSettings((prev) => ({ ...prev, scale: Number.parseFloat(e.target.value) }))
+                                }
+                              />
+                            </div>
+                            {robustSettings.criterion === "utility" && (
+                              <div className="space-y-1">
+                                <Label className="text-xs">Risk Aversion (λ)</Label>
+                                <Input
+                                  type="number"
+                                  step="0.5"
+                                  min="0"
+                                  value={robustSettings.riskAversion ?? DEFAULT_ROBUST_RISK_AVERSION}
+                                  onChange={(e) =>
+                                    setRobustSettings((prev) => ({
+                                      ...prev,
+                                      riskAversion: Number.parseFloat(e.target.value),
+                                    }))
+                                  }
+                                />
+                              </div>
+                            )}
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Each expected return is uncertain by the asset&apos;s return uncertainty, or by the
+                            standard error of its historical mean, times κ.
+                          </p>
+                        </div>
+                      )}
+                      {optimizationMode !== "robust" && (
+                        <div className="space-y-2">
+                          <Label>Objective</Label>
+                          <div className="grid grid-cols-2 gap-2">
+                            {optimizationObjectives.map((objective) => (
+                              <Button
+                                key={objective.value}
+                                variant={activeObjectiveType === objective.value ? "default" : "outline"}
+                                size="sm"
+                                disabled={rebalanceMode}
+                                onClick={() => setObjectiveType(objective.value)}
+                              >
+                                {objective.label}
+                              </Button>
+                            ))}
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            {rebalanceMode
+                              ? "Rebalancing always maximizes the Sharpe ratio net of trading costs: the one-off " +
+                                "cost of the trades is charged against the return, which only the Sharpe objective " +
+                                "trades off against risk."
+                              : optimizationObjectives.find((o) => o.value === objectiveType)?.description}
+                          </p>
+                        </div>
+                      )}
+                      {optimizationMode === "allocation" && (
+                        <div className="space-y-2">
+                          <div className="flex items-center justify-between">
+                            <Label>Resampling</Label>
+                            <Button
+                              variant={resamplingSettings.enabled ? "default" : "outline"}
+                              size="sm"
+                              onClick={() => setResamplingSettings((prev) => ({ ...prev, enabled: !prev.enabled }))}
+                            >
+                              {resamplingSettings.enabled ? "Averaging Resamples" : "Resample Inputs"}
+                            </Button>
+                          </div>
+                          {resamplingSettings.enabled && (
+                            <>
+                              <div className="grid grid-cols-2 gap-2">
+                                {resamplingMethods.map((method) => (
+                                  <Button
+                                    key={method.value}
+                                    variant={resamplingSettings.method === method.value ? "default" : "outline"}
+                                    size="sm"
+                                    onClick={() => setResamplingSettings((prev) => ({ ...prev, method: method.value }))}
+                                  >
+                                    {method.label}
+                                  </Button>
+                                ))}
+                              </div>
+                              <div className="grid grid-cols-2 gap-2">
+                                <div className="space-y-1">
+                                  <Label className="text-xs">Resamples</Label>
+                                  <Input
+                                    type="number"
+                                    step="10"
+                                    min="2"
+                                    max={MAX_RESAMPLES}
+                                    value={resamplingSettings.samples}
+                                    onChange={(e) =>
+                                      setResamplingSettings((prev) => ({
+                                        ...prev,
+                                        samples: Number.parseInt(e.target.value) || 0,
+                                      }))
+                                    }
+                                  />
+                                </div>
+                                <div className="space-y-1">
+                                  <Label className="text-xs">Observations</Label>
+                                  <Input
+                                    type="number"
+                                    step="1"
+                                    min="2"
+                                    placeholder="History length"
+                                    value={resamplingSettings.observations ?? ""}
+                                    onChange={(e) =>
+                                      setResamplingSettings((prev) => ({
+                                        ...prev,
+                                        observations:
+                                          e.target.value === "" ? undefined : Number.parseInt(e.target.value),
+                                      }))
+                                    }
+                                  />
+                                </div>
+                              </div>
+                              <p className="text-xs text-muted-foreground">
+                                {resamplingMethods.find((m) => m.value === resamplingSettings.method)?.description}. The
+                                objective is solved for every resample and the weights are averaged; fewer observations
+                                per resample mean noisier inputs.
+                              </p>
+                            </>
+                          )}
+                        </div>
+                      )}
+                      {optimizationMode === "allocation" && objectiveType === "target-return" && (
+                        <div className="space-y-2">
+                          <Label>Target Annual Return</Label>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            value={objectiveTargets.targetReturn}
+                            onChange={(e) =>
+                              setObjectiveTargets((prev) => ({
+                                ...prev,
+                                targetReturn: Number.parseFloat(e.target.value),
+                              }))
+                            }
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Target return: {formatPercentage(objectiveTargets.targetReturn)}
+                          </p>
+                        </div>
+                      )}
+                      {optimizationMode === "allocation" && objectiveType === "target-volatility" && (
+                        <div className="space-y-2">
+                          <Label>Target Annual Volatility</Label>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={objectiveTargets.targetVolatility}
+                            onChange={(e) =>
+                              setObjectiveTargets((prev) => ({
+                                ...prev,
+                                targetVolatility: Number.parseFloat(e.target.value),
+                              }))
+                            }
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Target volatility: {formatPercentage(objectiveTargets.targetVolatility)}
+                          </p>
+                        </div>
+                      )}
+                      {optimizationMode === "allocation" && objectiveType === "max-information-ratio" && (
+                        <div className="space-y-2">
+                          <Label>Tracking Error Budget</Label>
+                          <Input
+                            type="number"
+                            step="0.005"
+                            min="0"
+                            value={objectiveTargets.trackingErrorBudget}
+                            onChange={(e) =>
+                              setObjectiveTargets((prev) => ({
+                                ...prev,
+                                trackingErrorBudget: Number.parseFloat(e.target.value),
+                              }))
+                            }
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Active risk against {benchmark.name || "the benchmark"}:{" "}
+                            {formatPercentage(objectiveTargets.trackingErrorBudget)} a year
+                          </p>
+                        </div>
+                      )}
+                      {optimizationMode === "allocation" && objectiveType === "min-tracking-error" && (
+                        <div className="space-y-2">
+                          <Label>Target Active Return</Label>
+                          <Input
+                            type="number"
+                            step="0.005"
+                            placeholder="None"
+                            value={objectiveTargets.targetActiveReturn ?? ""}
+                            onChange={(e) =>
+                              setObjectiveTargets((prev) => ({
+                                ...prev,
+                                targetActiveReturn:
+                                  e.target.value === "" ? undefined : Number.parseFloat(e.target.value),
+                              }))
+                            }
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            {objectiveTargets.targetActiveReturn === undefined
+                              ? `Tracks ${benchmark.name || "the benchmark"} as closely as the weight limits allow`
+                              : `Beats ${benchmark.name || "the benchmark"} by at least ` +
+                                formatPercentage(objectiveTargets.targetActiveReturn)}
+                          </p>
+                        </div>
+                      )}
+                      <div className="space-y-2">
+                        <Label>Minimum Weight per Asset</Label>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="-1"
+                          max="1"
+                          value={constraints.minWeight}
+                          onChange={(e) =>
+                            setConstraints((prev) => ({ ...prev, minWeight: Number.parseFloat(e.target.value) }))
+                          }
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Minimum allocation: {formatPercentage(constraints.minWeight)}
+                          {constraints.minWeight < 0 && " (short positions allowed)"}
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Maximum Weight per Asset</Label>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max="1"
+                          value={constraints.maxWeight}
+                          onChange={(e) =>
+                            setConstraints((prev) => ({ ...prev, maxWeight: Number.parseFloat(e.target.value) }))
+                          }
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Maximum allocation: {formatPercentage(constraints.maxWeight)}
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Exposure</Label>
+                        <div className="grid grid-cols-3 gap-2">
+                          <div className="space-y-1">
+                            <Label className="text-xs">Net</Label>
+                            <Input
+                              type="number"
+                              step="0.1"
+                              value={constraints.netExposure}
+                              onChange={(e) =>
+                                setConstraints((prev) => ({
+                                  ...prev,
+                                  netExposure: e.target.value === "" ? 1 : Number.parseFloat(e.target.value),
+                                }))
+                              }
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Gross limit</Label>
+                            <Input
+                              type="number"
+                              step="0.1"
+                              min="0"
+                              placeholder="No limit"
+                              value={constraints.grossExposure ?? ""}
+                              onChange={(e) =>
+                                setConstraints((prev) => ({
+                                  ...prev,
+                                  grossExposure: e.target.value === "" ? undefined : Number.parseFloat(e.target.value),
+                                }))
+                              }
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Borrowing rate</Label>
+                            <Input
+                              type="number"
+                              step="0.005"
+                              min="0"
+                              value={constraints.borrowingRate}
+                              onChange={(e) =>
+                                setConstraints((prev) => ({
+                                  ...prev,
+                                  borrowingRate: Number.parseFloat(e.target.value) || 0,
+                                }))
+                              }
+                            />
+                          </div>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Net 1 is fully invested and 0 market neutral; a 130/30 book has net 1 and gross 1.6. The
+                          borrowing rate is charged on shorts and on leverage in the Sharpe ratio.
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Holdings</Label>
+                        <div className="grid grid-cols-3 gap-2">
+                          <Input
+                            type="number"
+                            step="1"
+                            min="1"
+                            max={assets.length}
+                            placeholder="Min count"
+                            value={constraints.minHoldings ?? ""}
+                            onChange={(e) =>
+                              setConstraints((prev) => ({
+                                ...prev,
+                                minHoldings: e.target.value === "" ? undefined : Number.parseInt(e.target.value),
+                              }))
+                            }
+                          />
+                          <Input
+                            type="number"
+                            step="1"
+                            min="1"
+                            max={assets.length}
+                            placeholder="Max count"
+                            value={constraints.maxHoldings ?? ""}
+                            onChange={(e) =>
+                              setConstraints((prev) => ({
+                                ...prev,
+                                maxHoldings: e.target.value === "" ? undefined : Number.parseInt(e.target.value),
+                              }))
+                            }
+                          />
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            max="1"
+                            placeholder="Min if held"
+                            value={constraints.minBuyIn ?? ""}
+                            onChange={(e) =>
+                              setConstraints((prev) => ({
+                                ...prev,
+                                minBuyIn: e.target.value === "" ? undefined : Number.parseFloat(e.target.value),
+                              }))
+                            }
+                          />
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Number of assets to hold and the smallest position worth taking. Once set, the minimum
+                          weight only applies to held assets and a branch-and-bound search picks which to hold.
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label>Category Limits</Label>
+                          <Button variant="outline" size="sm" onClick={addCategoryLimit}>
+                            <Plus className="h-4 w-4 mr-1" />
+                            Add Limit
+                          </Button>
+                        </div>
+                        {constraints.categoryLimits.map((limit, index) => (
+                          <div key={index} className="grid grid-cols-[1fr_5rem_5rem_auto] items-center gap-2">
+                            <Select
+                              value={limit.category}
+                              onValueChange={(value) => updateCategoryLimit(index, { category: value })}
+                            >
+                              <SelectTrigger size="sm" className="w-full">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {assetCategories.map((category) => (
+                                  <SelectItem key={category} value={category}>
+                                    {category}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              max="1"
+                              placeholder="Min"
+                              value={limit.min ?? ""}
+                              onChange={(e) =>
+                                updateCategoryLimit(index, {
+                                  min: e.target.value === "" ? undefined : Number.parseFloat(e.target.value),
+                                })
+                              }
+                            />
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              max="1"
+                              placeholder="Max"
+                              value={limit.max ?? ""}
+                              onChange={(e) =>
+                                updateCategoryLimit(index, {
+                                  max: e.target.value === "" ? undefined : Number.parseFloat(e.target.value),
+                                })
+                              }
+                            />
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeCategoryLimit(index)}
+                              className="text-destructive hover:text-destructive"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                        <p className="text-xs text-muted-foreground">
+                          Bound the total weight held in a sector, e.g. Technology at most 0.35 or Bond at least 0.20.
+                        </p>
+                      </div>
+                    </>
+                  )}
                 </CardContent>
               </Card>
 
@@ -418,14 +1671,35 @@ export default function PortfolioOptimizer() {
                   <Alert>
                     <TrendingUp className="h-4 w-4" />
                     <AlertDescription>
-                      The quantum algorithm maximizes Sharpe ratio by finding optimal asset weights that balance
-                      expected returns against portfolio risk using variational optimization.
+                      {algorithm === "qaoa-simulator"
+                        ? "QAOA encodes choosing K assets as a cost Hamiltonian, simulates the layered circuit on " +
+                          "a statevector and tunes its angles classically to favour low-risk, high-return selections."
+                        : algorithm === "annealing"
+                          ? "Builds a QUBO matrix of the mean-variance trade-off with a budget penalty, the format " +
+                            "quantum annealers accept, and minimises it locally with classical annealing."
+                          : activeObjectiveType === "max-sharpe" && algorithm === gradientSolver.name
+                            ? "The quantum algorithm maximizes Sharpe ratio by finding optimal asset weights that " +
+                              "balance expected returns against portfolio risk using variational optimization."
+                            : `Solves the ${optimizationObjectives
+                                .find((o) => o.value === activeObjectiveType)
+                                ?.label.toLowerCase()} objective directly within the per-asset weight limits.`}
                     </AlertDescription>
                   </Alert>
 
+                  {optimizationError && (
+                    <Alert variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>{optimizationError}</AlertDescription>
+                    </Alert>
+                  )}
+
                   <Button
                     onClick={handleOptimize}
-                    disabled={isOptimizing || assets.length < 2}
+                    disabled={
+                      isOptimizing ||
+                      assets.length < 2 ||
+                      (algorithm === "qaoa-simulator" && assets.length > MAX_QAOA_QUBITS)
+                    }
                     className="w-full"
                     size="lg"
                   >
@@ -451,10 +1725,17 @@ export default function PortfolioOptimizer() {
                   {isOptimizing && (
                     <div className="space-y-2">
                       <div className="flex justify-between text-sm">
-                        <span>Quantum iterations</span>
-                        <span>Processing...</span>
+                        <span>{liveConvergence?.length ?? 0} iterations</span>
+                        <span>
+                          {liveConvergence?.length
+                            ? `Sharpe ${liveConvergence[liveConvergence.length - 1].toFixed(4)}`
+                            : "Processing..."}
+                        </span>
                       </div>
-                      <Progress value={75} className="w-full" />
+                      <Button variant="outline" className="w-full" onClick={handleCancelOptimization}>
+                        <Square className="mr-2 h-4 w-4" />
+                        Cancel
+                      </Button>
                     </div>
                   )}
                 </CardContent>
@@ -464,7 +1745,159 @@ export default function PortfolioOptimizer() {
 
           {/* Analytics Tab */}
           <TabsContent value="analytics" className="space-y-6">
-            <PortfolioCharts assets={assets} optimizationResult={optimizationResult} />
+            <PortfolioCharts
+              assets={assets}
+              optimizationResult={optimizationResult}
+              liveConvergence={liveConvergence}
+              efficientFrontier={efficientFrontier?.points}
+              assetStatistics={efficientFrontier?.assetStatistics}
+              simulation={simulation}
+              clusters={assetClusters}
+            />
+
+            <StressTestPanel
+              assets={assets}
+              currentWeights={assets.map((asset) => holdingFor(asset.symbol).weight)}
+              optimalWeights={optimizationResult?.optimalWeights}
+              portfolioValue={rebalanceSettings.portfolioValue}
+            />
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Play className="h-5 w-5" />
+                  Monte Carlo Settings
+                </CardTitle>
+                <CardDescription>
+                  Simulate correlated return paths for the optimal weights, rebalanced monthly
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="simulation-horizon">Horizon (years)</Label>
+                    <Input
+                      id="simulation-horizon"
+                      type="number"
+                      step="1"
+                      min="1"
+                      max="50"
+                      value={simulationSettings.horizonYears}
+                      onChange={(e) =>
+                        setSimulationSettings((prev) => ({
+                          ...prev,
+                          horizonYears: Number.parseFloat(e.target.value),
+                        }))
+                      }
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="simulation-capital">Initial Capital ($)</Label>
+                    <Input
+                      id="simulation-capital"
+                      type="number"
+                      step="1000"
+                      min="1"
+                      value={simulationSettings.initialCapital}
+                      onChange={(e) =>
+                        setSimulationSettings((prev) => ({
+                          ...prev,
+                          initialCapital: Number.parseFloat(e.target.value),
+                        }))
+                      }
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="simulation-paths">Paths</Label>
+                    <Input
+                      id="simulation-paths"
+                      type="number"
+                      step="500"
+                      min="1"
+                      max={MAX_SIMULATION_PATHS}
+                      value={simulationSettings.paths}
+                      onChange={(e) =>
+                        setSimulationSettings((prev) => ({ ...prev, paths: Number.parseInt(e.target.value) }))
+                      }
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2 md:col-span-2">
+                    <Label>Return Distribution</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {returnDistributions.map((distribution) => (
+                        <Button
+                          key={distribution.value}
+                          variant={simulationSettings.distribution === distribution.value ? "default" : "outline"}
+                          size="sm"
+                          onClick={() =>
+                            setSimulationSettings((prev) => ({ ...prev, distribution: distribution.value }))
+                          }
+                        >
+                          {distribution.label}
+                        </Button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {returnDistributions.find((d) => d.value === simulationSettings.distribution)?.description}
+                    </p>
+                  </div>
+                  {simulationSettings.distribution === "student-t" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="simulation-dof">Degrees of Freedom</Label>
+                      <Input
+                        id="simulation-dof"
+                        type="number"
+                        step="1"
+                        min="3"
+                        value={simulationSettings.degreesOfFreedom}
+                        onChange={(e) =>
+                          setSimulationSettings((prev) => ({
+                            ...prev,
+                            degreesOfFreedom: Number.parseFloat(e.target.value),
+                          }))
+                        }
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {simulationError && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{simulationError}</AlertDescription>
+                  </Alert>
+                )}
+
+                <Button onClick={handleSimulate} disabled={!optimizationResult || isSimulating} className="w-full">
+                  {isSimulating ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Simulating...
+                    </>
+                  ) : (
+                    <>
+                      <Play className="h-4 w-4 mr-2" />
+                      {optimizationResult ? "Run Simulation" : "Optimize first to simulate"}
+                    </>
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Backtest Tab */}
+          <TabsContent value="backtest" className="space-y-6">
+            <PortfolioBacktest
+              assets={assets}
+              client={solver}
+              solverName={algorithm}
+              request={buildBacktestRequest()}
+              covarianceEstimator={covarianceEstimator}
+              seed={seed}
+            />
           </TabsContent>
 
           {/* Import/Export Tab */}
@@ -474,6 +1907,9 @@ export default function PortfolioOptimizer() {
               optimizationResult={optimizationResult}
               onImportAssets={setAssets}
               onImportComplete={handleImportComplete}
+              onBuildQuantumProblem={handleBuildQuantumProblem}
+              riskReport={riskAnalysis.report}
+              allocation={shareAllocation.allocation}
             />
           </TabsContent>
 
@@ -486,6 +1922,10 @@ export default function PortfolioOptimizer() {
                     <CardTitle>Optimization Results</CardTitle>
                     <CardDescription>
                       Quantum-optimized portfolio metrics after {optimizationResult.iterations} iterations
+                      {optimizationResult.objective &&
+                        ` · ${optimizationObjectives.find((o) => o.value === optimizationResult.objective)?.label}`}
+                      {optimizationResult.solver &&
+                        ` · ${optimizationResult.solver.name} v${optimizationResult.solver.version}`}
                     </CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-4">
@@ -507,6 +1947,67 @@ export default function PortfolioOptimizer() {
                         <p className="text-sm text-muted-foreground">Sharpe Ratio</p>
                       </div>
                     </div>
+                    {optimizationResult.exposure &&
+                      (optimizationResult.exposure.short > CONSTRAINT_TOLERANCE ||
+                        Math.abs(optimizationResult.exposure.net - 1) > CONSTRAINT_TOLERANCE) && (
+                        <div className="grid grid-cols-5 gap-2 text-center text-sm">
+                          {[
+                            ["Long", formatPercentage(optimizationResult.exposure.long)],
+                            ["Short", formatPercentage(optimizationResult.exposure.short)],
+                            ["Gross", formatPercentage(optimizationResult.exposure.gross)],
+                            ["Net", formatPercentage(optimizationResult.exposure.net)],
+                            ["Borrowing", `${formatPercentage(optimizationResult.exposure.borrowingCost)}/yr`],
+                          ].map(([label, value]) => (
+                            <div key={label} className="space-y-1">
+                              <p className="font-semibold">{value}</p>
+                              <p className="text-xs text-muted-foreground">{label}</p>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    {optimizationResult.constraintViolations &&
+                      (optimizationResult.constraintViolations.length > 0 ? (
+                        <Alert variant="destructive">
+                          <AlertCircle className="h-4 w-4" />
+                          <AlertDescription>
+                            <p className="font-medium">Constraint violations</p>
+                            {optimizationResult.constraintViolations.map((violation, index) => (
+                              <p key={index} className="text-sm">
+                                {violation.symbol ?? violation.category ?? "Portfolio"} {violation.constraint}:{" "}
+                                {violation.constraint.endsWith("holdings")
+                                  ? `${violation.actual} (limit ${violation.limit})`
+                                  : `${formatPercentage(violation.actual)} (limit ${formatPercentage(violation.limit)})`}
+                              </p>
+                            ))}
+                          </AlertDescription>
+                        </Alert>
+                      ) : (
+                        <p className="text-xs text-muted-foreground text-center">
+                          All configured weight limits are satisfied
+                        </p>
+                      ))}
+                    {optimizationResult.manifest && (
+                      <div className="space-y-2 border-t pt-3">
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="text-xs text-muted-foreground space-y-0.5">
+                            <p>
+                              Seed {optimizationResult.manifest.seed} · app v{optimizationResult.manifest.appVersion}
+                            </p>
+                            <p className="font-mono" title={optimizationResult.manifest.inputsHash}>
+                              inputs {optimizationResult.manifest.inputsHash.slice(0, 16)}…
+                            </p>
+                          </div>
+                          <Button variant="outline" size="sm" onClick={handleReplay} disabled={isOptimizing}>
+                            Replay Run
+                          </Button>
+                        </div>
+                        {replayStatus && (
+                          <p className={`text-xs ${replayStatus.identical ? "text-chart-3" : "text-destructive"}`}>
+                            {replayStatus.message}
+                          </p>
+                        )}
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
 
@@ -522,6 +2023,9 @@ export default function PortfolioOptimizer() {
                           <div className="flex items-center gap-2">
                             <Badge variant="outline">{asset.symbol}</Badge>
                             <span className="text-sm text-muted-foreground truncate">{asset.name}</span>
+                            {optimizationResult.optimalWeights[index] < -CONSTRAINT_TOLERANCE && (
+                              <Badge variant="destructive">Short</Badge>
+                            )}
                           </div>
                           <div className="text-right">
                             <p className="font-semibold">
@@ -533,6 +2037,630 @@ export default function PortfolioOptimizer() {
                     </div>
                   </CardContent>
                 </Card>
+
+                <Card className="lg:col-span-2">
+                  <CardHeader>
+                    <CardTitle>Risk Analytics</CardTitle>
+                    <CardDescription>
+                      Parametric figures assume normal returns;{" "}
+                      {riskAnalysis.report?.historyObservations
+                        ? `historical figures use ${riskAnalysis.report.historyObservations} observed periods`
+                        : "import price history for historical VaR and drawdown"}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="risk-confidence">Confidence Levels (%)</Label>
+                        <Input
+                          id="risk-confidence"
+                          placeholder="95, 99"
+                          value={riskSettings.confidenceLevels}
+                          onChange={(e) => setRiskSettings((prev) => ({ ...prev, confidenceLevels: e.target.value }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="risk-horizon">VaR Horizon (periods)</Label>
+                        <Input
+                          id="risk-horizon"
+                          type="number"
+                          step="1"
+                          min="1"
+                          value={riskSettings.horizonPeriods}
+                          onChange={(e) =>
+                            setRiskSettings((prev) => ({ ...prev, horizonPeriods: Number.parseInt(e.target.value) }))
+                          }
+                        />
+                      </div>
+                    </div>
+
+                    {riskAnalysis.error && (
+                      <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>{riskAnalysis.error}</AlertDescription>
+                      </Alert>
+                    )}
+
+                    {riskAnalysis.report && (
+                      <>
+                        <div className="grid grid-cols-3 gap-4 text-center">
+                          <div className="space-y-1">
+                            <p className="text-2xl font-bold">{riskAnalysis.report.sortinoRatio.toFixed(3)}</p>
+                            <p className="text-sm text-muted-foreground">Sortino Ratio</p>
+                          </div>
+                          <div className="space-y-1">
+                            <p className="text-2xl font-bold">
+                              {formatPercentage(riskAnalysis.report.downsideDeviation)}
+                            </p>
+                            <p className="text-sm text-muted-foreground">Downside Deviation</p>
+                          </div>
+                          <div className="space-y-1">
+                            <p className="text-2xl font-bold text-destructive">
+                              {riskAnalysis.report.maxDrawdown !== undefined
+                                ? formatPercentage(riskAnalysis.report.maxDrawdown)
+                                : "—"}
+                            </p>
+                            <p className="text-sm text-muted-foreground">Max Drawdown</p>
+                          </div>
+                        </div>
+
+                        <div className="space-y-2">
+                          <p className="text-sm font-medium">
+                            Value at Risk over {riskAnalysis.report.horizonPeriods}{" "}
+                            {riskAnalysis.report.horizonPeriods === 1 ? "period" : "periods"}
+                          </p>
+                          <div className="grid grid-cols-5 gap-2 text-sm text-muted-foreground">
+                            <span>Confidence</span>
+                            <span className="text-right">Parametric VaR</span>
+                            <span className="text-right">Parametric CVaR</span>
+                            <span className="text-right">Historical VaR</span>
+                            <span className="text-right">Historical CVaR</span>
+                          </div>
+                          {riskAnalysis.report.valueAtRisk.map((entry) => (
+                            <div key={entry.confidence} className="grid grid-cols-5 gap-2 text-sm">
+                              <span className="font-medium">{formatPercentage(entry.confidence)}</span>
+                              <span className="text-right">{formatPercentage(entry.parametricVaR)}</span>
+                              <span className="text-right">{formatPercentage(entry.parametricCVaR)}</span>
+                              <span className="text-right">
+                                {entry.historicalVaR !== undefined ? formatPercentage(entry.historicalVaR) : "—"}
+                              </span>
+                              <span className="text-right">
+                                {entry.historicalCVaR !== undefined ? formatPercentage(entry.historicalCVaR) : "—"}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+
+                        <div className="space-y-2">
+                          <p className="text-sm font-medium">Risk Contributions</p>
+                          {assets.map((asset, index) => {
+                            const contribution = riskAnalysis.report?.riskContributions[index]
+                            if (!contribution) return null
+                            return (
+                              <div key={asset.symbol} className="flex items-center justify-between gap-4">
+                                <div className="flex items-center gap-2">
+                                  <Badge variant="outline">{asset.symbol}</Badge>
+                                  <span className="text-xs text-muted-foreground">
+                                    marginal {formatPercentage(contribution.marginal)} · contributes{" "}
+                                    {formatPercentage(contribution.contribution)} volatility
+                                  </span>
+                                </div>
+                                <div className="flex items-center gap-3 w-48">
+                                  <Progress value={Math.max(0, contribution.percentage) * 100} className="flex-1" />
+                                  <span className="text-sm font-semibold w-16 text-right">
+                                    {formatPercentage(contribution.percentage)}
+                                  </span>
+                                </div>
+                              </div>
+                            )
+                          })}
+                        </div>
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card className="lg:col-span-2">
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <CardTitle>Share Orders</CardTitle>
+                        <CardDescription>
+                          Whole lots at current prices, chosen to track the optimal weights as closely as possible
+                        </CardDescription>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleExportOrders}
+                        disabled={!shareAllocation.allocation}
+                      >
+                        <Download className="h-4 w-4 mr-2" />
+                        Export CSV
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <div className="space-y-2 md:w-1/2">
+                      <Label htmlFor="allocation-capital">Capital ($)</Label>
+                      <Input
+                        id="allocation-capital"
+                        type="number"
+                        step="1000"
+                        min="0"
+                        value={allocationCapital}
+                        onChange={(e) => setAllocationCapital(Number.parseFloat(e.target.value) || 0)}
+                      />
+                    </div>
+
+                    {shareAllocation.error && (
+                      <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>{shareAllocation.error}</AlertDescription>
+                      </Alert>
+                    )}
+
+                    {shareAllocation.allocation && (
+                      <>
+                        <div className="grid grid-cols-3 gap-4 text-center">
+                          <div className="space-y-1">
+                            <p className="text-2xl font-bold">
+                              {formatCurrency(shareAllocation.allocation.investedValue)}
+                            </p>
+                            <p className="text-sm text-muted-foreground">Invested</p>
+                          </div>
+                          <div className="space-y-1">
+                            <p className="text-2xl font-bold">
+                              {formatCurrency(shareAllocation.allocation.leftoverCash)}
+                            </p>
+                            <p className="text-sm text-muted-foreground">Leftover Cash</p>
+                          </div>
+                          <div className="space-y-1">
+                            <p className="text-2xl font-bold">
+                              {formatPercentage(shareAllocation.allocation.trackingError)}
+                            </p>
+                            <p className="text-sm text-muted-foreground">Tracking Error</p>
+                          </div>
+                        </div>
+
+                        <div className="space-y-2">
+                          <div className="grid grid-cols-6 gap-2 text-sm text-muted-foreground">
+                            <span>Asset</span>
+                            <span className="text-right">Order</span>
+                            <span className="text-right">Price</span>
+                            <span className="text-right">Value</span>
+                            <span className="text-right">Target</span>
+                            <span className="text-right">Achieved</span>
+                          </div>
+                          {shareAllocation.allocation.orders.map((order) => (
+                            <div key={order.symbol} className="grid grid-cols-6 gap-2 text-sm items-center">
+                              <Badge variant="outline" className="w-fit">
+                                {order.symbol}
+                              </Badge>
+                              <span className={`text-right font-medium ${order.shares < 0 ? "text-destructive" : ""}`}>
+                                {order.shares === 0
+                                  ? "—"
+                                  : `${order.shares > 0 ? "Buy" : "Short"} ${Math.abs(order.shares)}`}
+                              </span>
+                              <span className="text-right">{formatCurrency(order.price)}</span>
+                              <span className="text-right">{formatCurrency(order.value)}</span>
+                              <span className="text-right">{formatPercentage(order.targetWeight)}</span>
+                              <span className="text-right">{formatPercentage(order.weight)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {optimizationResult.assetSelection && (
+                  <Card className="lg:col-span-2">
+                    <CardHeader>
+                      <CardTitle>Asset Selection</CardTitle>
+                      <CardDescription>
+                        Branch-and-bound explored {optimizationResult.assetSelection.nodesExplored} nodes
+                        {optimizationResult.assetSelection.provenOptimal
+                          ? " and proved this selection optimal"
+                          : " before reaching its node budget; a better selection may exist"}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm text-muted-foreground w-20">Held</span>
+                        {optimizationResult.assetSelection.held.map((symbol) => (
+                          <Badge key={symbol} variant="outline">
+                            {symbol}
+                          </Badge>
+                        ))}
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm text-muted-foreground w-20">Excluded</span>
+                        {optimizationResult.assetSelection.excluded.length > 0 ? (
+                          optimizationResult.assetSelection.excluded.map((symbol) => (
+                            <Badge key={symbol} variant="secondary">
+                              {symbol}
+                            </Badge>
+                          ))
+                        ) : (
+                          <span className="text-sm text-muted-foreground">None</span>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {(benchmarkAnalysis.summary || benchmarkAnalysis.error) && (
+                  <Card className="lg:col-span-2">
+                    <CardHeader>
+                      <CardTitle>Against {benchmarkAnalysis.summary?.name || "the Benchmark"}</CardTitle>
+                      <CardDescription>Active weights and active risk relative to the benchmark</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {benchmarkAnalysis.error && (
+                        <Alert variant="destructive">
+                          <AlertCircle className="h-4 w-4" />
+                          <AlertDescription>{benchmarkAnalysis.error}</AlertDescription>
+                        </Alert>
+                      )}
+                      {benchmarkAnalysis.summary && (
+                        <>
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            <div>
+                              <p className="text-sm text-muted-foreground">Tracking Error</p>
+                              <p className="text-2xl font-bold">
+                                {formatPercentage(benchmarkAnalysis.summary.trackingError)}
+                              </p>
+                            </div>
+                            <div>
+                              <p className="text-sm text-muted-foreground">Beta</p>
+                              <p className="text-2xl font-bold">{benchmarkAnalysis.summary.beta.toFixed(3)}</p>
+                            </div>
+                            <div>
+                              <p className="text-sm text-muted-foreground">Active Return</p>
+                              <p className="text-2xl font-bold">
+                                {formatPercentage(benchmarkAnalysis.summary.activeReturn)}
+                              </p>
+                            </div>
+                            <div>
+                              <p className="text-sm text-muted-foreground">Information Ratio</p>
+                              <p className="text-2xl font-bold">
+                                {benchmarkAnalysis.summary.informationRatio.toFixed(3)}
+                              </p>
+                            </div>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Benchmark return {formatPercentage(benchmarkAnalysis.summary.benchmarkReturn)} ·
+                            volatility {formatPercentage(benchmarkAnalysis.summary.benchmarkVolatility)}
+                          </p>
+                          <div className="space-y-2 border-t pt-4">
+                            <div className="grid grid-cols-4 gap-4 text-sm text-muted-foreground">
+                              <span>Asset</span>
+                              <span className="text-right">Portfolio</span>
+                              <span className="text-right">Benchmark</span>
+                              <span className="text-right">Active</span>
+                            </div>
+                            {benchmarkAnalysis.summary.activeWeights.map((weight) => (
+                              <div key={weight.symbol} className="grid grid-cols-4 gap-4 items-center text-sm">
+                                <Badge variant={weight.held ? "outline" : "secondary"} className="w-fit">
+                                  {weight.symbol}
+                                </Badge>
+                                <span className="text-right">{formatPercentage(weight.portfolio)}</span>
+                                <span className="text-right text-muted-foreground">
+                                  {formatPercentage(weight.benchmark)}
+                                </span>
+                                <span
+                                  className={`text-right font-semibold ${
+                                    weight.active < 0 ? "text-destructive" : "text-chart-3"
+                                  }`}
+                                >
+                                  {weight.active > 0 ? "+" : ""}
+                                  {formatPercentage(weight.active)}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        </>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+
+                {optimizationResult.resampling && (
+                  <Card className="lg:col-span-2">
+                    <CardHeader>
+                      <CardTitle>Weight Stability</CardTitle>
+                      <CardDescription>
+                        Average of {optimizationResult.resampling.samples}{" "}
+                        {resamplingMethods
+                          .find((m) => m.value === optimizationResult.resampling?.method)
+                          ?.label.toLowerCase()}{" "}
+                        resamples of {optimizationResult.resampling.observations} observations each
+                        {optimizationResult.resampling.failed > 0 &&
+                          ` (${optimizationResult.resampling.failed} had no solution and were left out)`}
+                        ; narrow intervals mark the allocations the inputs support
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                      <div className="grid grid-cols-5 gap-4 text-sm text-muted-foreground">
+                        <span>Asset</span>
+                        <span className="text-right">Nominal</span>
+                        <span className="text-right">Resampled</span>
+                        <span className="text-right">
+                          {RESAMPLING_INTERVAL[0]}th–{RESAMPLING_INTERVAL[1]}th Percentile
+                        </span>
+                        <span className="text-right">Std. Dev.</span>
+                      </div>
+                      {assets.map((asset, index) => {
+                        const resampling = optimizationResult.resampling as ResamplingSummary
+                        return (
+                          <div key={asset.symbol} className="grid grid-cols-5 gap-4 items-center text-sm">
+                            <Badge variant="outline" className="w-fit">
+                              {asset.symbol}
+                            </Badge>
+                            <span className="text-right">{formatPercentage(resampling.nominalWeights[index])}</span>
+                            <span className="text-right font-semibold">
+                              {formatPercentage(optimizationResult.optimalWeights[index])}
+                            </span>
+                            <span className="text-right text-muted-foreground">
+                              {formatPercentage(resampling.lower[index])} –{" "}
+                              {formatPercentage(resampling.upper[index])}
+                            </span>
+                            <span className="text-right">{formatPercentage(resampling.standardDeviations[index])}</span>
+                          </div>
+                        )
+                      })}
+                    </CardContent>
+                  </Card>
+                )}
+
+                {optimizationResult.robust && (
+                  <Card className="lg:col-span-2">
+                    <CardHeader>
+                      <CardTitle>Robust vs Nominal</CardTitle>
+                      <CardDescription>
+                        {uncertaintySets.find((set) => set.value === optimizationResult.robust?.uncertainty)?.label}
+                        {" uncertainty at κ = "}
+                        {optimizationResult.robust.scale} ·{" "}
+                        {robustCriteria.find((c) => c.value === optimizationResult.robust?.criterion)?.label}; the
+                        nominal portfolio optimizes the same criterion at the point estimates
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="grid grid-cols-3 gap-4 text-sm text-muted-foreground">
+                        <span />
+                        <span className="text-right">Nominal</span>
+                        <span className="text-right">Robust</span>
+                      </div>
+                      {[
+                        {
+                          label: "Expected Return",
+                          nominal: formatPercentage(optimizationResult.robust.nominalExpectedReturn),
+                          robust: formatPercentage(optimizationResult.expectedReturn),
+                        },
+                        {
+                          label: "Worst-Case Return",
+                          nominal: formatPercentage(optimizationResult.robust.nominalWorstCaseReturn),
+                          robust: formatPercentage(optimizationResult.robust.worstCaseReturn),
+                        },
+                        {
+                          label: "Sharpe Ratio",
+                          nominal: optimizationResult.robust.nominalSharpe.toFixed(3),
+                          robust: optimizationResult.sharpeRatio.toFixed(3),
+                        },
+                        {
+                          label: "Worst-Case Sharpe",
+                          nominal: optimizationResult.robust.nominalWorstCaseSharpe.toFixed(3),
+                          robust: optimizationResult.robust.worstCaseSharpe.toFixed(3),
+                        },
+                      ].map((row) => (
+                        <div key={row.label} className="grid grid-cols-3 gap-4 text-sm">
+                          <span>{row.label}</span>
+                          <span className="text-right">{row.nominal}</span>
+                          <span className="text-right font-semibold">{row.robust}</span>
+                        </div>
+                      ))}
+                      <div className="space-y-2 border-t pt-4">
+                        <div className="grid grid-cols-5 gap-4 text-sm text-muted-foreground">
+                          <span>Asset</span>
+                          <span className="text-right">Uncertainty</span>
+                          <span className="text-right">Nominal</span>
+                          <span className="text-right">Robust</span>
+                          <span className="text-right">Difference</span>
+                        </div>
+                        {assets.map((asset, index) => {
+                          const robust = optimizationResult.robust as RobustSummary
+                          const difference = optimizationResult.optimalWeights[index] - robust.nominalWeights[index]
+                          return (
+                            <div key={asset.symbol} className="grid grid-cols-5 gap-4 items-center text-sm">
+                              <Badge variant="outline" className="w-fit">
+                                {asset.symbol}
+                              </Badge>
+                              <span className="text-right text-muted-foreground">
+                                ±{formatPercentage(robust.halfWidths[index])}
+                              </span>
+                              <span className="text-right">{formatPercentage(robust.nominalWeights[index])}</span>
+                              <span className="text-right font-semibold">
+                                {formatPercentage(optimizationResult.optimalWeights[index])}
+                              </span>
+                              <span className={`text-right ${difference < 0 ? "text-destructive" : "text-chart-3"}`}>
+                                {difference > 0 ? "+" : ""}
+                                {formatPercentage(difference)}
+                              </span>
+                            </div>
+                          )
+                        })}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {optimizationResult.rebalance && (
+                  <Card className="lg:col-span-2">
+                    <CardHeader>
+                      <CardTitle>Trade List</CardTitle>
+                      <CardDescription>
+                        Turnover {formatPercentage(optimizationResult.rebalance.turnover)} · cost{" "}
+                        {formatPercentage(optimizationResult.rebalance.transactionCost)} of the portfolio · net Sharpe{" "}
+                        {optimizationResult.rebalance.netSharpeRatio.toFixed(3)}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      {optimizationResult.rebalance.trades.length > 0 ? (
+                        <div className="space-y-2">
+                          {optimizationResult.rebalance.trades.map((trade) => (
+                            <div key={trade.symbol} className="flex items-center justify-between gap-4 text-sm">
+                              <div className="flex items-center gap-2">
+                                <Badge variant={trade.action === "buy" ? "default" : "secondary"} className="w-12">
+                                  {trade.action.toUpperCase()}
+                                </Badge>
+                                <Badge variant="outline">{trade.symbol}</Badge>
+                                <span className="text-muted-foreground">
+                                  {formatPercentage(trade.currentWeight)} → {formatPercentage(trade.targetWeight)}
+                                </span>
+                              </div>
+                              <div className="flex items-center gap-4 text-right">
+                                {trade.value !== undefined && (
+                                  <span className="font-semibold">{formatCurrency(Math.abs(trade.value))}</span>
+                                )}
+                                <span className="text-muted-foreground w-24">
+                                  cost {formatPercentage(trade.cost)}
+                                </span>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-sm text-muted-foreground text-center">
+                          No trade improves the portfolio enough to cover its costs
+                        </p>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+
+                <Card className="lg:col-span-2">
+                  <CardHeader>
+                    <CardTitle>Sector Exposure</CardTitle>
+                    <CardDescription>Realized weight of each asset category</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3">
+                      {categoryExposures.map((exposure) => (
+                        <div key={exposure.category} className="flex items-center justify-between gap-4">
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline">{exposure.category}</Badge>
+                            {(exposure.min !== undefined || exposure.max !== undefined) && (
+                              <span className="text-xs text-muted-foreground">
+                                limit {formatPercentage(exposure.min ?? 0)} – {formatPercentage(exposure.max ?? 1)}
+                              </span>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-3 w-48">
+                            <Progress value={exposure.weight * 100} className="flex-1" />
+                            <span className="text-sm font-semibold w-16 text-right">
+                              {formatPercentage(exposure.weight)}
+                            </span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {qaoaResult && (
+                  <Card className="lg:col-span-2">
+                    <CardHeader>
+                      <CardTitle>Most Probable Bitstrings</CardTitle>
+                      <CardDescription>
+                        Measurement distribution of the tuned {qaoaResult.qaoa.layers}-layer QAOA circuit after{" "}
+                        {qaoaResult.qaoa.evaluations} circuit evaluations. The portfolio holds the lowest-cost
+                        selection among the most probable feasible bitstrings
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-2">
+                        {qaoaResult.qaoa.bitstrings.map((entry) => (
+                          <div key={entry.bitstring} className="flex items-center justify-between gap-4">
+                            <div className="flex items-center gap-3">
+                              <span className="font-mono text-sm">{entry.bitstring}</span>
+                              <div className="flex flex-wrap gap-1">
+                                {entry.symbols.map((symbol) => (
+                                  <Badge key={symbol} variant="outline" className="text-xs">
+                                    {symbol}
+                                  </Badge>
+                                ))}
+                              </div>
+                              {!entry.feasible && (
+                                <Badge variant="secondary" className="text-xs">
+                                  Infeasible
+                                </Badge>
+                              )}
+                              {entry.bitstring === qaoaResult.qaoa.selectedBitstring && (
+                                <Badge className="text-xs">Selected</Badge>
+                              )}
+                              {entry.bitstring === qaoaResult.qaoa.mostLikelyBitstring &&
+                                entry.bitstring !== qaoaResult.qaoa.selectedBitstring && (
+                                  <Badge variant="secondary" className="text-xs">
+                                    Most likely
+                                  </Badge>
+                                )}
+                            </div>
+                            <div className="flex items-center gap-3 w-48">
+                              <Progress value={entry.probability * 100} className="flex-1" />
+                              <span className="text-sm font-semibold w-16 text-right">
+                                {formatPercentage(entry.probability)}
+                              </span>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+                {annealingResult && (
+                  <Card className="lg:col-span-2">
+                    <CardHeader>
+                      <CardTitle>Annealing Run</CardTitle>
+                      <CardDescription>
+                        {annealingMethods.find((m) => m.value === annealingResult.annealing.method)?.label} over a{" "}
+                        {annealingResult.annealing.variables}-variable QUBO (
+                        {annealingResult.annealing.encoding === "selection" ? "asset selection" : "discrete weights"})
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <div>
+                          <p className="text-sm text-muted-foreground">QUBO Energy</p>
+                          <p className="text-lg font-semibold">{annealingResult.annealing.energy.toFixed(6)}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground">Sweeps</p>
+                          <p className="text-lg font-semibold">{annealingResult.annealing.sweeps}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground">
+                            {annealingResult.annealing.swapRate !== undefined
+                              ? "Acceptance / Swap Rate"
+                              : "Acceptance Rate"}
+                          </p>
+                          <p className="text-lg font-semibold">
+                            {formatPercentage(annealingResult.annealing.acceptanceRate)}
+                            {annealingResult.annealing.swapRate !== undefined &&
+                              ` / ${formatPercentage(annealingResult.annealing.swapRate)}`}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground">Runtime</p>
+                          <p className="text-lg font-semibold">{annealingResult.annealing.runtimeMs} ms</p>
+                        </div>
+                      </div>
+                      <p className="font-mono text-xs break-all text-muted-foreground">
+                        {annealingResult.annealing.bitstring}
+                      </p>
+                    </CardContent>
+                  </Card>
+                )}
               </div>
             ) : (
               <Card>
@@ -0,0 +1,369 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, Flame, Pencil, Plus, Save, Trash2, X } from "lucide-react"
+import { UNCATEGORIZED, type Asset } from "@/lib/quantum-optimizer"
+import {
+  ScenarioStorage,
+  StressTester,
+  historicalScenarios,
+  type StressImpact,
+  type StressScenario,
+} from "@/lib/stress-testing"
+
+interface StressTestPanelProps {
+  assets: Asset[]
+  currentWeights?: number[] | null // held weights; the column is hidden when nothing is held
+  optimalWeights?: number[] | null
+  portfolioValue?: number
+}
+
+// Shocks are edited as percentages; blank fields fall through to the next level
+interface ScenarioDraft {
+  id?: string
+  name: string
+  defaultShock: string
+  categoryShocks: Record<string, string>
+  assetShocks: Record<string, string>
+}
+
+const emptyDraft: ScenarioDraft = { name: "", defaultShock: "", categoryShocks: {}, assetShocks: {} }
+
+function toPercentages(shocks: Record<string, number> = {}): Record<string, string> {
+  return Object.fromEntries(Object.entries(shocks).map(([key, shock]) => [key, (shock * 100).toString()]))
+}
+
+function fromPercentages(shocks: Record<string, string>): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(shocks)
+      .filter(([, value]) => value.trim() !== "")
+      .map(([key, value]) => [key, Number.parseFloat(value) / 100]),
+  )
+}
+
+export default function StressTestPanel({
+  assets,
+  currentWeights,
+  optimalWeights,
+  portfolioValue,
+}: StressTestPanelProps) {
+  const [customScenarios, setCustomScenarios] = useState<StressScenario[]>([])
+  const [selectedId, setSelectedId] = useState<string>(historicalScenarios[0]?.id ?? "")
+  const [draft, setDraft] = useState<ScenarioDraft | null>(null)
+  const [draftError, setDraftError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setCustomScenarios(ScenarioStorage.getCustomScenarios())
+  }, [])
+
+  const scenarios = [...historicalScenarios, ...customScenarios]
+  const selected = scenarios.find((scenario) => scenario.id === selectedId) ?? scenarios[0]
+  const categories = Array.from(new Set(assets.map((asset) => asset.category || UNCATEGORIZED)))
+  const showCurrent = !!currentWeights && currentWeights.some((w) => w !== 0)
+
+  const impactOf = (weights: number[] | null | undefined, scenario: StressScenario): StressImpact | null =>
+    weights && weights.length === assets.length ? StressTester.apply(assets, weights, scenario, portfolioValue) : null
+
+  const handleSaveDraft = () => {
+    if (!draft) return
+    setDraftError(null)
+    try {
+      const scenario: StressScenario = {
+        id: draft.id ?? ScenarioStorage.generateId(),
+        name: draft.name.trim(),
+        defaultShock: draft.defaultShock.trim() !== "" ? Number.parseFloat(draft.defaultShock) / 100 : undefined,
+        categoryShocks: fromPercentages(draft.categoryShocks),
+        assetShocks: fromPercentages(draft.assetShocks),
+      }
+      ScenarioStorage.saveScenario(scenario)
+      setCustomScenarios(ScenarioStorage.getCustomScenarios())
+      setSelectedId(scenario.id)
+      setDraft(null)
+    } catch (error) {
+      setDraftError(error instanceof Error ? error.message : "Failed to save scenario")
+    }
+  }
+
+  const handleEdit = (scenario: StressScenario) => {
+    setDraftError(null)
+    setDraft({
+      // Editing a built-in scenario saves a copy
+      id: scenario.builtIn ? undefined : scenario.id,
+      name: scenario.builtIn ? `${scenario.name} (custom)` : scenario.name,
+      defaultShock: scenario.defaultShock !== undefined ? (scenario.defaultShock * 100).toString() : "",
+      categoryShocks: toPercentages(scenario.categoryShocks),
+      assetShocks: toPercentages(scenario.assetShocks),
+    })
+  }
+
+  const handleDelete = (id: string) => {
+    ScenarioStorage.deleteScenario(id)
+    setCustomScenarios(ScenarioStorage.getCustomScenarios())
+    if (selectedId === id) setSelectedId(historicalScenarios[0]?.id ?? "")
+  }
+
+  const formatPercentage = (value: number) => `${value >= 0 ? "+" : ""}${(value * 100).toFixed(2)}%`
+  const formatCurrency = (value: number) =>
+    value.toLocaleString(undefined, { style: "currency", currency: "USD", maximumFractionDigits: 0 })
+  const toneOf = (value: number) => (value < 0 ? "text-destructive" : "text-chart-3")
+
+  const renderImpact = (impact: StressImpact | null) =>
+    impact ? (
+      <div className="text-right">
+        <p className={`font-semibold ${toneOf(impact.portfolioReturn)}`}>{formatPercentage(impact.portfolioReturn)}</p>
+        {impact.pnl !== undefined && <p className="text-xs text-muted-foreground">{formatCurrency(impact.pnl)}</p>}
+      </div>
+    ) : (
+      <p className="text-right text-muted-foreground">—</p>
+    )
+
+  const columns = showCurrent ? "grid-cols-[2fr_1fr_1fr_1fr_auto]" : "grid-cols-[2fr_1fr_auto]"
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Flame className="h-5 w-5" />
+                Stress Scenarios
+              </CardTitle>
+              <CardDescription>
+                Instant P&L if each scenario&apos;s returns hit the portfolio today
+                {portfolioValue !== undefined && ` (portfolio value ${formatCurrency(portfolioValue)})`}
+              </CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setDraftError(null)
+                setDraft({ ...emptyDraft })
+              }}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Scenario
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <div className={`grid ${columns} gap-4 text-sm text-muted-foreground`}>
+            <span>Scenario</span>
+            {showCurrent && <span className="text-right">Current</span>}
+            <span className="text-right">Optimal</span>
+            {showCurrent && <span className="text-right">Difference</span>}
+            <span className="w-16" />
+          </div>
+          {scenarios.map((scenario) => {
+            const current = showCurrent ? impactOf(currentWeights, scenario) : null
+            const optimal = impactOf(optimalWeights, scenario)
+            const difference = current && optimal ? optimal.portfolioReturn - current.portfolioReturn : null
+            return (
+              <div
+                key={scenario.id}
+                className={`grid ${columns} gap-4 items-center rounded-md px-2 py-1 cursor-pointer hover:bg-muted/50 ${
+                  selected?.id === scenario.id ? "bg-muted" : ""
+                }`}
+                onClick={() => setSelectedId(scenario.id)}
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{scenario.name}</span>
+                    {!scenario.builtIn && (
+                      <Badge variant="secondary" className="text-xs">
+                        Custom
+                      </Badge>
+                    )}
+                  </div>
+                  {scenario.period && <p className="text-xs text-muted-foreground">{scenario.period}</p>}
+                </div>
+                {showCurrent && renderImpact(current)}
+                {renderImpact(optimal)}
+                {showCurrent &&
+                  (difference !== null ? (
+                    <p className={`text-right font-semibold ${toneOf(difference)}`}>{formatPercentage(difference)}</p>
+                  ) : (
+                    <p className="text-right text-muted-foreground">—</p>
+                  ))}
+                <div className="flex justify-end gap-1 w-16">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleEdit(scenario)
+                    }}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  {!scenario.builtIn && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        handleDelete(scenario.id)
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+          {!optimalWeights && (
+            <p className="text-sm text-muted-foreground text-center pt-2">
+              Run optimization to stress the optimal weights
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{selected.name}</CardTitle>
+            <CardDescription>{selected.description ?? "User-defined scenario"}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className={`grid ${showCurrent ? "grid-cols-4" : "grid-cols-3"} gap-4 text-sm text-muted-foreground`}>
+              <span>Asset</span>
+              <span className="text-right">Shock</span>
+              {showCurrent && <span className="text-right">Current P&L</span>}
+              <span className="text-right">Optimal P&L</span>
+            </div>
+            {(() => {
+              const shocks = StressTester.assetShocks(assets, selected)
+              const current = showCurrent ? impactOf(currentWeights, selected) : null
+              const optimal = impactOf(optimalWeights, selected)
+              return assets.map((asset, index) => (
+                <div
+                  key={asset.symbol}
+                  className={`grid ${showCurrent ? "grid-cols-4" : "grid-cols-3"} gap-4 items-center text-sm`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{asset.symbol}</Badge>
+                    <span className="text-xs text-muted-foreground truncate">{asset.category || UNCATEGORIZED}</span>
+                  </div>
+                  <span className={`text-right ${toneOf(shocks[index])}`}>{formatPercentage(shocks[index])}</span>
+                  {showCurrent && (
+                    <span className="text-right">
+                      {current ? formatPercentage(current.contributions[index]) : "—"}
+                    </span>
+                  )}
+                  <span className="text-right">{optimal ? formatPercentage(optimal.contributions[index]) : "—"}</span>
+                </div>
+              ))
+            })()}
+          </CardContent>
+        </Card>
+      )}
+
+      {draft && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>{draft.id ? "Edit Scenario" : "New Scenario"}</CardTitle>
+                <CardDescription>
+                  Returns in percent. Asset shocks override category shocks, which override the default.
+                </CardDescription>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="scenario-name">Name</Label>
+                <Input
+                  id="scenario-name"
+                  placeholder="e.g. Rate shock +200bp"
+                  value={draft.name}
+                  onChange={(e) => setDraft((prev) => prev && { ...prev, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="scenario-default">Default Shock (%)</Label>
+                <Input
+                  id="scenario-default"
+                  type="number"
+                  step="1"
+                  placeholder="0"
+                  value={draft.defaultShock}
+                  onChange={(e) => setDraft((prev) => prev && { ...prev, defaultShock: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Category Shocks (%)</Label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {categories.map((category) => (
+                  <div key={category} className="space-y-1">
+                    <span className="text-xs text-muted-foreground">{category}</span>
+                    <Input
+                      type="number"
+                      step="1"
+                      value={draft.categoryShocks[category] ?? ""}
+                      onChange={(e) =>
+                        setDraft(
+                          (prev) =>
+                            prev && { ...prev, categoryShocks: { ...prev.categoryShocks, [category]: e.target.value } },
+                        )
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Asset Shocks (%)</Label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {assets.map((asset) => (
+                  <div key={asset.symbol} className="space-y-1">
+                    <span className="text-xs text-muted-foreground">{asset.symbol}</span>
+                    <Input
+                      type="number"
+                      step="1"
+                      value={draft.assetShocks[asset.symbol] ?? ""}
+                      onChange={(e) =>
+                        setDraft(
+                          (prev) =>
+                            prev && { ...prev, assetShocks: { ...prev.assetShocks, [asset.symbol]: e.target.value } },
+                        )
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {draftError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{draftError}</AlertDescription>
+              </Alert>
+            )}
+
+            <Button onClick={handleSaveDraft} className="w-full">
+              <Save className="h-4 w-4 mr-2" />
+              Save Scenario
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
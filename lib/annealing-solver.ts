@@ -0,0 +1,253 @@
+// Classical annealing for QUBO models: simulated annealing (independent restarts along a geometric
+// cooling schedule) and parallel tempering (replicas at fixed temperatures that swap states).
+// Each replica keeps the local field of every bit so a single-bit flip costs O(1) to evaluate and
+// O(n) to apply.
+
+import { createRandom, randomSeed, type RandomSource } from "./random"
+
+export type AnnealingMethod = "simulated-annealing" | "parallel-tempering"
+
+export const annealingMethods: { value: AnnealingMethod; label: string; description: string }[] = [
+  {
+    value: "simulated-annealing",
+    label: "Simulated Annealing",
+    description: "Independent restarts cooled from hot to cold",
+  },
+  {
+    value: "parallel-tempering",
+    label: "Parallel Tempering",
+    description: "Replicas at fixed temperatures that exchange states",
+  },
+]
+
+export interface AnnealingOptions {
+  method?: AnnealingMethod
+  sweeps?: number // Metropolis sweeps per restart (or per replica)
+  restarts?: number // simulated annealing only
+  replicas?: number // parallel tempering only
+  initialTemperature?: number // hottest temperature; defaults to the largest single-flip energy change
+  finalTemperature?: number // coldest temperature
+  seed?: number
+}
+
+export interface AnnealingRun {
+  bits: number[] // lowest-energy accepted state (the lowest feasible one when a feasibility test is given)
+  energy: number
+  feasible: boolean
+  energyHistory: number[] // best energy after each sweep
+  sweeps: number
+  acceptanceRate: number
+  swapRate?: number // parallel tempering only
+  seed: number
+}
+
+interface Snapshot {
+  bits: Uint8Array
+  energy: number
+}
+
+interface Replica {
+  bits: Uint8Array
+  field: Float64Array // Σ_j S_kj x_j over the other bits
+  energy: number
+}
+
+export class AnnealingSolver {
+  private n: number
+  private offset: number
+  private diagonal: Float64Array
+  private coupling: Float64Array // symmetric off-diagonal couplings, row-major
+  private method: AnnealingMethod
+  private sweeps: number
+  private restarts: number
+  private replicas: number
+  private hot: number
+  private cold: number
+  private seed: number
+  private random: RandomSource
+
+  constructor(matrix: number[][], offset: number, options: AnnealingOptions = {}) {
+    this.n = matrix.length
+    this.offset = offset
+    this.method = options.method ?? "simulated-annealing"
+    this.sweeps = options.sweeps ?? 1000
+    this.restarts = options.restarts ?? 4
+    this.replicas = options.replicas ?? 8
+    this.seed = options.seed ?? randomSeed()
+    this.random = createRandom(this.seed)
+
+    if (this.n === 0) {
+      throw new Error("The QUBO model has no variables")
+    }
+    if (!Number.isInteger(this.sweeps) || this.sweeps < 1) {
+      throw new Error("Annealing requires at least one sweep")
+    }
+    if (!Number.isInteger(this.restarts) || this.restarts < 1) {
+      throw new Error("Simulated annealing requires at least one restart")
+    }
+    if (!Number.isInteger(this.replicas) || this.replicas < 2) {
+      throw new Error("Parallel tempering requires at least two replicas")
+    }
+
+    this.diagonal = new Float64Array(this.n)
+    this.coupling = new Float64Array(this.n * this.n)
+    let maxDelta = 0
+    for (let k = 0; k < this.n; k++) {
+      this.diagonal[k] = matrix[k][k]
+      let reach = Math.abs(matrix[k][k])
+      for (let j = 0; j < this.n; j++) {
+        if (j === k) continue
+        const value = j > k ? matrix[k][j] : matrix[j][k]
+        this.coupling[k * this.n + j] = value
+        reach += Math.abs(value)
+      }
+      maxDelta = Math.max(maxDelta, reach)
+    }
+
+    // Hot enough that almost any flip is accepted, cold enough that only descents are
+    this.hot = options.initialTemperature ?? Math.max(maxDelta, 1e-12)
+    this.cold = options.finalTemperature ?? this.hot * 1e-5
+    if (!(this.hot > 0) || !(this.cold > 0) || this.cold > this.hot) {
+      throw new Error("Temperatures must be positive with the final temperature at most the initial one")
+    }
+  }
+
+  // onSweep sees the best energy and state after every sweep; isFeasible restricts which states
+  // may be returned, falling back to the lowest energy overall if none of the visited states passes
+  run(isFeasible?: (bits: Uint8Array) => boolean, onSweep?: (energy: number, bits: Uint8Array) => void): AnnealingRun {
+    const incumbents: { best: Snapshot | null; feasible: Snapshot | null } = { best: null, feasible: null }
+    const energyHistory: number[] = []
+
+    const consider = (replica: Replica) => {
+      const { best, feasible } = incumbents
+      if (!best || replica.energy < best.energy - 1e-15) {
+        incumbents.best = { bits: replica.bits.slice(), energy: replica.energy }
+      }
+      if (isFeasible && (!feasible || replica.energy < feasible.energy - 1e-15) && isFeasible(replica.bits)) {
+        incumbents.feasible = { bits: replica.bits.slice(), energy: replica.energy }
+      }
+    }
+    const incumbent = () => (isFeasible ? incumbents.feasible : null) ?? incumbents.best
+    const afterSweep = () => {
+      const current = incumbent()
+      if (!current) return
+      energyHistory.push(current.energy)
+      onSweep?.(current.energy, current.bits)
+    }
+
+    let proposed = 0
+    let accepted = 0
+    let swapsProposed = 0
+    let swapsAccepted = 0
+
+    if (this.method === "simulated-annealing") {
+      const cooling = Math.pow(this.cold / this.hot, 1 / Math.max(1, this.sweeps - 1))
+      for (let restart = 0; restart < this.restarts; restart++) {
+        const replica = this.randomReplica()
+        consider(replica)
+        let temperature = this.hot
+        for (let sweep = 0; sweep < this.sweeps; sweep++) {
+          accepted += this.sweep(replica, 1 / temperature, consider)
+          proposed += this.n
+          temperature *= cooling
+          afterSweep()
+        }
+        this.quench(replica, consider)
+      }
+    } else {
+      // Geometric ladder from cold to hot; replica r always runs at temperature r
+      const ratio = Math.pow(this.hot / this.cold, 1 / (this.replicas - 1))
+      const betas = Array.from({ length: this.replicas }, (_, r) => 1 / (this.cold * Math.pow(ratio, r)))
+      const ladder = betas.map(() => this.randomReplica())
+      ladder.forEach(consider)
+      for (let sweep = 0; sweep < this.sweeps; sweep++) {
+        ladder.forEach((replica, r) => {
+          accepted += this.sweep(replica, betas[r], consider)
+          proposed += this.n
+        })
+        // Alternate even and odd neighbour pairs so every pair gets a chance to exchange
+        for (let r = sweep % 2; r + 1 < this.replicas; r += 2) {
+          swapsProposed++
+          const exponent = (betas[r] - betas[r + 1]) * (ladder[r].energy - ladder[r + 1].energy)
+          if (exponent >= 0 || this.random() < Math.exp(exponent)) {
+            ;[ladder[r], ladder[r + 1]] = [ladder[r + 1], ladder[r]]
+            swapsAccepted++
+          }
+        }
+        afterSweep()
+      }
+      this.quench(ladder[0], consider)
+    }
+
+    const result = incumbent() as Snapshot
+    return {
+      bits: Array.from(result.bits),
+      energy: result.energy,
+      feasible: !isFeasible || incumbents.feasible !== null,
+      energyHistory,
+      sweeps: energyHistory.length,
+      acceptanceRate: proposed > 0 ? accepted / proposed : 0,
+      swapRate: this.method === "parallel-tempering" ? swapsAccepted / Math.max(1, swapsProposed) : undefined,
+      seed: this.seed,
+    }
+  }
+
+  private randomReplica(): Replica {
+    const bits = new Uint8Array(this.n)
+    for (let k = 0; k < this.n; k++) bits[k] = this.random() < 0.5 ? 1 : 0
+
+    const field = new Float64Array(this.n)
+    let energy = this.offset
+    for (let k = 0; k < this.n; k++) {
+      for (let j = 0; j < this.n; j++) {
+        if (bits[j]) field[k] += this.coupling[k * this.n + j]
+      }
+      // Each coupling appears in two fields, so count half of it per bit
+      if (bits[k]) energy += this.diagonal[k] + field[k] / 2
+    }
+    return { bits, field, energy }
+  }
+
+  // Energy change from flipping bit k
+  private delta(replica: Replica, k: number): number {
+    return (1 - 2 * replica.bits[k]) * (this.diagonal[k] + replica.field[k])
+  }
+
+  private flip(replica: Replica, k: number, delta: number): void {
+    const change = replica.bits[k] ? -1 : 1
+    replica.bits[k] ^= 1
+    replica.energy += delta
+    const row = k * this.n
+    for (let j = 0; j < this.n; j++) replica.field[j] += change * this.coupling[row + j]
+  }
+
+  // One Metropolis pass over every bit; returns the number of accepted flips
+  private sweep(replica: Replica, beta: number, consider: (replica: Replica) => void): number {
+    let accepted = 0
+    for (let k = 0; k < this.n; k++) {
+      const delta = this.delta(replica, k)
+      if (delta <= 0 || this.random() < Math.exp(-beta * delta)) {
+        this.flip(replica, k, delta)
+        accepted++
+        consider(replica)
+      }
+    }
+    return accepted
+  }
+
+  // Greedy descent to the nearest single-flip local minimum
+  private quench(replica: Replica, consider: (replica: Replica) => void): void {
+    let improved = true
+    while (improved) {
+      improved = false
+      for (let k = 0; k < this.n; k++) {
+        const delta = this.delta(replica, k)
+        if (delta < -1e-15) {
+          this.flip(replica, k, delta)
+          improved = true
+        }
+      }
+    }
+    consider(replica)
+  }
+}
@@ -0,0 +1,215 @@
+// Walk-forward backtests: at each re-optimization date a registered solver sees only the returns in the
+// estimation window before that date, and the portfolio then trades to the new weights on the rebalancing
+// schedule. Between rebalances the weights drift with the realised returns.
+
+import { RiskModel, MIN_HISTORY_OBSERVATIONS } from "./risk-model"
+import { randomSeed } from "./random"
+import type { Asset, QuantumPortfolioOptimizer } from "./quantum-optimizer"
+import type { SolveRequest, SolverRegistry } from "./solver-registry"
+
+export type RebalanceSchedule =
+  | { type: "monthly" }
+  | { type: "quarterly" }
+  | { type: "drift"; threshold: number } // trade once any weight is this far from its target
+
+export const rebalanceSchedules: { value: RebalanceSchedule["type"]; label: string; description: string }[] = [
+  { value: "monthly", label: "Monthly", description: "Re-optimize and trade back to target every month" },
+  { value: "quarterly", label: "Quarterly", description: "Re-optimize and trade back to target every quarter" },
+  {
+    value: "drift",
+    label: "Drift Threshold",
+    description: "Re-optimize monthly, but only trade once a weight drifts past the threshold",
+  },
+]
+
+export interface EstimationWindow {
+  type: "rolling" | "expanding" // the last `length` periods, or everything since the first period
+  length: number // periods of history before the first trade, and the rolling window size
+}
+
+export interface BacktestOptions {
+  solver: string
+  request: Omit<SolveRequest, "assets" | "seed"> // solver settings used at every re-optimization
+  schedule: RebalanceSchedule
+  window: EstimationWindow
+  costBps?: number // proportional trading cost on traded value, in basis points
+  initialCapital?: number
+  seed?: number
+}
+
+export interface BacktestPoint {
+  period: number // index into the aligned return history
+  time: number // years since the first trade
+  value: number
+  drawdown: number // fall from the running peak, as a fraction
+}
+
+export interface BacktestRebalance {
+  period: number
+  weights: number[] // target weights traded to
+  turnover: number // one-way: half the sum of absolute weight changes
+  cost: number
+}
+
+export interface BacktestMetrics {
+  totalReturn: number
+  cagr: number
+  volatility: number // annualised
+  sharpeRatio: number
+  maxDrawdown: number
+  annualTurnover: number // excludes the initial purchase
+  totalCosts: number
+  rebalances: number
+}
+
+export interface BacktestResult {
+  symbols: string[]
+  equityCurve: BacktestPoint[]
+  rebalances: BacktestRebalance[]
+  metrics: BacktestMetrics
+  solver: { name: string; version: string }
+  schedule: RebalanceSchedule
+  window: EstimationWindow
+  costBps: number
+  initialCapital: number
+  periodsPerYear: number
+  seed: number
+}
+
+export class Backtester {
+  constructor(
+    private optimizer: QuantumPortfolioOptimizer,
+    private registry: SolverRegistry,
+  ) {}
+
+  // onProgress sees the fraction of the history processed after each re-optimization
+  async run(
+    assets: Asset[],
+    options: BacktestOptions,
+    onProgress?: (fraction: number) => void,
+  ): Promise<BacktestResult> {
+    const history = RiskModel.alignedReturns(assets)
+    const missing = assets.filter((_, i) => history[i] === null).map((asset) => asset.symbol)
+    if (missing.length > 0) {
+      throw new Error(`Backtesting needs price or return history for every asset (missing: ${missing.join(", ")})`)
+    }
+    const returns = history as number[][]
+    const periods = returns[0].length
+    const { window, schedule } = options
+    if (!Number.isInteger(window.length) || window.length < MIN_HISTORY_OBSERVATIONS || window.length >= periods) {
+      throw new Error(`The estimation window must be between ${MIN_HISTORY_OBSERVATIONS} and ${periods - 1} periods`)
+    }
+    if (schedule.type === "drift" && !(schedule.threshold > 0)) {
+      throw new Error("The drift threshold must be positive")
+    }
+
+    const solver = this.registry.get(options.solver)
+    const periodsPerYear = this.optimizer.getPeriodsPerYear()
+    const riskFreePerPeriod = this.optimizer.getRiskFreeRate() / periodsPerYear
+    const costRate = (options.costBps ?? 0) / 10000
+    const initialCapital = options.initialCapital ?? 100000
+    const seed = options.seed ?? randomSeed()
+    const month = Math.max(1, Math.round(periodsPerYear / 12))
+    const reoptimizeEvery = schedule.type === "quarterly" ? Math.max(1, Math.round(periodsPerYear / 4)) : month
+
+    let value = initialCapital
+    let peak = value
+    let weights = Array(assets.length).fill(0)
+    let target = weights
+    const equityCurve: BacktestPoint[] = [{ period: window.length, time: 0, value, drawdown: 0 }]
+    const rebalances: BacktestRebalance[] = []
+
+    for (let t = window.length; t < periods && value > 0; t++) {
+      const elapsed = t - window.length
+      if (elapsed % reoptimizeEvery === 0) {
+        const start = window.type === "rolling" ? t - window.length : 0
+        const windowAssets = assets.map((asset, i) => ({
+          ...asset,
+          priceHistory: undefined,
+          returnHistory: returns[i].slice(start, t),
+        }))
+        const result = await this.registry.solve(solver.name, this.optimizer, {
+          ...options.request,
+          assets: windowAssets,
+          seed,
+        })
+        target = result.optimalWeights
+        onProgress?.(elapsed / (periods - window.length))
+      }
+
+      const due =
+        schedule.type === "drift"
+          ? weights.some((w, i) => Math.abs(w - target[i]) > schedule.threshold)
+          : elapsed % reoptimizeEvery === 0
+      if (elapsed === 0 || due) {
+        const traded = target.reduce((sum, w, i) => sum + Math.abs(w - weights[i]), 0)
+        const cost = value * traded * costRate
+        value -= cost
+        weights = [...target]
+        rebalances.push({ period: t, weights: [...target], turnover: traded / 2, cost })
+      }
+
+      // Uninvested (or borrowed) capital earns (or pays) the risk-free rate
+      const cash = 1 - weights.reduce((sum, w) => sum + w, 0)
+      const growth = 1 + weights.reduce((sum, w, i) => sum + w * returns[i][t], 0) + cash * riskFreePerPeriod
+      if (growth > 0) {
+        weights = weights.map((w, i) => (w * (1 + returns[i][t])) / growth)
+      }
+      value = Math.max(0, value * growth)
+      peak = Math.max(peak, value)
+      equityCurve.push({
+        period: t + 1,
+        time: (elapsed + 1) / periodsPerYear,
+        value,
+        drawdown: peak > 0 ? 1 - value / peak : 0,
+      })
+    }
+    onProgress?.(1)
+
+    return {
+      symbols: assets.map((asset) => asset.symbol),
+      equityCurve,
+      rebalances,
+      metrics: this.metrics(equityCurve, rebalances, initialCapital, periodsPerYear, riskFreePerPeriod),
+      solver: { name: solver.name, version: solver.version },
+      schedule,
+      window,
+      costBps: options.costBps ?? 0,
+      initialCapital,
+      periodsPerYear,
+      seed,
+    }
+  }
+
+  private metrics(
+    equityCurve: BacktestPoint[],
+    rebalances: BacktestRebalance[],
+    initialCapital: number,
+    periodsPerYear: number,
+    riskFreePerPeriod: number,
+  ): BacktestMetrics {
+    const periodReturns = equityCurve
+      .slice(1)
+      .map((point, k) => (equityCurve[k].value > 0 ? point.value / equityCurve[k].value - 1 : 0))
+    const years = equityCurve[equityCurve.length - 1].time
+    const finalValue = equityCurve[equityCurve.length - 1].value
+    const meanReturn = periodReturns.length > 0 ? RiskModel.mean(periodReturns) : 0
+    const variance =
+      periodReturns.length > 1
+        ? periodReturns.reduce((sum, r) => sum + (r - meanReturn) ** 2, 0) / (periodReturns.length - 1)
+        : 0
+    const volatility = Math.sqrt(variance * periodsPerYear)
+    const excessReturn = (meanReturn - riskFreePerPeriod) * periodsPerYear
+
+    return {
+      totalReturn: finalValue / initialCapital - 1,
+      cagr: years > 0 ? Math.pow(finalValue / initialCapital, 1 / years) - 1 : 0,
+      volatility,
+      sharpeRatio: volatility > 0 ? excessReturn / volatility : 0,
+      maxDrawdown: Math.max(0, ...equityCurve.map((point) => point.drawdown)),
+      annualTurnover: years > 0 ? rebalances.slice(1).reduce((sum, r) => sum + r.turnover, 0) / years : 0,
+      totalCosts: rebalances.reduce((sum, r) => sum + r.cost, 0),
+      rebalances: rebalances.length,
+    }
+  }
+}
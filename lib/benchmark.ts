@@ -0,0 +1,95 @@
+// Benchmark-relative analytics. A benchmark is a weighting over the portfolio's assets and, optionally,
+// constituents the portfolio cannot hold. Active weights are the portfolio minus the benchmark over that
+// combined universe; tracking error is the volatility of the active return and beta the portfolio's
+// sensitivity to the benchmark.
+
+import type { Asset } from "./quantum-optimizer"
+
+export interface Benchmark {
+  name: string
+  weights: Record<string, number> // by symbol; scaled to sum to one
+  assets?: Asset[] // constituents outside the portfolio, with the inputs to estimate their risk
+}
+
+export interface ActiveWeight {
+  symbol: string
+  portfolio: number
+  benchmark: number
+  active: number
+  held: boolean // false for benchmark constituents outside the portfolio
+}
+
+export interface BenchmarkSummary {
+  name: string
+  benchmarkReturn: number
+  benchmarkVolatility: number
+  activeReturn: number // portfolio minus benchmark expected return, cash and borrowing included
+  trackingError: number
+  informationRatio: number
+  beta: number
+  activeWeights: ActiveWeight[]
+}
+
+export class BenchmarkAnalytics {
+  // The portfolio's assets followed by the benchmark's outside constituents, and the benchmark's
+  // weights over them
+  static resolve(assets: Asset[], benchmark: Benchmark): { universe: Asset[]; weights: number[] } {
+    const symbols = new Set(assets.map((asset) => asset.symbol))
+    const outside = (benchmark.assets ?? []).filter((asset) => !symbols.has(asset.symbol))
+    const universe = [...assets, ...outside]
+    const known = new Set(universe.map((asset) => asset.symbol))
+
+    const unknown = Object.keys(benchmark.weights).filter((symbol) => benchmark.weights[symbol] && !known.has(symbol))
+    if (unknown.length > 0) {
+      throw new Error(`Benchmark constituents ${unknown.join(", ")} are neither held nor described`)
+    }
+    const raw = universe.map((asset) => benchmark.weights[asset.symbol] ?? 0)
+    if (raw.some((w) => !Number.isFinite(w) || w < 0)) {
+      throw new Error("Benchmark weights must be zero or positive")
+    }
+    const total = raw.reduce((sum, w) => sum + w, 0)
+    if (!(total > 0)) {
+      throw new Error("The benchmark needs at least one positive weight")
+    }
+    return { universe, weights: raw.map((w) => w / total) }
+  }
+
+  // weights and benchmarkWeights cover the universe; carry is the portfolio's cash and borrowing return
+  static summarize(
+    name: string,
+    universe: Asset[],
+    weights: number[],
+    benchmarkWeights: number[],
+    expectedReturns: number[],
+    covMatrix: number[][],
+    held: number,
+    carry = 0,
+  ): BenchmarkSummary {
+    const active = weights.map((w, i) => w - benchmarkWeights[i])
+    const covBenchmark = covMatrix.map((row) => row.reduce((sum, v, j) => sum + v * benchmarkWeights[j], 0))
+    const benchmarkVariance = benchmarkWeights.reduce((sum, b, i) => sum + b * covBenchmark[i], 0)
+    const trackingVariance = active.reduce(
+      (sum, a, i) => sum + a * active.reduce((inner, e, j) => inner + covMatrix[i][j] * e, 0),
+      0,
+    )
+    const activeReturn = active.reduce((sum, a, i) => sum + a * expectedReturns[i], 0) + carry
+    const trackingError = Math.sqrt(Math.max(0, trackingVariance))
+
+    return {
+      name,
+      benchmarkReturn: benchmarkWeights.reduce((sum, b, i) => sum + b * expectedReturns[i], 0),
+      benchmarkVolatility: Math.sqrt(Math.max(0, benchmarkVariance)),
+      activeReturn,
+      trackingError,
+      informationRatio: trackingError > 1e-8 ? activeReturn / trackingError : 0,
+      beta: benchmarkVariance > 0 ? weights.reduce((sum, w, i) => sum + w * covBenchmark[i], 0) / benchmarkVariance : 0,
+      activeWeights: universe.map((asset, i) => ({
+        symbol: asset.symbol,
+        portfolio: weights[i],
+        benchmark: benchmarkWeights[i],
+        active: active[i],
+        held: i < held,
+      })),
+    }
+  }
+}
@@ -0,0 +1,160 @@
+// Black-Litterman expected returns. The market portfolio (weights proportional to market capitalisation)
+// implies equilibrium excess returns Π = δΣw; investor views then tilt those returns in proportion to their
+// confidence. The posterior replaces hand-typed or historical expected returns in the optimizer.
+
+import type { Asset } from "./quantum-optimizer"
+
+export const DEFAULT_RISK_AVERSION = 2.5
+export const DEFAULT_TAU = 0.05
+
+export interface BlackLittermanView {
+  id: string
+  type: "absolute" | "relative"
+  asset: string // symbol the view is about
+  versus?: string // relative views: the symbol `asset` is expected to outperform
+  value: number // annual return, or outperformance for relative views
+  confidence: number // 0 to 1; 1 forces the posterior to match the view exactly
+}
+
+export interface BlackLittermanOptions {
+  riskAversion?: number // δ, the market's excess return per unit of variance
+  tau?: number // τ, uncertainty of the equilibrium returns relative to the covariance
+}
+
+export interface BlackLittermanResult {
+  marketWeights: number[]
+  impliedReturns: number[] // equilibrium returns, including the risk-free rate
+  posteriorReturns: number[]
+  riskAversion: number
+  tau: number
+}
+
+export class BlackLitterman {
+  static marketWeights(assets: Asset[]): number[] {
+    const missing = assets.filter((asset) => !(asset.marketCap && asset.marketCap > 0)).map((asset) => asset.symbol)
+    if (missing.length > 0) {
+      throw new Error(`Black-Litterman needs a market capitalisation for every asset (missing: ${missing.join(", ")})`)
+    }
+    const total = assets.reduce((sum, asset) => sum + (asset.marketCap as number), 0)
+    return assets.map((asset) => (asset.marketCap as number) / total)
+  }
+
+  static validateView(view: BlackLittermanView, symbols: string[]): void {
+    if (!symbols.includes(view.asset)) {
+      throw new Error(`The view on ${view.asset || "an asset"} refers to an asset not in the portfolio`)
+    }
+    if (view.type === "relative") {
+      if (!view.versus || !symbols.includes(view.versus)) {
+        throw new Error(`The relative view on ${view.asset} needs a second asset from the portfolio`)
+      }
+      if (view.versus === view.asset) {
+        throw new Error(`The relative view on ${view.asset} compares the asset with itself`)
+      }
+    }
+    if (!Number.isFinite(view.value)) {
+      throw new Error(`The view on ${view.asset} needs a return`)
+    }
+    if (!(view.confidence >= 0 && view.confidence <= 1)) {
+      throw new Error(`The confidence of the view on ${view.asset} must be between 0% and 100%`)
+    }
+  }
+
+  // covMatrix is annual; returns are annual and include the risk-free rate
+  static posterior(
+    assets: Asset[],
+    covMatrix: number[][],
+    views: BlackLittermanView[],
+    riskFreeRate: number,
+    options: BlackLittermanOptions = {},
+  ): BlackLittermanResult {
+    const riskAversion = options.riskAversion ?? DEFAULT_RISK_AVERSION
+    const tau = options.tau ?? DEFAULT_TAU
+    if (!(riskAversion > 0)) {
+      throw new Error("Risk aversion must be positive")
+    }
+    if (!(tau > 0)) {
+      throw new Error("Tau must be positive")
+    }
+    const symbols = assets.map((asset) => asset.symbol)
+    views.forEach((view) => this.validateView(view, symbols))
+
+    const n = assets.length
+    const marketWeights = this.marketWeights(assets)
+    const implied = covMatrix.map((row) => riskAversion * row.reduce((sum, v, j) => sum + v * marketWeights[j], 0))
+
+    // Views held with no confidence carry no information
+    const active = views.filter((view) => view.confidence > 0)
+    if (active.length === 0) {
+      const impliedReturns = implied.map((r) => r + riskFreeRate)
+      return { marketWeights, impliedReturns, posteriorReturns: impliedReturns, riskAversion, tau }
+    }
+
+    // Pick matrix P and view returns Q, in excess of the risk-free rate for absolute views
+    const picks = active.map((view) => {
+      const row = Array(n).fill(0)
+      row[symbols.indexOf(view.asset)] = 1
+      if (view.type === "relative") row[symbols.indexOf(view.versus as string)] = -1
+      return row
+    })
+    const targets = active.map((view) => (view.type === "absolute" ? view.value - riskFreeRate : view.value))
+
+    // τΣPᵀ, and the view covariance PτΣPᵀ + Ω with Ω_kk = (1 - c)/c · (PτΣPᵀ)_kk, so a view held with
+    // confidence c moves the posterior a fraction c of the way from equilibrium towards it on its own
+    const scaledCovPicks = covMatrix.map((row) =>
+      picks.map((pick) => tau * row.reduce((sum, v, j) => sum + v * pick[j], 0)),
+    )
+    const viewCov = picks.map((pick) =>
+      active.map((_, l) => pick.reduce((sum, p, i) => sum + p * scaledCovPicks[i][l], 0)),
+    )
+    active.forEach((view, k) => {
+      viewCov[k][k] += ((1 - view.confidence) / view.confidence) * viewCov[k][k]
+    })
+
+    // μ = Π + τΣPᵀ(PτΣPᵀ + Ω)⁻¹(Q - PΠ)
+    const surprise = picks.map((pick, k) => targets[k] - pick.reduce((sum, p, i) => sum + p * implied[i], 0))
+    const adjustment = this.solve(viewCov, surprise)
+    const posterior = implied.map((r, i) => r + scaledCovPicks[i].reduce((sum, v, k) => sum + v * adjustment[k], 0))
+
+    return {
+      marketWeights,
+      impliedReturns: implied.map((r) => r + riskFreeRate),
+      posteriorReturns: posterior.map((r) => r + riskFreeRate),
+      riskAversion,
+      tau,
+    }
+  }
+
+  // Assets that the optimizer will value at the posterior returns
+  static applyPosterior(assets: Asset[], result: BlackLittermanResult): Asset[] {
+    return assets.map((asset, i) => ({ ...asset, posteriorReturn: result.posteriorReturns[i] }))
+  }
+
+  // Gaussian elimination with partial pivoting
+  private static solve(matrix: number[][], rhs: number[]): number[] {
+    const n = rhs.length
+    const a = matrix.map((row, i) => [...row, rhs[i]])
+    for (let col = 0; col < n; col++) {
+      let pivot = col
+      for (let row = col + 1; row < n; row++) {
+        if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row
+      }
+      if (Math.abs(a[pivot][col]) < 1e-14) {
+        throw new Error("The views contradict or duplicate each other; remove one or lower its confidence")
+      }
+      const swap = a[col]
+      a[col] = a[pivot]
+      a[pivot] = swap
+      for (let row = col + 1; row < n; row++) {
+        const factor = a[row][col] / a[col][col]
+        for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k]
+      }
+    }
+    const x = Array(n).fill(0)
+    for (let row = n - 1; row >= 0; row--) {
+      let sum = a[row][n]
+      for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k]
+      x[row] = sum / a[row][row]
+    }
+    return x
+  }
+}
@@ -0,0 +1,164 @@
+// Depth-first branch-and-bound over which assets a portfolio holds. Each node fixes some assets
+// in (held at no less than their buy-in weight) or out (weight zero) and leaves the rest free in
+// [0, upper]. Its continuous relaxation bounds every portfolio below it, so nodes whose relaxation
+// cannot beat the incumbent are pruned.
+
+import { ConstrainedSolver, type WeightBounds } from "./constrained-solver"
+
+export const MAX_SEARCH_NODES = 2000
+
+// Weights below this count as not held
+const HELD_TOLERANCE = 1e-7
+
+export interface SelectionLimits {
+  minHoldings?: number
+  maxHoldings?: number
+  buyIn: number[] // smallest weight of each asset when it is held
+}
+
+export interface Relaxation {
+  weights: number[]
+  score: number // lower is better
+}
+
+export interface SelectionResult extends Relaxation {
+  nodesExplored: number
+  provenOptimal: boolean // false when the node budget ran out before the tree was exhausted
+}
+
+type Decision = "in" | "out" | "free"
+
+interface SearchNode {
+  decisions: Decision[]
+  bound: number // score of the parent's relaxation, a lower bound for this subtree
+}
+
+export class BranchAndBound {
+  private n: number
+  private bounds: WeightBounds
+  private minHoldings: number
+  private maxHoldings: number
+  private heldLower: number[]
+  private relax: (bounds: WeightBounds) => Relaxation | null
+  private maxNodes: number
+
+  constructor(
+    bounds: WeightBounds,
+    limits: SelectionLimits,
+    relax: (bounds: WeightBounds) => Relaxation | null,
+    maxNodes = MAX_SEARCH_NODES,
+  ) {
+    this.n = bounds.lower.length
+    this.bounds = bounds
+    this.minHoldings = limits.minHoldings ?? 1
+    this.maxHoldings = limits.maxHoldings ?? this.n
+    this.heldLower = bounds.lower.map((l, i) => Math.max(l, limits.buyIn[i] ?? 0))
+    this.relax = relax
+    this.maxNodes = maxNodes
+
+    if (!Number.isInteger(this.minHoldings) || !Number.isInteger(this.maxHoldings)) {
+      throw new Error("Holding limits must be whole numbers")
+    }
+    if (this.minHoldings < 1 || this.maxHoldings < this.minHoldings || this.minHoldings > this.n) {
+      throw new Error(`Holding limits must satisfy 1 <= minimum <= maximum, with minimum at most ${this.n}`)
+    }
+  }
+
+  // onNode sees the incumbent after every relaxation solved
+  search(onNode?: (incumbent: Relaxation | null) => void): SelectionResult {
+    let incumbent: Relaxation | null = null
+    let nodesExplored = 0
+    const stack: SearchNode[] = [{ decisions: Array(this.n).fill("free"), bound: -Infinity }]
+
+    while (stack.length > 0 && nodesExplored < this.maxNodes) {
+      const node = stack.pop() as SearchNode
+      if (incumbent && node.bound >= incumbent.score - 1e-12) continue
+
+      const decisions = this.propagate(node.decisions)
+      if (!decisions) continue
+
+      nodesExplored++
+      const relaxation = this.solveNode(decisions)
+      onNode?.(incumbent)
+      if (!relaxation || (incumbent && relaxation.score >= incumbent.score - 1e-12)) continue
+
+      const branch = this.chooseBranch(decisions, relaxation.weights)
+      if (!branch) {
+        incumbent = relaxation
+        continue
+      }
+
+      // Depth first: push the preferred child last so it is explored next
+      const [first, second] = branch.preferIn ? (["in", "out"] as const) : (["out", "in"] as const)
+      stack.push({ decisions: this.fix(decisions, branch.index, second), bound: relaxation.score })
+      stack.push({ decisions: this.fix(decisions, branch.index, first), bound: relaxation.score })
+    }
+
+    if (!incumbent) {
+      throw new Error(
+        nodesExplored >= this.maxNodes
+          ? `No portfolio meeting the holding limits was found within ${this.maxNodes} search nodes`
+          : "No portfolio satisfies the holding limits together with the other constraints",
+      )
+    }
+
+    return { ...incumbent, nodesExplored, provenOptimal: stack.length === 0 }
+  }
+
+  private fix(decisions: Decision[], index: number, decision: Decision): Decision[] {
+    return decisions.map((d, i) => (i === index ? decision : d))
+  }
+
+  // Apply the implications of the holding counts, or return null when the node cannot meet them
+  private propagate(decisions: Decision[]): Decision[] | null {
+    const held = decisions.filter((d) => d === "in").length
+    const free = decisions.filter((d) => d === "free").length
+    if (held > this.maxHoldings || held + free < this.minHoldings) return null
+    if (held === this.maxHoldings && free > 0) return decisions.map((d) => (d === "free" ? "out" : d))
+    if (held + free === this.minHoldings && free > 0) return decisions.map((d) => (d === "free" ? "in" : d))
+    return decisions
+  }
+
+  private solveNode(decisions: Decision[]): Relaxation | null {
+    const bounds: WeightBounds = {
+      ...this.bounds,
+      lower: decisions.map((d, i) => (d === "in" ? this.heldLower[i] : 0)),
+      upper: decisions.map((d, i) => (d === "out" ? 0 : this.bounds.upper[i])),
+    }
+    try {
+      ConstrainedSolver.assertFeasible(bounds)
+    } catch {
+      return null
+    }
+    return this.relax(bounds)
+  }
+
+  // The free asset to branch on, or null when the relaxation already satisfies every holding rule
+  private chooseBranch(decisions: Decision[], weights: number[]): { index: number; preferIn: boolean } | null {
+    const free = decisions.map((d, i) => (d === "free" ? i : -1)).filter((i) => i >= 0)
+    const isHeld = (i: number) => weights[i] > HELD_TOLERANCE
+    const holdings = weights.filter((_, i) => isHeld(i)).length
+
+    // Held below the buy-in: round towards the nearer side first
+    const belowBuyIn = free.filter((i) => isHeld(i) && weights[i] < this.heldLower[i] - HELD_TOLERANCE)
+    if (belowBuyIn.length > 0) {
+      const index = belowBuyIn.reduce((best, i) => (weights[i] > weights[best] ? i : best))
+      return { index, preferIn: weights[index] >= this.heldLower[index] / 2 }
+    }
+
+    // Too many holdings: drop the smallest free position first
+    const heldFree = free.filter(isHeld)
+    if (holdings > this.maxHoldings && heldFree.length > 0) {
+      const index = heldFree.reduce((best, i) => (weights[i] < weights[best] ? i : best))
+      return { index, preferIn: false }
+    }
+
+    // Too few holdings: add an asset the relaxation left out
+    const unheldFree = free.filter((i) => !isHeld(i))
+    if (holdings < this.minHoldings && unheldFree.length > 0) {
+      return { index: unheldFree[0], preferIn: true }
+    }
+
+    return null
+  }
+}
@@ -0,0 +1,744 @@
+// Small constrained optimisation toolkit for portfolio weights.
+// Weights live on the bounded simplex { w : sum(w) = net, lower <= w <= upper }, fully invested
+// (net = 1) unless set otherwise. Negative lower bounds allow short positions, whose gross exposure
+// sum(|w|) may be capped, and the set can be intersected with limits on the total weight of
+// disjoint groups of assets.
+
+export interface GroupBound {
+  name: string
+  members: number[] // asset indices; a single asset belongs to at most one group
+  lower: number
+  upper: number
+}
+
+export interface WeightBounds {
+  lower: number[]
+  upper: number[]
+  groups?: GroupBound[]
+  net?: number // required sum of the weights, one unless set
+  gross?: number // limit on the sum of absolute weights
+}
+
+// Rebalancing from existing holdings: trading asset i costs rates[i] per unit of weight moved
+export interface TradingCosts {
+  current: number[] // weights held before rebalancing
+  rates: number[]
+  maxTurnover?: number // one-way turnover limit: half the sum of |w - current|
+}
+
+export interface QuadraticOptions {
+  bounds: WeightBounds
+  linear?: number[] // c in w'Σw - c'w
+  trading?: TradingCosts // adds Σ rates |w - current| to the objective and enforces the turnover limit
+  grossCost?: number // adds grossCost * Σ |w| to the objective
+  initialWeights?: number[]
+  stepSize?: number // defaults to 1 / L with L the gradient's Lipschitz constant
+  maxIterations?: number
+  tolerance?: number
+  onIteration?: (weights: number[]) => void
+}
+
+type Partition = (GroupBound & { capacityLower: number; capacityUpper: number })[]
+
+// Solvers project with the same bounds object thousands of times, so its partition is built once
+const partitions = new WeakMap<WeightBounds, Partition>()
+
+export class ConstrainedSolver {
+  // Uniform bounds for n assets, rejecting combinations that cannot sum to the net exposure
+  static uniformBounds(n: number, minWeight: number, maxWeight: number, net = 1): WeightBounds {
+    const bounds = { lower: Array(n).fill(minWeight), upper: Array(n).fill(maxWeight), net }
+    this.assertFeasible(bounds)
+    return bounds
+  }
+
+  static assertFeasible(bounds: WeightBounds): void {
+    const net = bounds.net ?? 1
+    const lowerSum = bounds.lower.reduce((sum, l) => sum + l, 0)
+    const upperSum = bounds.upper.reduce((sum, u) => sum + u, 0)
+    if (bounds.lower.some((l, i) => l > bounds.upper[i])) {
+      throw new Error("Minimum weight cannot exceed maximum weight")
+    }
+    if (lowerSum > net + 1e-9 || upperSum < net - 1e-9) {
+      throw new Error(
+        `Weight bounds are infeasible: minimums sum to ${lowerSum.toFixed(2)} and maximums to ${upperSum.toFixed(2)}` +
+          (net === 1 ? "" : `, but the net exposure is ${net.toFixed(2)}`),
+      )
+    }
+    if (bounds.gross !== undefined) {
+      const minimum = this.minimumGross(bounds)
+      if (minimum > bounds.gross + 1e-9) {
+        throw new Error(
+          `Gross exposure limit ${(bounds.gross * 100).toFixed(1)}% is below the ${(minimum * 100).toFixed(1)}% ` +
+            "the weight bounds and net exposure require",
+        )
+      }
+    }
+    if (!bounds.groups?.length) return
+
+    const partition = this.partition(bounds)
+    for (const group of partition) {
+      if (group.lower > group.upper + 1e-9) {
+        throw new Error(
+          `Limits for ${group.name} are infeasible: it can hold between ${(group.capacityLower * 100).toFixed(1)}% ` +
+            `and ${(group.capacityUpper * 100).toFixed(1)}% given the per-asset bounds`,
+        )
+      }
+    }
+    const groupLowerSum = partition.reduce((sum, g) => sum + g.lower, 0)
+    const groupUpperSum = partition.reduce((sum, g) => sum + g.upper, 0)
+    if (groupLowerSum > net + 1e-9 || groupUpperSum < net - 1e-9) {
+      throw new Error(
+        `Group limits are infeasible: minimums sum to ${groupLowerSum.toFixed(2)} and maximums to ${groupUpperSum.toFixed(2)}`,
+      )
+    }
+  }
+
+  // Smallest gross exposure the per-asset bounds allow: start every weight at its feasible value nearest
+  // zero, then close the gap to the net exposure, which costs one unit of gross exposure per unit moved
+  private static minimumGross(bounds: WeightBounds): number {
+    const nearest = bounds.lower.map((l, i) => Math.max(l, Math.min(bounds.upper[i], 0)))
+    const sum = nearest.reduce((total, w) => total + w, 0)
+    return this.grossExposure(nearest) + Math.abs((bounds.net ?? 1) - sum)
+  }
+
+  // Every asset in exactly one group, with each group's limits tightened to what its members can hold.
+  // Assets outside the configured groups share one unconstrained group.
+  private static partition(bounds: WeightBounds): Partition {
+    const cached = partitions.get(bounds)
+    if (cached) return cached
+
+    const grouped = new Set<number>()
+    const groups = (bounds.groups ?? []).map((group) => {
+      group.members.forEach((i) => grouped.add(i))
+      return group
+    })
+    const rest = bounds.lower.map((_, i) => i).filter((i) => !grouped.has(i))
+    if (rest.length > 0) groups.push({ name: "other assets", members: rest, lower: -Infinity, upper: Infinity })
+
+    const partition = groups.map((group) => {
+      const capacityLower = group.members.reduce((sum, i) => sum + bounds.lower[i], 0)
+      const capacityUpper = group.members.reduce((sum, i) => sum + bounds.upper[i], 0)
+      return {
+        ...group,
+        lower: Math.max(group.lower, capacityLower),
+        upper: Math.min(group.upper, capacityUpper),
+        capacityLower,
+        capacityUpper,
+      }
+    })
+    partitions.set(bounds, partition)
+    return partition
+  }
+
+  // Euclidean projection onto the bounded simplex, honouring group limits and the gross exposure limit.
+  // A positive shrink gives the proximal map of shrink * Σ |w| instead, pulling every weight towards zero.
+  static projectOntoBoundedSimplex(v: number[], bounds: WeightBounds, shrink = 0): number[] {
+    const project = (threshold: number) =>
+      bounds.groups?.length
+        ? this.projectWithGroups(v, bounds, threshold)
+        : this.projectOntoSum(
+            v,
+            bounds.lower,
+            bounds.upper,
+            bounds.net ?? 1,
+            threshold > 0 ? Array(v.length).fill(threshold) : undefined,
+          )
+    if (bounds.gross === undefined) return project(shrink)
+
+    // The gross limit raises the threshold by its multiplier
+    return this.searchMultiplier(
+      (rho) => project(shrink + rho),
+      (w) => this.grossExposure(w),
+      bounds.gross,
+      Math.max(...v.map(Math.abs)),
+    )
+  }
+
+  // clip(center + soft(x - center, threshold), lower, upper): the proximal map of threshold * |w - center|
+  // restricted to [lower, upper], which is plain clipping when the threshold is zero
+  private static shrinkAndClip(x: number, lower: number, upper: number, threshold: number, center: number): number {
+    const shifted = x - center
+    const soft = shifted > threshold ? shifted - threshold : shifted < -threshold ? shifted + threshold : 0
+    return Math.max(lower, Math.min(upper, center + soft))
+  }
+
+  // Sorted values of tau where some shrinkAndClip(v - tau) changes slope: where the weight meets either
+  // bound and, with a threshold, where it leaves or rejoins its center
+  private static kinksOf(
+    v: number[],
+    lower: number[],
+    upper: number[],
+    thresholds?: number[],
+    centers?: number[],
+  ): Float64Array {
+    const n = v.length
+    if (!thresholds) {
+      const kinks = new Float64Array(2 * n)
+      for (let i = 0; i < n; i++) {
+        kinks[i] = v[i] - upper[i]
+        kinks[n + i] = v[i] - lower[i]
+      }
+      return kinks.sort()
+    }
+
+    const kinks = new Float64Array(6 * n)
+    for (let i = 0; i < n; i++) {
+      const k = thresholds[i]
+      const anchors = [centers?.[i] ?? 0, upper[i], lower[i]]
+      for (let j = 0; j < anchors.length; j++) {
+        kinks[6 * i + 2 * j] = v[i] - anchors[j] - k
+        kinks[6 * i + 2 * j + 1] = v[i] - anchors[j] + k
+      }
+    }
+    return kinks.sort()
+  }
+
+  // The projection is shrinkAndClip(v - tau) for the tau where the weights sum to the target. That sum
+  // is piecewise linear and non-increasing in tau, so locate the segment that crosses the target among
+  // the sorted kinks and interpolate exactly.
+  private static projectOntoSum(
+    v: number[],
+    lower: number[],
+    upper: number[],
+    target: number,
+    thresholds?: number[],
+    centers?: number[],
+  ): number[] {
+    const n = v.length
+    const weightAt = (i: number, tau: number) =>
+      this.shrinkAndClip(v[i] - tau, lower[i], upper[i], thresholds?.[i] ?? 0, centers?.[i] ?? 0)
+    const total = (tau: number) => {
+      let sum = 0
+      for (let i = 0; i < n; i++) sum += weightAt(i, tau)
+      return sum
+    }
+
+    const kinks = this.kinksOf(v, lower, upper, thresholds, centers)
+    let lo = 0
+    let hi = kinks.length - 1
+    let tau: number
+    if (total(kinks[lo]) <= target) tau = kinks[lo]
+    else if (total(kinks[hi]) >= target) tau = kinks[hi]
+    else {
+      // Invariant: total(kinks[lo]) > target >= total(kinks[hi])
+      while (hi - lo > 1) {
+        const mid = (lo + hi) >> 1
+        if (total(kinks[mid]) > target) lo = mid
+        else hi = mid
+      }
+      const totalLo = total(kinks[lo])
+      const totalHi = total(kinks[hi])
+      tau = kinks[lo] + ((totalLo - target) * (kinks[hi] - kinks[lo])) / (totalLo - totalHi)
+    }
+    return Array.from({ length: n }, (_, i) => weightAt(i, tau))
+  }
+
+  // With disjoint groups the KKT conditions give each group the total
+  // clip(sum over members of shrinkAndClip(v - tau), group lower, group upper) for one shared tau.
+  // Those totals are monotone and piecewise linear in tau. Between consecutive asset kinks every
+  // member sum is linear, so find that segment by bisection, then add the points where member sums
+  // hit their group limits and interpolate across the segment that crosses one.
+  private static projectWithGroups(v: number[], bounds: WeightBounds, threshold = 0): number[] {
+    const { lower, upper } = bounds
+    const net = bounds.net ?? 1
+    const partition = this.partition(bounds)
+    const memberSum = (members: number[], tau: number) => {
+      let sum = 0
+      for (const i of members) sum += this.shrinkAndClip(v[i] - tau, lower[i], upper[i], threshold, 0)
+      return sum
+    }
+    const groupTotal = (group: Partition[number], tau: number) =>
+      Math.max(group.lower, Math.min(group.upper, memberSum(group.members, tau)))
+    const total = (tau: number) => {
+      let sum = 0
+      for (const group of partition) sum += groupTotal(group, tau)
+      return sum
+    }
+
+    const n = v.length
+    const thresholds = threshold > 0 ? Array(n).fill(threshold) : undefined
+    const kinks = this.kinksOf(v, lower, upper, thresholds)
+    let lo = 0
+    let hi = kinks.length - 1
+    if (total(kinks[lo]) <= net) hi = lo
+    else if (total(kinks[hi]) >= net) lo = hi
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1
+      if (total(kinks[mid]) > net) lo = mid
+      else hi = mid
+    }
+
+    let tau = kinks[lo]
+    if (kinks[hi] > kinks[lo]) {
+      // Every member sum is linear inside the segment, so its slope follows from the endpoints
+      const from = kinks[lo]
+      const to = kinks[hi]
+      const points = [from, to]
+      for (const group of partition) {
+        const start = memberSum(group.members, from)
+        const slope = (start - memberSum(group.members, to)) / (to - from)
+        if (slope <= 0) continue
+        for (const limit of [group.lower, group.upper]) {
+          const crossing = from + (start - limit) / slope
+          if (Number.isFinite(crossing) && crossing > from && crossing < to) points.push(crossing)
+        }
+      }
+      points.sort((a, b) => a - b)
+
+      let a = 0
+      while (a < points.length - 2 && total(points[a + 1]) > net) a++
+      const totalA = total(points[a])
+      const totalB = total(points[a + 1])
+      tau =
+        totalA === totalB ? points[a] : points[a] + ((totalA - net) * (points[a + 1] - points[a])) / (totalA - totalB)
+    }
+
+    const weights = Array(n).fill(0)
+    partition.forEach((group) => {
+      const projected = this.projectOntoSum(
+        group.members.map((i) => v[i]),
+        group.members.map((i) => lower[i]),
+        group.members.map((i) => upper[i]),
+        groupTotal(group, tau),
+        thresholds && group.members.map(() => threshold),
+      )
+      group.members.forEach((i, k) => (weights[i] = projected[k]))
+    })
+    return weights
+  }
+
+  // Proximal operator of scale * Σ rates |w - current| restricted to the bounded simplex and the
+  // turnover limit. For multipliers tau (budget) and rho (turnover) each weight is
+  // clip(current + soft(v - tau - current, scale * rate + rho), lower, upper): projectOntoSum finds tau
+  // exactly, and rho is searched because turnover only falls as it grows.
+  static projectWithTrading(v: number[], bounds: WeightBounds, trading: TradingCosts, scale = 1): number[] {
+    const { current, rates } = trading
+    const solve = (rho: number) =>
+      this.projectOntoSum(
+        v,
+        bounds.lower,
+        bounds.upper,
+        bounds.net ?? 1,
+        rates.map((r) => scale * r + rho),
+        current,
+      )
+    if (trading.maxTurnover === undefined) return solve(0)
+
+    return this.searchMultiplier(
+      solve,
+      (w) => this.turnover(w, current),
+      trading.maxTurnover,
+      Math.max(...v.map((x, i) => Math.abs(x - current[i]))),
+    )
+  }
+
+  // Weights solve(rho) for the smallest multiplier rho >= 0 that keeps measure within limit, given that
+  // the measure only falls as rho grows: zero when the limit is slack, otherwise bracketed by doubling
+  // from initial and then bisected
+  private static searchMultiplier(
+    solve: (rho: number) => number[],
+    measure: (weights: number[]) => number,
+    limit: number,
+    initial: number,
+  ): number[] {
+    let weights = solve(0)
+    if (measure(weights) <= limit + 1e-12) return weights
+
+    let lo = 0
+    let hi = Math.max(1e-9, initial)
+    weights = solve(hi)
+    for (let doubling = 0; doubling < 60 && measure(weights) > limit + 1e-12; doubling++) {
+      lo = hi
+      hi *= 2
+      weights = solve(hi)
+    }
+    for (let iteration = 0; iteration < 60 && hi - lo > 1e-12 * hi; iteration++) {
+      const mid = (lo + hi) / 2
+      const candidate = solve(mid)
+      if (measure(candidate) > limit + 1e-12) {
+        lo = mid
+      } else {
+        hi = mid
+        weights = candidate
+      }
+    }
+
+    return weights
+  }
+
+  // Highest and lowest expected return reachable inside the bounds (greedy fill by return)
+  static returnRange(expectedReturns: number[], bounds: WeightBounds): { min: number; max: number } {
+    if (bounds.groups?.length || bounds.gross !== undefined) {
+      // Greedy filling ignores group and gross exposure limits. Projecting t * mu for a large t lands on the
+      // linear programme's optimal vertex instead, to within 1 / (2t) of its value.
+      const scale = 1e6 / (Math.max(...expectedReturns.map(Math.abs)) || 1)
+      const extreme = (sign: number) => {
+        const weights = this.projectOntoBoundedSimplex(
+          expectedReturns.map((r) => sign * scale * r),
+          bounds,
+        )
+        return weights.reduce((sum, w, i) => sum + w * expectedReturns[i], 0)
+      }
+      return { min: extreme(-1), max: extreme(1) }
+    }
+
+    const fill = (order: number[]) => {
+      const weights = [...bounds.lower]
+      let remaining = (bounds.net ?? 1) - weights.reduce((sum, w) => sum + w, 0)
+      for (const i of order) {
+        const add = Math.min(remaining, bounds.upper[i] - weights[i])
+        weights[i] += add
+        remaining -= add
+      }
+      return weights.reduce((sum, w, i) => sum + w * expectedReturns[i], 0)
+    }
+    const ascending = expectedReturns.map((_, i) => i).sort((a, b) => expectedReturns[a] - expectedReturns[b])
+
+    return { min: fill(ascending), max: fill([...ascending].reverse()) }
+  }
+
+  // Largest eigenvalue of a symmetric positive semi-definite matrix by power iteration
+  static largestEigenvalue(matrix: number[][]): number {
+    const n = matrix.length
+    let vector = Array(n).fill(1 / Math.sqrt(n))
+    let eigenvalue = 0
+
+    for (let iteration = 0; iteration < 100; iteration++) {
+      const product = matrix.map((row) => row.reduce((sum, v, j) => sum + v * vector[j], 0))
+      const norm = Math.sqrt(product.reduce((sum, v) => sum + v * v, 0))
+      if (norm === 0) return 0
+      vector = product.map((v) => v / norm)
+      if (Math.abs(norm - eigenvalue) < 1e-12 * norm) return norm
+      eigenvalue = norm
+    }
+
+    return eigenvalue
+  }
+
+  // Slightly inflated Lipschitz constant so rounding in the power iteration can never make the step too long
+  static defaultStepSize(covMatrix: number[][]): number {
+    return 1 / (2.02 * this.largestEigenvalue(covMatrix) || 1)
+  }
+
+  // Minimise w'Σw - c'w on the bounded simplex with accelerated projected gradient descent (FISTA)
+  static minimizeQuadratic(covMatrix: number[][], options: QuadraticOptions): number[] {
+    const n = covMatrix.length
+    const { bounds } = options
+    const linear = options.linear ?? Array(n).fill(0)
+    const maxIterations = options.maxIterations ?? 2000
+    const tolerance = options.tolerance ?? 1e-10
+    const stepSize = options.stepSize ?? this.defaultStepSize(covMatrix)
+
+    const { trading } = options
+    const grossCost = options.grossCost ?? 0
+    if (trading && (bounds.groups?.length || bounds.gross !== undefined || grossCost > 0)) {
+      throw new Error("Group limits and gross exposure cannot be combined with trading costs")
+    }
+    // Proximal step: costs make the projection soft-threshold towards the current weights or towards zero
+    const step = (v: number[], scale: number) =>
+      trading
+        ? this.projectWithTrading(v, bounds, trading, scale)
+        : this.projectOntoBoundedSimplex(v, bounds, scale * grossCost)
+
+    let previous = step(options.initialWeights ?? trading?.current ?? Array(n).fill(1 / n), 0)
+    let momentum = previous
+    let t = 1
+
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      const gradient = momentum.map((_, i) => {
+        let g = -linear[i]
+        for (let j = 0; j < n; j++) g += 2 * covMatrix[i][j] * momentum[j]
+        return g
+      })
+      const next = step(momentum.map((w, i) => w - stepSize * gradient[i]), stepSize)
+
+      const change = next.reduce((max, w, i) => Math.max(max, Math.abs(w - previous[i])), 0)
+      // Adaptive restart: drop the momentum once it stops pointing downhill
+      const overshoot = momentum.reduce((sum, y, i) => sum + (y - next[i]) * (next[i] - previous[i]), 0)
+      if (overshoot > 0) {
+        t = 1
+        momentum = next
+      } else {
+        const tNext = (1 + Math.sqrt(1 + 4 * t * t)) / 2
+        momentum = next.map((w, i) => w + ((t - 1) / tNext) * (w - previous[i]))
+        t = tNext
+      }
+      previous = next
+      options.onIteration?.(previous)
+      if (change < tolerance) break
+    }
+
+    return previous
+  }
+
+  // Points on the frontier w(λ) = argmin w'Σw - λ a'w, found by searching λ until a measure that
+  // grows along the frontier (return, volatility, ...) reaches its target. Each solve is warm started
+  // from the last, and onIteration sees every candidate.
+  private static searchFrontier(
+    covMatrix: number[][],
+    direction: number[],
+    bounds: WeightBounds,
+    gapOf: (weights: number[]) => number,
+    onIteration?: (weights: number[]) => void,
+  ): number[] {
+    const stepSize = this.defaultStepSize(covMatrix)
+    const solve = (lambda: number, initialWeights?: number[]) => {
+      const weights = this.minimizeQuadratic(covMatrix, {
+        bounds,
+        linear: direction.map((a) => lambda * a),
+        initialWeights,
+        stepSize,
+      })
+      onIteration?.(weights)
+      return weights
+    }
+
+    let weights = solve(0)
+    let lo = 0
+    let gapLo = gapOf(weights)
+    if (gapLo >= 0) return weights
+
+    let hi = Math.max(1e-6, 1 / stepSize)
+    let upperWeights = solve(hi, weights)
+    for (let doubling = 0; doubling < 60 && gapOf(upperWeights) < -1e-12; doubling++) {
+      lo = hi
+      gapLo = gapOf(upperWeights)
+      hi *= 2
+      upperWeights = solve(hi, upperWeights)
+    }
+
+    // Illinois (modified regula falsi) on the gap: far fewer solves than plain bisection
+    let gapHi = gapOf(upperWeights)
+    let side = 0
+    weights = upperWeights
+    for (let iteration = 0; iteration < 60 && gapHi > 1e-9 && hi - lo > 1e-12 * hi; iteration++) {
+      const lambda = hi - (gapHi * (hi - lo)) / (gapHi - gapLo)
+      const candidate = solve(lambda, weights)
+      const gap = gapOf(candidate)
+      if (gap < 0) {
+        lo = lambda
+        gapLo = gap
+        if (side === -1) gapHi /= 2
+        side = -1
+      } else {
+        hi = lambda
+        gapHi = gap
+        weights = candidate
+        if (side === 1) gapLo /= 2
+        side = 1
+      }
+    }
+
+    return weights
+  }
+
+  // Minimum-variance weights whose expected return is at least targetReturn. The return constraint
+  // enters through its Lagrange multiplier: w(λ) = argmin w'Σw - λ μ'w has a return that grows with λ.
+  static minimizeVarianceForReturn(
+    covMatrix: number[][],
+    expectedReturns: number[],
+    targetReturn: number,
+    bounds: WeightBounds,
+    onIteration?: (weights: number[]) => void,
+  ): number[] {
+    const returnOf = (w: number[]) => w.reduce((sum, x, i) => sum + x * expectedReturns[i], 0)
+    return this.searchFrontier(covMatrix, expectedReturns, bounds, (w) => returnOf(w) - targetReturn, onIteration)
+  }
+
+  // Highest-return weights whose volatility stays within targetVolatility. Volatility also grows
+  // along the frontier, so this is the frontier point where it first reaches the target.
+  static maximizeReturnForVolatility(
+    covMatrix: number[][],
+    expectedReturns: number[],
+    targetVolatility: number,
+    bounds: WeightBounds,
+    onIteration?: (weights: number[]) => void,
+  ): number[] {
+    const volatilityOf = (w: number[]) => Math.sqrt(this.quadraticForm(covMatrix, w))
+    const { max } = this.returnRange(expectedReturns, bounds)
+    const returnOf = (w: number[]) => w.reduce((sum, x, i) => sum + x * expectedReturns[i], 0)
+
+    // Stop early once the return is maxed out: beyond that point risk can only rise without reward
+    return this.searchFrontier(
+      covMatrix,
+      expectedReturns,
+      bounds,
+      (w) => (returnOf(w) >= max - 1e-12 ? 0 : volatilityOf(w) - targetVolatility),
+      onIteration,
+    )
+  }
+
+  // Maximise (a'w - c - cost(w)) / sqrt(w'Σw), where cost(w) is the optional trading cost plus grossCost
+  // per unit of gross exposure. The maximiser lies on the frontier min w'Σw - λ (a'w - cost(w)) and the
+  // ratio is unimodal along it, so a golden-section search over λ finds it.
+  static maximizeRatio(
+    covMatrix: number[][],
+    numerator: number[],
+    offset: number,
+    bounds: WeightBounds,
+    onIteration?: (weights: number[]) => void,
+    costs: { trading?: TradingCosts; grossCost?: number } = {},
+  ): number[] {
+    const { trading } = costs
+    const grossCost = costs.grossCost ?? 0
+    const stepSize = this.defaultStepSize(covMatrix)
+    let warmStart: number[] | undefined
+    const solve = (lambda: number) => {
+      warmStart = this.minimizeQuadratic(covMatrix, {
+        bounds,
+        linear: numerator.map((a) => lambda * a),
+        trading: trading && { ...trading, rates: trading.rates.map((r) => lambda * r) },
+        grossCost: lambda * grossCost,
+        initialWeights: warmStart,
+        stepSize,
+      })
+      onIteration?.(warmStart)
+      return warmStart
+    }
+    const costOf = (w: number[]) => (trading ? this.tradingCost(w, trading) : 0) + grossCost * this.grossExposure(w)
+    // A riskless portfolio, such as the empty market-neutral book, ranks below every risky one
+    const ratioOf = (w: number[]) => {
+      const risk = Math.sqrt(this.quadraticForm(covMatrix, w))
+      return risk > 0 ? (w.reduce((sum, x, i) => sum + x * numerator[i], 0) - offset - costOf(w)) / risk : -Infinity
+    }
+
+    // Grow λ until the ratio starts falling or the numerator is maxed out (the end of the
+    // frontier). By unimodality the peak then lies between the last three λ tried.
+    const { max } = this.returnRange(numerator, bounds)
+    let best = solve(0)
+    let bestRatio = ratioOf(best)
+    let a = 0
+    let previous = 0
+    let hi = Math.max(1e-6, 1 / stepSize)
+    for (let doubling = 0; doubling < 60; doubling++) {
+      const weights = solve(hi)
+      const r = ratioOf(weights)
+      if (r > bestRatio) [best, bestRatio] = [weights, r]
+      else break
+      if (weights.reduce((sum, x, i) => sum + x * numerator[i], 0) >= max - 1e-10) break
+      a = previous
+      previous = hi
+      hi *= 2
+    }
+
+    // Golden section: each step reuses one interior point and solves only the other
+    const ratio = (1 + Math.sqrt(5)) / 2
+    const evaluate = (lambda: number) => {
+      const weights = solve(lambda)
+      const r = ratioOf(weights)
+      if (r > bestRatio) [best, bestRatio] = [weights, r]
+      return r
+    }
+    let b = hi
+    let c = b - (b - a) / ratio
+    let d = a + (b - a) / ratio
+    let rc = evaluate(c)
+    let rd = evaluate(d)
+    for (let iteration = 0; iteration < 80 && b - a > 1e-7 * hi; iteration++) {
+      if (rc >= rd) {
+        b = d
+        d = c
+        rd = rc
+        c = b - (b - a) / ratio
+        rc = evaluate(c)
+      } else {
+        a = c
+        c = d
+        rc = rd
+        d = a + (b - a) / ratio
+        rd = evaluate(d)
+      }
+    }
+
+    return best
+  }
+
+  static tradingCost(weights: number[], trading: TradingCosts): number {
+    return weights.reduce((sum, w, i) => sum + trading.rates[i] * Math.abs(w - trading.current[i]), 0)
+  }
+
+  // One-way turnover: the weight bought, which equals the weight sold when both portfolios are fully invested
+  static turnover(weights: number[], current: number[]): number {
+    return weights.reduce((sum, w, i) => sum + Math.abs(w - current[i]), 0) / 2
+  }
+
+  // Total long plus short exposure as a fraction of capital
+  static grossExposure(weights: number[]): number {
+    return weights.reduce((sum, w) => sum + Math.abs(w), 0)
+  }
+
+  // Equal risk contribution: every asset contributes w_i (Σw)_i = w'Σw / n. Without bounds this is
+  // solved exactly by cyclical coordinate descent on the convex problem min ½ y'Σy - Σ log(y_i) / n;
+  // when bounds bind we continue with projected gradient descent on Σ (w_i (Σw)_i - w'Σw / n)^2.
+  static equalRiskContribution(
+    covMatrix: number[][],
+    bounds: WeightBounds,
+    onIteration?: (weights: number[]) => void,
+    maxIterations = 500,
+  ): number[] {
+    const n = covMatrix.length
+    const budget = 1 / n
+
+    let y = covMatrix.map((row, i) => 1 / Math.sqrt(row[i] || 1))
+    for (let sweep = 0; sweep < maxIterations; sweep++) {
+      let change = 0
+      for (let i = 0; i < n; i++) {
+        const cross = covMatrix[i].reduce((sum, c, j) => (j === i ? sum : sum + c * y[j]), 0)
+        const next = (-cross + Math.sqrt(cross * cross + 4 * covMatrix[i][i] * budget)) / (2 * covMatrix[i][i])
+        change = Math.max(change, Math.abs(next - y[i]))
+        y[i] = next
+      }
+      if (change < 1e-12) break
+    }
+    const total = y.reduce((sum, v) => sum + v, 0)
+    y = y.map((v) => v / total)
+
+    const deviation = (w: number[]) => {
+      const marginal = covMatrix.map((row) => row.reduce((sum, c, j) => sum + c * w[j], 0))
+      const variance = w.reduce((sum, x, i) => sum + x * marginal[i], 0)
+      const d = w.map((x, i) => x * marginal[i] - variance / n)
+      return { marginal, d, value: d.reduce((sum, v) => sum + v * v, 0) }
+    }
+
+    let weights = this.projectOntoBoundedSimplex(y, bounds)
+    let current = deviation(weights)
+    let step = 1 / Math.pow(this.largestEigenvalue(covMatrix) || 1, 2)
+    onIteration?.(weights)
+
+    for (let iteration = 0; iteration < maxIterations && current.value > 1e-20; iteration++) {
+      // ∂/∂w_k Σ d_i^2 = 2 (d_k (Σw)_k + (Σ (d ∘ w))_k), using Σ d_i = 0
+      const dw = current.d.map((d, i) => d * weights[i])
+      const gradient = weights.map(
+        (_, k) => 2 * (current.d[k] * current.marginal[k] + covMatrix[k].reduce((sum, c, j) => sum + c * dw[j], 0)),
+      )
+
+      let accepted = false
+      for (let attempt = 0; attempt < 40 && !accepted; attempt++) {
+        const candidate = this.projectOntoBoundedSimplex(weights.map((w, i) => w - step * gradient[i]), bounds)
+        const next = deviation(candidate)
+        if (next.value < current.value) {
+          accepted = true
+          const moved = candidate.reduce((max, w, i) => Math.max(max, Math.abs(w - weights[i])), 0)
+          weights = candidate
+          current = next
+          step *= 2
+          onIteration?.(weights)
+          if (moved < 1e-12) return weights
+        } else {
+          step /= 2
+        }
+      }
+      if (!accepted) break
+    }
+
+    return weights
+  }
+
+  static quadraticForm(matrix: number[][], w: number[]): number {
+    let total = 0
+    for (let i = 0; i < w.length; i++) {
+      for (let j = 0; j < w.length; j++) total += w[i] * w[j] * matrix[i][j]
+    }
+    return total
+  }
+}
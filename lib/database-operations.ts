@@ -1,5 +1,8 @@
 import { createClient } from "@/lib/supabase/client"
 import type { Portfolio, Asset, OptimizationResult } from "./types"
+import type { Asset as PortfolioAsset } from "./quantum-optimizer"
+
+type AssetRow = Omit<Asset, "id" | "portfolio_id" | "created_at">
 
 // Client-side operations only
 export class DatabaseOperations {
@@ -41,16 +44,20 @@ export class DatabaseOperations {
       .order("updated_at", { ascending: false })
 
     if (error) throw error
-    return data
+    // Asset rows come back as the optimizer's assets
+    return data.map((portfolio) => ({
+      ...portfolio,
+      assets: ((portfolio.assets ?? []) as Asset[]).map((row) => DatabaseOperations.fromAssetRow(row)),
+    }))
   }
 
-  async saveAssets(portfolioId: string, assets: Omit<Asset, "id" | "portfolio_id" | "created_at">[]) {
+  async saveAssets(portfolioId: string, assets: PortfolioAsset[]) {
     // First delete existing assets
     await this.supabase.from("assets").delete().eq("portfolio_id", portfolioId)
 
     // Then insert new assets
     const assetsWithPortfolioId = assets.map((asset) => ({
-      ...asset,
+      ...DatabaseOperations.toAssetRow(asset),
       portfolio_id: portfolioId,
     }))
 
@@ -60,6 +67,39 @@ export class DatabaseOperations {
     return data
   }
 
+  // The columns an optimizer asset is stored in, and the asset read back from them
+  static toAssetRow(asset: PortfolioAsset): AssetRow {
+    return {
+      symbol: asset.symbol,
+      name: asset.name,
+      expected_return: asset.expectedReturn,
+      volatility: asset.volatility,
+      price: asset.price,
+      category: asset.category ?? null,
+      market_cap: asset.marketCap ?? null,
+      lot_size: asset.lotSize ?? null,
+      return_uncertainty: asset.returnUncertainty ?? null,
+      price_history: asset.priceHistory ?? null,
+      return_history: asset.returnHistory ?? null,
+    }
+  }
+
+  static fromAssetRow(row: Asset): PortfolioAsset {
+    return {
+      symbol: row.symbol,
+      name: row.name,
+      expectedReturn: Number(row.expected_return),
+      volatility: Number(row.volatility),
+      price: row.price != null ? Number(row.price) : 100, // rows saved before prices were stored
+      category: row.category ?? undefined,
+      marketCap: row.market_cap != null ? Number(row.market_cap) : undefined,
+      lotSize: row.lot_size ?? undefined,
+      returnUncertainty: row.return_uncertainty != null ? Number(row.return_uncertainty) : undefined,
+      priceHistory: row.price_history ?? undefined,
+      returnHistory: row.return_history ?? undefined,
+    }
+  }
+
   async saveOptimizationResult(result: Omit<OptimizationResult, "id" | "created_at">) {
     const { data, error } = await this.supabase.from("optimization_results").insert(result).select().single()
 
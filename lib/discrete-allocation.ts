@@ -0,0 +1,106 @@
+// Turn target weights into whole lots of each asset for a given amount of capital. Long positions are
+// bought with the capital the weights put into them; short positions are rounded to the nearest lot and
+// their proceeds are not reinvested. Lots are first rounded down, then the remaining cash buys, one lot at
+// a time, whichever lot most reduces the tracking error to the target weights.
+
+import type { Asset } from "./quantum-optimizer"
+
+export interface ShareOrder {
+  symbol: string
+  lots: number
+  shares: number // lots times the lot size; negative for short sales
+  price: number
+  value: number // shares times price
+  targetWeight: number
+  weight: number // value as a fraction of the capital
+}
+
+export interface DiscreteAllocation {
+  capital: number
+  orders: ShareOrder[]
+  investedValue: number // spent on long positions
+  shortValue: number // value of the short sales, as a positive amount
+  leftoverCash: number // capital not spent on long positions
+  trackingError: number // annualised volatility of the difference between the achieved and target weights
+}
+
+export class DiscreteAllocator {
+  // covMatrix is the annual covariance the tracking error is measured with
+  static allocate(assets: Asset[], weights: number[], capital: number, covMatrix: number[][]): DiscreteAllocation {
+    if (weights.length !== assets.length) {
+      throw new Error("Share allocation needs one weight per asset")
+    }
+    if (!(capital > 0)) {
+      throw new Error("Capital must be positive")
+    }
+    const invalidPrice = assets.find((asset) => !(asset.price > 0))
+    if (invalidPrice) {
+      throw new Error(`${invalidPrice.symbol} needs a positive price to be allocated shares`)
+    }
+    const invalidLot = assets.find((asset) => !Number.isInteger(asset.lotSize ?? 1) || (asset.lotSize ?? 1) < 1)
+    if (invalidLot) {
+      throw new Error(`The lot size of ${invalidLot.symbol} must be a positive whole number of shares`)
+    }
+
+    const n = assets.length
+    // Weight of a single lot of each asset
+    const lotWeights = assets.map((asset) => ((asset.lotSize ?? 1) * asset.price) / capital)
+    const lots = weights.map((w, i) => (w >= 0 ? Math.floor(w / lotWeights[i]) : Math.round(w / lotWeights[i])))
+
+    const longTarget = weights.reduce((sum, w) => sum + Math.max(0, w), 0)
+    let cash = longTarget - lots.reduce((sum, l, i) => sum + Math.max(0, l) * lotWeights[i], 0)
+    // Σd, where d is the achieved minus the target weights
+    const covDeviation = covMatrix.map((row) =>
+      row.reduce((sum, v, j) => sum + v * (lots[j] * lotWeights[j] - weights[j]), 0),
+    )
+
+    // Buying a lot of asset i moves d by δ along i, changing dᵀΣd by 2δ(Σd)_i + δ²Σ_ii
+    const bestLot = (): number => {
+      let best = -1
+      let bestChange = 0
+      for (let i = 0; i < n; i++) {
+        if (weights[i] <= 0 || lotWeights[i] > cash + 1e-12) continue
+        const change = 2 * lotWeights[i] * covDeviation[i] + lotWeights[i] ** 2 * covMatrix[i][i]
+        if (change < bestChange - 1e-15) {
+          best = i
+          bestChange = change
+        }
+      }
+      return best
+    }
+    for (let best = bestLot(); best >= 0; best = bestLot()) {
+      lots[best] += 1
+      cash -= lotWeights[best]
+      for (let k = 0; k < n; k++) covDeviation[k] += covMatrix[k][best] * lotWeights[best]
+    }
+
+    const orders = assets.map((asset, i) => {
+      const shares = lots[i] * (asset.lotSize ?? 1)
+      const value = shares * asset.price
+      return {
+        symbol: asset.symbol,
+        lots: lots[i],
+        shares,
+        price: asset.price,
+        value,
+        targetWeight: weights[i],
+        weight: value / capital,
+      }
+    })
+    const deviation = orders.map((order) => order.weight - order.targetWeight)
+    const trackingVariance = deviation.reduce(
+      (sum, d, i) => sum + d * deviation.reduce((inner, e, j) => inner + covMatrix[i][j] * e, 0),
+      0,
+    )
+    const investedValue = orders.reduce((sum, order) => sum + Math.max(0, order.value), 0)
+
+    return {
+      capital,
+      orders,
+      investedValue,
+      shortValue: orders.reduce((sum, order) => sum - Math.min(0, order.value), 0),
+      leftoverCash: capital - investedValue,
+      trackingError: Math.sqrt(Math.max(0, trackingVariance)),
+    }
+  }
+}
@@ -0,0 +1,98 @@
+// Hierarchical Risk Parity (López de Prado, 2016). Assets are clustered by correlation, reordered so
+// similar assets sit next to each other, and capital is split top-down between the halves of that order
+// in inverse proportion to their variance. No covariance inversion is needed, so the weights stay stable
+// when the inputs move.
+
+export interface ClusterNode {
+  height: number // distance at which the two children merge; 0 for a single asset
+  assets: number[] // asset indices in quasi-diagonal (leaf) order
+  children?: [ClusterNode, ClusterNode]
+}
+
+export interface HierarchicalRiskParityResult {
+  weights: number[]
+  order: number[] // quasi-diagonal order of the asset indices
+  root: ClusterNode
+}
+
+export class HierarchicalRiskParity {
+  static allocate(covMatrix: number[][]): HierarchicalRiskParityResult {
+    const root = this.cluster(covMatrix)
+    return { weights: this.recursiveBisection(covMatrix, root.assets), order: root.assets, root }
+  }
+
+  // Single-linkage clustering on the distance between the assets' correlation-distance profiles
+  static cluster(covMatrix: number[][]): ClusterNode {
+    const n = covMatrix.length
+    if (n === 0) {
+      throw new Error("Clustering needs at least one asset")
+    }
+    if (covMatrix.some((row, i) => !(row[i] > 0))) {
+      throw new Error("Hierarchical risk parity needs every asset to have positive volatility")
+    }
+
+    // d_ij = √((1 - ρ_ij) / 2), then the Euclidean distance between columns of d
+    const correlation = covMatrix.map((row, i) => row.map((v, j) => v / Math.sqrt(covMatrix[i][i] * covMatrix[j][j])))
+    const distance = correlation.map((row) => row.map((rho) => Math.sqrt(Math.max(0, (1 - rho) / 2))))
+    const profileDistance = distance.map((_, i) =>
+      distance.map((__, j) => Math.sqrt(distance.reduce((sum, row) => sum + (row[i] - row[j]) ** 2, 0))),
+    )
+
+    let clusters: ClusterNode[] = Array.from({ length: n }, (_, i) => ({ height: 0, assets: [i] }))
+    while (clusters.length > 1) {
+      let best = { a: 0, b: 1, height: Infinity }
+      for (let a = 0; a < clusters.length; a++) {
+        for (let b = a + 1; b < clusters.length; b++) {
+          let height = Infinity
+          for (const i of clusters[a].assets) {
+            for (const j of clusters[b].assets) height = Math.min(height, profileDistance[i][j])
+          }
+          if (height < best.height) best = { a, b, height }
+        }
+      }
+      const left = clusters[best.a]
+      const right = clusters[best.b]
+      const merged: ClusterNode = {
+        height: best.height,
+        assets: [...left.assets, ...right.assets],
+        children: [left, right],
+      }
+      clusters = [...clusters.filter((_, k) => k !== best.a && k !== best.b), merged]
+    }
+    return clusters[0]
+  }
+
+  // Split the ordered assets in halves repeatedly; each half gets capital in inverse proportion to the
+  // variance of its own inverse-variance portfolio
+  static recursiveBisection(covMatrix: number[][], order: number[]): number[] {
+    const weights = Array(covMatrix.length).fill(0)
+    order.forEach((i) => {
+      weights[i] = 1
+    })
+    const queue = [order]
+    while (queue.length > 0) {
+      const items = queue.shift() as number[]
+      if (items.length < 2) continue
+      const left = items.slice(0, Math.floor(items.length / 2))
+      const right = items.slice(left.length)
+      const leftVariance = this.clusterVariance(covMatrix, left)
+      const rightVariance = this.clusterVariance(covMatrix, right)
+      const alpha = 1 - leftVariance / (leftVariance + rightVariance)
+      left.forEach((i) => {
+        weights[i] *= alpha
+      })
+      right.forEach((i) => {
+        weights[i] *= 1 - alpha
+      })
+      queue.push(left, right)
+    }
+    return weights
+  }
+
+  private static clusterVariance(covMatrix: number[][], items: number[]): number {
+    const inverse = items.map((i) => 1 / covMatrix[i][i])
+    const total = inverse.reduce((sum, v) => sum + v, 0)
+    const w = inverse.map((v) => v / total)
+    return items.reduce((sum, i, a) => sum + items.reduce((inner, j, b) => inner + w[a] * w[b] * covMatrix[i][j], 0), 0)
+  }
+}
@@ -1,4 +1,10 @@
-import type { Asset, OptimizationResult } from "./quantum-optimizer"
+import { CONSTRAINT_TOLERANCE, type Asset, type OptimizationResult } from "./quantum-optimizer"
+import { QUBOBuilder, type QUBOModel } from "./qubo"
+import { MAX_QAOA_QUBITS } from "./qaoa-simulator"
+import type { RunManifest } from "./run-manifest"
+import type { BacktestResult } from "./backtester"
+import type { RiskReport } from "./risk-analytics"
+import type { DiscreteAllocation } from "./discrete-allocation"
 
 export interface ExportData {
   portfolio: {
@@ -7,10 +13,20 @@ export interface ExportData {
     assets: Asset[]
     weights?: number[]
     optimizationResult?: OptimizationResult
+    manifest?: RunManifest // how the optimization result was produced
     exportedAt: string
   }
 }
 
+// A QUBO ready for external quantum SDKs, with QAOA angles when a circuit should be emitted too
+export interface QuantumProblem {
+  model: QUBOModel
+  angles?: { gammas: number[]; betas: number[] }
+}
+
+// Separates the values of a price or return history within its CSV cell
+export const HISTORY_SEPARATOR = ";"
+
 export class ImportExportManager {
   // Export portfolio to JSON
   static exportToJSON(
@@ -26,7 +42,9 @@ export class ImportExportManager {
         description,
         assets,
         weights,
-        optimizationResult,
+        // The manifest sits next to the result rather than inside it
+        optimizationResult: optimizationResult && { ...optimizationResult, manifest: undefined },
+        manifest: optimizationResult?.manifest,
         exportedAt: new Date().toISOString(),
       },
     }
@@ -35,36 +53,139 @@ export class ImportExportManager {
   }
 
   // Export portfolio to CSV
-  static exportToCSV(assets: Asset[], weights?: number[], optimizationResult?: OptimizationResult): string {
-    const headers = ["Symbol", "Name", "Expected Return", "Volatility", "Price", "Optimal Weight", "Allocation Value"]
+  static exportToCSV(
+    assets: Asset[],
+    weights?: number[],
+    optimizationResult?: OptimizationResult,
+    risk?: RiskReport,
+    allocation?: DiscreteAllocation,
+  ): string {
+    const headers = [
+      "Symbol",
+      "Name",
+      "Category",
+      "Expected Return",
+      "Volatility",
+      "Price",
+      "Market Cap",
+      "Lot Size",
+      "Return Uncertainty",
+      "Optimal Weight",
+      "Position",
+      "Allocation Value",
+      "Shares",
+      "Order Value",
+      "Price History",
+      "Return History",
+    ]
 
     const rows = assets.map((asset, index) => {
       const weight = weights?.[index] || 0
-      const allocationValue = weight * asset.price
+      // Money only enters with a share allocation, which knows the capital being invested
+      const order = allocation?.orders[index]
       return [
         asset.symbol,
         `"${asset.name}"`, // Wrap in quotes to handle commas
+        asset.category ? `"${asset.category}"` : "",
         asset.expectedReturn.toFixed(4),
         asset.volatility.toFixed(4),
         asset.price.toFixed(2),
+        asset.marketCap !== undefined ? asset.marketCap.toString() : "",
+        asset.lotSize !== undefined ? asset.lotSize.toString() : "",
+        asset.returnUncertainty !== undefined ? asset.returnUncertainty.toFixed(4) : "",
         weight.toFixed(4),
-        allocationValue.toFixed(2),
+        weight < -CONSTRAINT_TOLERANCE ? "Short" : weight > CONSTRAINT_TOLERANCE ? "Long" : "",
+        allocation ? (weight * allocation.capital).toFixed(2) : "",
+        order ? order.shares.toString() : "",
+        order ? order.value.toFixed(2) : "",
+        asset.priceHistory?.join(HISTORY_SEPARATOR) ?? "",
+        asset.returnHistory?.join(HISTORY_SEPARATOR) ?? "",
       ]
     })
 
     // Add portfolio summary if optimization result exists
     if (optimizationResult) {
+      const summaryRow = (label: string, value: string) => [label, value, ...Array(headers.length - 2).fill("")]
       rows.push([])
-      rows.push(["Portfolio Summary", "", "", "", "", "", ""])
-      rows.push(["Expected Return", optimizationResult.expectedReturn.toFixed(4), "", "", "", "", ""])
-      rows.push(["Volatility", optimizationResult.volatility.toFixed(4), "", "", "", "", ""])
-      rows.push(["Sharpe Ratio", optimizationResult.sharpeRatio.toFixed(4), "", "", "", "", ""])
-      rows.push(["Iterations", optimizationResult.iterations.toString(), "", "", "", "", ""])
+      rows.push(summaryRow("Portfolio Summary", ""))
+      rows.push(summaryRow("Expected Return", optimizationResult.expectedReturn.toFixed(4)))
+      rows.push(summaryRow("Volatility", optimizationResult.volatility.toFixed(4)))
+      rows.push(summaryRow("Sharpe Ratio", optimizationResult.sharpeRatio.toFixed(4)))
+      rows.push(summaryRow("Iterations", optimizationResult.iterations.toString()))
+      const { exposure } = optimizationResult
+      if (exposure && (exposure.short > CONSTRAINT_TOLERANCE || Math.abs(exposure.net - 1) > CONSTRAINT_TOLERANCE)) {
+        rows.push(summaryRow("Long Exposure", exposure.long.toFixed(4)))
+        rows.push(summaryRow("Short Exposure", exposure.short.toFixed(4)))
+        rows.push(summaryRow("Gross Exposure", exposure.gross.toFixed(4)))
+        rows.push(summaryRow("Net Exposure", exposure.net.toFixed(4)))
+        rows.push(summaryRow("Borrowing Cost", exposure.borrowingCost.toFixed(4)))
+      }
+      if (risk) {
+        const horizon = `${risk.horizonPeriods}-period`
+        rows.push(summaryRow("Sortino Ratio", risk.sortinoRatio.toFixed(4)))
+        rows.push(summaryRow("Downside Deviation", risk.downsideDeviation.toFixed(4)))
+        if (risk.maxDrawdown !== undefined) {
+          rows.push(summaryRow("Max Drawdown", risk.maxDrawdown.toFixed(4)))
+        }
+        risk.valueAtRisk.forEach((entry) => {
+          const level = `${(entry.confidence * 100).toFixed(1).replace(/\.0$/, "")}%`
+          rows.push(summaryRow(`Parametric VaR ${level} ${horizon}`, entry.parametricVaR.toFixed(4)))
+          rows.push(summaryRow(`Parametric CVaR ${level} ${horizon}`, entry.parametricCVaR.toFixed(4)))
+          if (entry.historicalVaR !== undefined && entry.historicalCVaR !== undefined) {
+            rows.push(summaryRow(`Historical VaR ${level} ${horizon}`, entry.historicalVaR.toFixed(4)))
+            rows.push(summaryRow(`Historical CVaR ${level} ${horizon}`, entry.historicalCVaR.toFixed(4)))
+          }
+        })
+        assets.forEach((asset, index) => {
+          const contribution = risk.riskContributions[index]
+          if (!contribution) return
+          rows.push(summaryRow(`${asset.symbol} Marginal Risk`, contribution.marginal.toFixed(4)))
+          rows.push(summaryRow(`${asset.symbol} Risk Contribution`, contribution.percentage.toFixed(4)))
+        })
+      }
+      if (allocation) {
+        rows.push(summaryRow("Capital", allocation.capital.toFixed(2)))
+        rows.push(summaryRow("Invested", allocation.investedValue.toFixed(2)))
+        if (allocation.shortValue > 0) {
+          rows.push(summaryRow("Short Sales", allocation.shortValue.toFixed(2)))
+        }
+        rows.push(summaryRow("Leftover Cash", allocation.leftoverCash.toFixed(2)))
+        rows.push(summaryRow("Allocation Tracking Error", allocation.trackingError.toFixed(4)))
+      }
     }
 
     return [headers.join(","), ...rows.map((row) => row.join(","))].join("\n")
   }
 
+  // Export the order list of a share allocation
+  static exportOrdersToCSV(allocation: DiscreteAllocation): string {
+    const headers = ["Symbol", "Side", "Lots", "Shares", "Price", "Value", "Target Weight", "Weight"]
+    const rows = allocation.orders
+      .filter((order) => order.shares !== 0)
+      .map((order) => [
+        order.symbol,
+        order.shares > 0 ? "Buy" : "Sell Short",
+        Math.abs(order.lots).toString(),
+        Math.abs(order.shares).toString(),
+        order.price.toFixed(2),
+        Math.abs(order.value).toFixed(2),
+        order.targetWeight.toFixed(4),
+        order.weight.toFixed(4),
+      ])
+
+    const summaryRow = (label: string, value: string) => [label, value, ...Array(headers.length - 2).fill("")]
+    rows.push([])
+    rows.push(summaryRow("Capital", allocation.capital.toFixed(2)))
+    rows.push(summaryRow("Invested", allocation.investedValue.toFixed(2)))
+    if (allocation.shortValue > 0) {
+      rows.push(summaryRow("Short Sales", allocation.shortValue.toFixed(2)))
+    }
+    rows.push(summaryRow("Leftover Cash", allocation.leftoverCash.toFixed(2)))
+    rows.push(summaryRow("Tracking Error", allocation.trackingError.toFixed(4)))
+
+    return [headers.join(","), ...rows.map((row) => row.join(","))].join("\n")
+  }
+
   // Export optimization results to CSV
   static exportOptimizationResultsToCSV(optimizationResult: OptimizationResult): string {
     const headers = ["Iteration", "Sharpe Ratio", "Improvement"]
@@ -77,6 +198,193 @@ export class ImportExportManager {
     return [headers.join(","), ...rows.map((row) => row.join(","))].join("\n")
   }
 
+  // Export a backtest: one row per period of the equity curve, with the target weights on rebalance
+  // periods, followed by a summary of the run
+  static exportBacktestToCSV(backtest: BacktestResult): string {
+    const headers = [
+      "Period",
+      "Years",
+      "Portfolio Value",
+      "Drawdown",
+      "Rebalanced",
+      "Turnover",
+      "Cost",
+      ...backtest.symbols.map((symbol) => `${symbol} Weight`),
+    ]
+    const rebalanceAt = new Map(backtest.rebalances.map((rebalance) => [rebalance.period, rebalance]))
+
+    const rows = backtest.equityCurve.map((point) => {
+      // Trades happen at the start of a period, so they belong with the point that opens it
+      const rebalance = rebalanceAt.get(point.period)
+      return [
+        point.period.toString(),
+        point.time.toFixed(4),
+        point.value.toFixed(2),
+        point.drawdown.toFixed(4),
+        rebalance ? "Yes" : "",
+        rebalance ? rebalance.turnover.toFixed(4) : "",
+        rebalance ? rebalance.cost.toFixed(2) : "",
+        ...backtest.symbols.map((_, i) => (rebalance ? rebalance.weights[i].toFixed(4) : "")),
+      ]
+    })
+
+    const { metrics, schedule, window } = backtest
+    const summaryRow = (label: string, value: string) => [label, value, ...Array(headers.length - 2).fill("")]
+    rows.push([])
+    rows.push(summaryRow("Backtest Summary", ""))
+    rows.push(summaryRow("Solver", `${backtest.solver.name} v${backtest.solver.version}`))
+    rows.push(summaryRow("Schedule", schedule.type === "drift" ? `drift > ${schedule.threshold}` : schedule.type))
+    rows.push(summaryRow("Estimation Window", `${window.type} ${window.length} periods`))
+    rows.push(summaryRow("Cost (bps)", backtest.costBps.toString()))
+    rows.push(summaryRow("Seed", backtest.seed.toString()))
+    rows.push(summaryRow("Total Return", metrics.totalReturn.toFixed(4)))
+    rows.push(summaryRow("CAGR", metrics.cagr.toFixed(4)))
+    rows.push(summaryRow("Volatility", metrics.volatility.toFixed(4)))
+    rows.push(summaryRow("Sharpe Ratio", metrics.sharpeRatio.toFixed(4)))
+    rows.push(summaryRow("Max Drawdown", metrics.maxDrawdown.toFixed(4)))
+    rows.push(summaryRow("Annual Turnover", metrics.annualTurnover.toFixed(4)))
+    rows.push(summaryRow("Total Costs", metrics.totalCosts.toFixed(2)))
+    rows.push(summaryRow("Rebalances", metrics.rebalances.toString()))
+
+    return [headers.join(","), ...rows.map((row) => row.join(","))].join("\n")
+  }
+
+  // Which asset each qubit (QUBO variable) belongs to, so external results can be mapped back
+  private static qubitMap(model: QUBOModel, assets: Asset[]) {
+    return model.variables.map((variable, qubit) => ({
+      qubit,
+      symbol: assets[variable.asset].symbol,
+      units: variable.units,
+      weight: model.encoding === "selection" ? null : variable.units / model.target,
+    }))
+  }
+
+  // Export the QUBO and its Ising form as JSON
+  static exportQUBOToJSON(model: QUBOModel, assets: Asset[]): string {
+    const terms: { i: number; j: number; value: number }[] = []
+    model.matrix.forEach((row, i) =>
+      row.forEach((value, j) => {
+        if (j >= i && value !== 0) terms.push({ i, j, value })
+      }),
+    )
+
+    return JSON.stringify(
+      {
+        encoding: model.encoding,
+        target: model.target,
+        penalty: model.penalty,
+        baseWeights: assets.map((asset, i) => ({
+          symbol: asset.symbol,
+          weight: model.encoding === "selection" ? 0 : model.baseUnits[i] / model.target,
+        })),
+        qubits: this.qubitMap(model, assets),
+        qubo: {
+          convention: "energy = sum over i <= j of Q_ij x_i x_j + offset, x in {0, 1}",
+          offset: model.offset,
+          terms,
+        },
+        ising: {
+          convention: "x = (1 - z) / 2; energy = sum h_i z_i + sum over i < j of J_ij z_i z_j + offset",
+          ...QUBOBuilder.toIsing(model),
+        },
+        exportedAt: new Date().toISOString(),
+      },
+      null,
+      2,
+    )
+  }
+
+  // Export the QUBO in the sparse qbsolv text format: a "p qubo" header, diagonal entries, then couplers
+  static exportQUBOToText(model: QUBOModel, assets: Asset[]): string {
+    const diagonal: string[] = []
+    const couplers: string[] = []
+    model.matrix.forEach((row, i) =>
+      row.forEach((value, j) => {
+        if (j < i || value === 0) return
+        ;(i === j ? diagonal : couplers).push(`${i} ${j} ${value}`)
+      }),
+    )
+
+    return [
+      `c portfolio QUBO, ${model.encoding} encoding, target ${model.target}, penalty ${model.penalty}`,
+      `c constant offset ${model.offset}`,
+      ...this.qubitMap(model, assets).map((q) => `c qubit ${q.qubit} ${q.symbol} units ${q.units}`),
+      `p qubo 0 ${model.variables.length} ${diagonal.length} ${couplers.length}`,
+      ...diagonal,
+      ...couplers,
+    ].join("\n")
+  }
+
+  // Export the QAOA circuit for the selection QUBO as OpenQASM 3. The cost layer uses the same
+  // normalisation as the in-app simulator (feasible energies mapped to [0, 1]), so its angles carry over
+  static exportQAOAToQASM(model: QUBOModel, assets: Asset[], gammas: number[], betas: number[]): string {
+    if (model.encoding !== "selection") {
+      throw new Error("QAOA circuits are only available for the asset selection encoding")
+    }
+    if (model.variables.length > MAX_QAOA_QUBITS) {
+      throw new Error(`QAOA circuits are limited to ${MAX_QAOA_QUBITS} assets`)
+    }
+    if (gammas.length === 0 || gammas.length !== betas.length) {
+      throw new Error("QAOA needs one gamma and one beta per layer")
+    }
+
+    const n = model.variables.length
+    const ising = QUBOBuilder.toIsing(model)
+    const range = this.feasibleEnergyRange(model)
+    const angle = (value: number) => Number(value.toPrecision(12)).toString()
+
+    const lines = [
+      "OPENQASM 3.0;",
+      'include "stdgates.inc";',
+      "",
+      `// QAOA for selecting ${model.target} of ${n} assets, ${gammas.length} layer(s)`,
+      ...this.qubitMap(model, assets).map((q) => `// q[${q.qubit}] -> ${q.symbol}`),
+      "// Measuring 1 on a qubit means its asset is selected",
+      "",
+      `qubit[${n}] q;`,
+      `bit[${n}] c;`,
+      "",
+      "h q;",
+    ]
+    gammas.forEach((gamma, layer) => {
+      const scale = gamma / range
+      lines.push("", `// Layer ${layer + 1}: cost (gamma = ${angle(gamma)})`)
+      ising.h.forEach((h, i) => {
+        if (h !== 0) lines.push(`rz(${angle(2 * scale * h)}) q[${i}];`)
+      })
+      ising.couplings.forEach(({ i, j, value }) => {
+        lines.push(`cx q[${i}], q[${j}];`, `rz(${angle(2 * scale * value)}) q[${j}];`, `cx q[${i}], q[${j}];`)
+      })
+      lines.push(`// Layer ${layer + 1}: mixer (beta = ${angle(betas[layer])})`, `rx(${angle(2 * betas[layer])}) q;`)
+    })
+    lines.push("", "c = measure q;")
+
+    return lines.join("\n")
+  }
+
+  // Spread between the best and worst feasible selection, which the simulator scales to 1
+  private static feasibleEnergyRange(model: QUBOModel): number {
+    const n = model.variables.length
+    let min = Infinity
+    let max = -Infinity
+    const bits = Array(n).fill(0)
+    const visit = (start: number, remaining: number) => {
+      if (remaining === 0) {
+        const energy = QUBOBuilder.energy(model, bits)
+        min = Math.min(min, energy)
+        max = Math.max(max, energy)
+        return
+      }
+      for (let i = start; i <= n - remaining; i++) {
+        bits[i] = 1
+        visit(i + 1, remaining - 1)
+        bits[i] = 0
+      }
+    }
+    visit(0, model.target)
+    return max - min || 1
+  }
+
   // Import from JSON
   static async importFromJSON(file: File): Promise<{
     assets: Asset[]
@@ -106,13 +414,23 @@ export class ImportExportManager {
               expectedReturn: Number(asset.expectedReturn),
               volatility: Number(asset.volatility || 0.2),
               price: Number(asset.price || 100),
+              category: typeof asset.category === "string" && asset.category ? asset.category : undefined,
+              marketCap: typeof asset.marketCap === "number" && asset.marketCap > 0 ? asset.marketCap : undefined,
+              lotSize: Number.isInteger(asset.lotSize) && (asset.lotSize as number) > 0 ? asset.lotSize : undefined,
+              returnUncertainty:
+                typeof asset.returnUncertainty === "number" && asset.returnUncertainty >= 0
+                  ? asset.returnUncertainty
+                  : undefined,
+              priceHistory: this.parseSeries(asset.priceHistory),
+              returnHistory: this.parseSeries(asset.returnHistory),
             }
           })
 
+          const { optimizationResult, manifest } = data.portfolio
           resolve({
             assets,
             weights: data.portfolio.weights,
-            optimizationResult: data.portfolio.optimizationResult,
+            optimizationResult: optimizationResult && { ...optimizationResult, manifest },
             metadata: {
               name: data.portfolio.name,
               description: data.portfolio.description,
@@ -147,9 +465,15 @@ export class ImportExportManager {
           // Find column indices
           const symbolIndex = headers.findIndex((h) => h.includes("symbol"))
           const nameIndex = headers.findIndex((h) => h.includes("name"))
-          const returnIndex = headers.findIndex((h) => h.includes("return"))
+          const returnIndex = headers.findIndex((h) => h.includes("return") && !h.includes("history"))
           const volatilityIndex = headers.findIndex((h) => h.includes("volatility") || h.includes("risk"))
-          const priceIndex = headers.findIndex((h) => h.includes("price"))
+          const priceIndex = headers.findIndex((h) => h.includes("price") && !h.includes("history"))
+          const categoryIndex = headers.findIndex((h) => h.includes("category") || h.includes("sector"))
+          const marketCapIndex = headers.findIndex((h) => h.includes("market cap"))
+          const lotSizeIndex = headers.findIndex((h) => h.includes("lot size"))
+          const uncertaintyIndex = headers.findIndex((h) => h.includes("uncertainty"))
+          const priceHistoryIndex = headers.findIndex((h) => h.includes("price history"))
+          const returnHistoryIndex = headers.findIndex((h) => h.includes("return history"))
 
           if (symbolIndex === -1) {
             throw new Error("CSV must contain a 'Symbol' column")
@@ -165,12 +489,21 @@ export class ImportExportManager {
             const symbol = values[symbolIndex]?.trim()
             if (!symbol) continue
 
+            // Blank means the optimizer estimates it; zero is a valid uncertainty
+            const uncertainty = uncertaintyIndex >= 0 ? Number.parseFloat(values[uncertaintyIndex]) : Number.NaN
+
             const asset: Asset = {
               symbol: symbol.toUpperCase(),
               name: nameIndex >= 0 ? values[nameIndex]?.replace(/"/g, "").trim() || symbol : symbol,
               expectedReturn: returnIndex >= 0 ? Number.parseFloat(values[returnIndex]) || 0.1 : 0.1,
               volatility: volatilityIndex >= 0 ? Number.parseFloat(values[volatilityIndex]) || 0.2 : 0.2,
               price: priceIndex >= 0 ? Number.parseFloat(values[priceIndex]) || 100 : 100,
+              category: categoryIndex >= 0 ? values[categoryIndex]?.replace(/"/g, "").trim() || undefined : undefined,
+              marketCap: marketCapIndex >= 0 ? Number.parseFloat(values[marketCapIndex]) || undefined : undefined,
+              lotSize: lotSizeIndex >= 0 ? Number.parseInt(values[lotSizeIndex]) || undefined : undefined,
+              returnUncertainty: uncertainty >= 0 ? uncertainty : undefined,
+              priceHistory: priceHistoryIndex >= 0 ? this.parseSeriesCell(values[priceHistoryIndex]) : undefined,
+              returnHistory: returnHistoryIndex >= 0 ? this.parseSeriesCell(values[returnHistoryIndex]) : undefined,
             }
 
             // Validate asset data
@@ -196,6 +529,18 @@ export class ImportExportManager {
     })
   }
 
+  // Keep a history series only if it is an array of finite numbers
+  private static parseSeries(series: unknown): number[] | undefined {
+    if (!Array.isArray(series)) return undefined
+    const values = series.map(Number)
+    return values.every((v) => Number.isFinite(v)) ? values : undefined
+  }
+
+  // A history series in one CSV cell, its values separated by HISTORY_SEPARATOR
+  private static parseSeriesCell(cell: string | undefined): number[] | undefined {
+    return cell?.trim() ? this.parseSeries(cell.split(HISTORY_SEPARATOR)) : undefined
+  }
+
   // Helper to parse CSV line handling quoted values
   private static parseCSVLine(line: string): string[] {
     const result: string[] = []
@@ -0,0 +1,238 @@
+// Monte Carlo simulation of portfolio value. Asset returns are drawn jointly from a multivariate
+// normal (or a multivariate Student-t with the same covariance, for fat tails) through the
+// Cholesky factor of the covariance matrix, compounded as geometric Brownian motion per asset, and
+// the portfolio is rebalanced back to its weights every step.
+
+import { createRandom, randomSeed, type RandomSource } from "./random"
+
+export type ReturnDistribution = "normal" | "student-t"
+
+export const returnDistributions: { value: ReturnDistribution; label: string; description: string }[] = [
+  { value: "normal", label: "Normal", description: "Multivariate normal shocks" },
+  {
+    value: "student-t",
+    label: "Student-t",
+    description: "Fat-tailed shocks with the same covariance; fewer degrees of freedom mean heavier tails",
+  },
+]
+
+export const DEFAULT_PERCENTILES = [5, 25, 50, 75, 95]
+
+export interface SimulationOptions {
+  horizonYears?: number
+  stepsPerYear?: number // 12 simulates monthly steps
+  initialCapital?: number
+  paths?: number
+  distribution?: ReturnDistribution
+  degreesOfFreedom?: number // Student-t only, above 2 so the variance exists
+  riskFreeRate?: number // earned on (or, when levered, paid for) the part of capital not invested
+  percentiles?: number[] // bands to report, in percent
+  histogramBins?: number
+  seed?: number
+}
+
+export interface SimulationBand {
+  time: number // years from today
+  values: number[] // portfolio value at each requested percentile
+  mean: number
+}
+
+export interface SimulationResult {
+  percentiles: number[]
+  bands: SimulationBand[]
+  initialCapital: number
+  horizonYears: number
+  paths: number
+  distribution: ReturnDistribution
+  degreesOfFreedom?: number
+  probabilityOfLoss: number // share of paths ending below the initial capital
+  expectedTerminalWealth: number
+  medianTerminalWealth: number
+  terminalHistogram: { from: number; to: number; probability: number }[]
+  seed: number
+}
+
+export const MAX_SIMULATION_PATHS = 20000
+
+export class MonteCarloSimulator {
+  // Lower-triangular L with LL' = matrix. Semidefinite matrices are handled by zeroing the columns
+  // of pivots that vanish, which reproduces the same covariance.
+  static cholesky(matrix: number[][]): number[][] {
+    const n = matrix.length
+    const scale = Math.max(...matrix.map((row, i) => Math.abs(row[i])), 1e-300)
+    const lower = matrix.map(() => Array(n).fill(0))
+    for (let j = 0; j < n; j++) {
+      let pivot = matrix[j][j]
+      for (let k = 0; k < j; k++) pivot -= lower[j][k] * lower[j][k]
+      if (pivot <= 1e-12 * scale) continue
+      lower[j][j] = Math.sqrt(pivot)
+      for (let i = j + 1; i < n; i++) {
+        let sum = matrix[i][j]
+        for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k]
+        lower[i][j] = sum / lower[j][j]
+      }
+    }
+    return lower
+  }
+
+  static simulate(
+    weights: number[],
+    expectedReturns: number[],
+    covMatrix: number[][],
+    options: SimulationOptions = {},
+  ): SimulationResult {
+    const n = weights.length
+    const horizonYears = options.horizonYears ?? 10
+    const stepsPerYear = options.stepsPerYear ?? 12
+    const initialCapital = options.initialCapital ?? 100000
+    const paths = options.paths ?? 2000
+    const distribution = options.distribution ?? "normal"
+    const degreesOfFreedom = options.degreesOfFreedom ?? 5
+    const riskFreeRate = options.riskFreeRate ?? 0
+    const percentiles = options.percentiles ?? DEFAULT_PERCENTILES
+    const histogramBins = options.histogramBins ?? 30
+    const seed = options.seed ?? randomSeed()
+
+    if (!(horizonYears > 0)) {
+      throw new Error("Simulation horizon must be positive")
+    }
+    if (!(initialCapital > 0)) {
+      throw new Error("Initial capital must be positive")
+    }
+    if (!Number.isInteger(paths) || paths < 1 || paths > MAX_SIMULATION_PATHS) {
+      throw new Error(`Number of paths must be a whole number between 1 and ${MAX_SIMULATION_PATHS}`)
+    }
+    if (!Number.isInteger(stepsPerYear) || stepsPerYear < 1) {
+      throw new Error("Steps per year must be a positive whole number")
+    }
+    if (distribution === "student-t" && !(degreesOfFreedom > 2)) {
+      throw new Error("Student-t shocks need more than 2 degrees of freedom")
+    }
+
+    const steps = Math.max(1, Math.round(horizonYears * stepsPerYear))
+    const dt = horizonYears / steps
+    const sqrtDt = Math.sqrt(dt)
+    const lower = this.cholesky(covMatrix)
+    // Itô drift correction so each asset's expected growth matches its expected return
+    const drift = expectedReturns.map((mu, i) => (mu - covMatrix[i][i] / 2) * dt)
+    const cash = 1 - weights.reduce((sum, w) => sum + w, 0)
+    const random = createRandom(seed)
+    const normal = this.normalSampler(random)
+
+    // wealth[step][path]
+    const wealth = Array.from({ length: steps + 1 }, () => new Float64Array(paths))
+    wealth[0].fill(initialCapital)
+    const shocks = new Float64Array(n)
+
+    for (let path = 0; path < paths; path++) {
+      let value = initialCapital
+      for (let step = 1; step <= steps; step++) {
+        for (let i = 0; i < n; i++) shocks[i] = normal()
+        // A shared chi-square draw turns the normal vector into a multivariate t, scaled to unit variance
+        const tailScale =
+          distribution === "student-t"
+            ? Math.sqrt((degreesOfFreedom - 2) / this.chiSquare(degreesOfFreedom, random, normal))
+            : 1
+
+        let growth = 1 + cash * riskFreeRate * dt
+        for (let i = 0; i < n; i++) {
+          if (weights[i] === 0) continue
+          let shock = 0
+          for (let k = 0; k <= i; k++) shock += lower[i][k] * shocks[k]
+          growth += weights[i] * (Math.exp(drift[i] + sqrtDt * tailScale * shock) - 1)
+        }
+        // Leveraged or short portfolios can lose everything; nothing is left to compound after that
+        value = Math.max(0, value * growth)
+        wealth[step][path] = value
+      }
+    }
+
+    const bands = wealth.map((values, step) => {
+      const sorted = Array.from(values).sort((a, b) => a - b)
+      return {
+        time: step * dt,
+        values: percentiles.map((p) => this.quantile(sorted, p / 100)),
+        mean: sorted.reduce((sum, v) => sum + v, 0) / paths,
+      }
+    })
+
+    const terminal = Array.from(wealth[steps]).sort((a, b) => a - b)
+    const losses = terminal.filter((v) => v < initialCapital).length
+
+    return {
+      percentiles,
+      bands,
+      initialCapital,
+      horizonYears,
+      paths,
+      distribution,
+      degreesOfFreedom: distribution === "student-t" ? degreesOfFreedom : undefined,
+      probabilityOfLoss: losses / paths,
+      expectedTerminalWealth: bands[steps].mean,
+      medianTerminalWealth: this.quantile(terminal, 0.5),
+      terminalHistogram: this.histogram(terminal, histogramBins),
+      seed,
+    }
+  }
+
+  // Linear interpolation between order statistics of a sorted sample
+  static quantile(sorted: ArrayLike<number>, q: number): number {
+    const position = (sorted.length - 1) * Math.min(1, Math.max(0, q))
+    const below = Math.floor(position)
+    const above = Math.min(sorted.length - 1, below + 1)
+    return sorted[below] + (sorted[above] - sorted[below]) * (position - below)
+  }
+
+  private static histogram(sorted: number[], bins: number): SimulationResult["terminalHistogram"] {
+    const min = sorted[0]
+    const max = sorted[sorted.length - 1]
+    const width = (max - min) / bins || 1
+    const counts = Array(bins).fill(0)
+    sorted.forEach((v) => counts[Math.min(bins - 1, Math.floor((v - min) / width))]++)
+    return counts.map((count, b) => ({
+      from: min + b * width,
+      to: min + (b + 1) * width,
+      probability: count / sorted.length,
+    }))
+  }
+
+  // Box-Muller, keeping the second variate for the next call
+  static normalSampler(random: RandomSource): () => number {
+    let spare: number | null = null
+    return () => {
+      if (spare !== null) {
+        const value = spare
+        spare = null
+        return value
+      }
+      const u = 1 - random() // (0, 1] so the logarithm stays finite
+      const radius = Math.sqrt(-2 * Math.log(u))
+      const angle = 2 * Math.PI * random()
+      spare = radius * Math.sin(angle)
+      return radius * Math.cos(angle)
+    }
+  }
+
+  // χ²(ν) = 2 Gamma(ν / 2), sampled with Marsaglia and Tsang's method
+  private static chiSquare(degreesOfFreedom: number, random: RandomSource, normal: () => number): number {
+    const shape = degreesOfFreedom / 2
+    // Boost shapes below 1 and correct with a uniform power
+    const boosted = shape < 1 ? shape + 1 : shape
+    const d = boosted - 1 / 3
+    const c = 1 / Math.sqrt(9 * d)
+    for (;;) {
+      let x: number
+      let v: number
+      do {
+        x = normal()
+        v = 1 + c * x
+      } while (v <= 0)
+      v = v * v * v
+      const u = random()
+      if (u < 1 - 0.0331 * x * x * x * x || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+        const gamma = d * v * (shape < 1 ? Math.pow(random(), 1 / shape) : 1)
+        return 2 * gamma
+      }
+    }
+  }
+}
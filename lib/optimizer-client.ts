@@ -0,0 +1,184 @@
+// Main-thread front end for the optimizer worker, with the same async methods as QuantumPortfolioOptimizer.
+// The solvers are synchronous, so cancelling a run terminates the worker; the next run starts a fresh one.
+
+import type {
+  AnnealingOptimizationResult,
+  AnnealingPortfolioOptions,
+  Asset,
+  EfficientFrontierPoint,
+  OptimizationObjective,
+  OptimizationResult,
+  PortfolioConstraints,
+  QAOAOptimizationResult,
+  RebalanceOptions,
+} from "./quantum-optimizer"
+import type { QAOAOptions } from "./qaoa-simulator"
+import type { RobustOptions } from "./robust-optimizer"
+import type { CovarianceEstimator } from "./risk-model"
+import type { OptimizerRequest, OptimizerResponse, OptimizerTask } from "./optimizer-worker"
+import type { SolveRequest } from "./solver-registry"
+import type { RunManifest } from "./run-manifest"
+import type { SimulationOptions, SimulationResult } from "./monte-carlo"
+import type { BacktestOptions, BacktestResult } from "./backtester"
+
+export interface RunOptions {
+  signal?: AbortSignal
+  onProgress?: (convergenceData: number[]) => void // the trace so far, growing as the solver runs
+}
+
+function abortError(): DOMException {
+  return new DOMException("Optimization cancelled", "AbortError")
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError"
+}
+
+export class OptimizerClient {
+  private worker: Worker | null = null
+  private nextId = 0
+  private pending = new Map<number, (error: Error) => void>()
+  private covarianceEstimator: CovarianceEstimator = "sample"
+
+  setCovarianceEstimator(estimator: CovarianceEstimator): void {
+    this.covarianceEstimator = estimator
+  }
+
+  // Run a registered solver by name; the result records the solver's name and version
+  solve(solver: string, request: SolveRequest, options: RunOptions = {}): Promise<OptimizationResult> {
+    return this.run({ kind: "solve", solver, request }, options)
+  }
+
+  // Re-run a recorded run with its own seed, covariance estimator and settings
+  replay(manifest: RunManifest, options: RunOptions = {}): Promise<OptimizationResult> {
+    return this.run({ kind: "replay", manifest }, options)
+  }
+
+  optimizePortfolio(
+    assets: Asset[],
+    constraints: PortfolioConstraints = {},
+    objective: OptimizationObjective = { type: "max-sharpe" },
+    options: RunOptions = {},
+  ): Promise<OptimizationResult> {
+    return this.solve("gradient", { assets, constraints, objective }, options)
+  }
+
+  rebalancePortfolio(
+    assets: Asset[],
+    constraints: PortfolioConstraints,
+    rebalance: RebalanceOptions,
+    options: RunOptions = {},
+  ): Promise<OptimizationResult> {
+    return this.solve("gradient", { assets, constraints, rebalance }, options)
+  }
+
+  optimizeRobust(
+    assets: Asset[],
+    constraints: PortfolioConstraints,
+    robust: RobustOptions,
+    options: RunOptions = {},
+  ): Promise<OptimizationResult> {
+    return this.solve("gradient", { assets, constraints, robust }, options)
+  }
+
+  optimizeWithQAOA(assets: Asset[], qaoa: QAOAOptions, options: RunOptions = {}): Promise<QAOAOptimizationResult> {
+    return this.solve("qaoa-simulator", { assets, qaoa }, options) as Promise<QAOAOptimizationResult>
+  }
+
+  optimizeWithAnnealing(
+    assets: Asset[],
+    annealing: AnnealingPortfolioOptions,
+    options: RunOptions = {},
+  ): Promise<AnnealingOptimizationResult> {
+    return this.solve("annealing", { assets, annealing }, options) as Promise<AnnealingOptimizationResult>
+  }
+
+  computeEfficientFrontier(
+    assets: Asset[],
+    constraints: PortfolioConstraints = {},
+    points = 20,
+    options: RunOptions = {},
+  ): Promise<EfficientFrontierPoint[]> {
+    return this.run({ kind: "frontier", assets, constraints, points }, options)
+  }
+
+  simulatePortfolio(
+    assets: Asset[],
+    weights: number[],
+    simulation: SimulationOptions = {},
+    options: RunOptions = {},
+  ): Promise<SimulationResult> {
+    return this.run({ kind: "simulate", assets, weights, options: simulation }, options)
+  }
+
+  // Progress values are the fraction of the history processed, from 0 to 1
+  backtest(assets: Asset[], backtest: BacktestOptions, options: RunOptions = {}): Promise<BacktestResult> {
+    return this.run({ kind: "backtest", assets, options: backtest }, options)
+  }
+
+  // Stop the worker, rejecting every run still in flight
+  terminate(): void {
+    this.worker?.terminate()
+    this.worker = null
+    const rejections = Array.from(this.pending.values())
+    this.pending.clear()
+    rejections.forEach((reject) => reject(abortError()))
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL("./optimizer-worker.ts", import.meta.url))
+    }
+    return this.worker
+  }
+
+  private run<T>(task: OptimizerTask, { signal, onProgress }: RunOptions): Promise<T> {
+    if (signal?.aborted) return Promise.reject(abortError())
+
+    const worker = this.getWorker()
+    const id = ++this.nextId
+    const convergenceData: number[] = []
+
+    return new Promise<T>((resolve, reject) => {
+      const settle = () => {
+        this.pending.delete(id)
+        worker.removeEventListener("message", onMessage)
+        worker.removeEventListener("error", onError)
+        signal?.removeEventListener("abort", onAbort)
+      }
+      const onMessage = (event: MessageEvent<OptimizerResponse>) => {
+        const message = event.data
+        if (message.id !== id) return
+        if (message.type === "progress") {
+          convergenceData.push(...message.values)
+          onProgress?.([...convergenceData])
+          return
+        }
+        settle()
+        if (message.type === "result") resolve(message.result as T)
+        else reject(new Error(message.message))
+      }
+      const onError = (event: ErrorEvent) => {
+        settle()
+        this.terminate()
+        reject(new Error(event.message || "The optimizer worker failed"))
+      }
+      const onAbort = () => {
+        settle()
+        reject(abortError())
+        this.terminate()
+      }
+
+      this.pending.set(id, (error) => {
+        settle()
+        reject(error)
+      })
+      worker.addEventListener("message", onMessage)
+      worker.addEventListener("error", onError)
+      signal?.addEventListener("abort", onAbort)
+
+      const request: OptimizerRequest = { id, covarianceEstimator: this.covarianceEstimator, task }
+      worker.postMessage(request)
+    })
+  }
+}
@@ -0,0 +1,81 @@
+// Web Worker entry point: runs QuantumPortfolioOptimizer off the main thread. Every request carries
+// an id; values recorded in the convergence trace stream back in batches while the solver runs,
+// followed by exactly one result or error message.
+
+import { QuantumPortfolioOptimizer, type Asset, type PortfolioConstraints } from "./quantum-optimizer"
+import { solverRegistry, type SolveRequest } from "./solver-registry"
+import type { RunManifest } from "./run-manifest"
+import type { CovarianceEstimator } from "./risk-model"
+import type { SimulationOptions } from "./monte-carlo"
+import { Backtester, type BacktestOptions } from "./backtester"
+
+export type OptimizerTask =
+  | { kind: "solve"; solver: string; request: SolveRequest }
+  | { kind: "replay"; manifest: RunManifest }
+  | { kind: "frontier"; assets: Asset[]; constraints: PortfolioConstraints; points: number }
+  | { kind: "simulate"; assets: Asset[]; weights: number[]; options: SimulationOptions }
+  | { kind: "backtest"; assets: Asset[]; options: BacktestOptions }
+
+export interface OptimizerRequest {
+  id: number
+  covarianceEstimator: CovarianceEstimator
+  task: OptimizerTask
+}
+
+export type OptimizerResponse =
+  | { id: number; type: "progress"; values: number[] }
+  | { id: number; type: "result"; result: unknown }
+  | { id: number; type: "error"; message: string }
+
+// Progress is flushed at most this often so fast solvers do not flood the main thread with messages
+const PROGRESS_INTERVAL_MS = 50
+
+const optimizer = new QuantumPortfolioOptimizer()
+
+// Backtests report the fraction of history processed instead of the traces of their many inner solves
+function runTask(task: OptimizerTask, report: (value: number) => void): unknown {
+  switch (task.kind) {
+    case "solve":
+      return solverRegistry.solve(task.solver, optimizer, task.request)
+    case "replay":
+      return solverRegistry.replay(task.manifest, optimizer)
+    case "frontier":
+      return optimizer.computeEfficientFrontier(task.assets, task.constraints, task.points)
+    case "simulate":
+      return optimizer.simulatePortfolio(task.assets, task.weights, task.options)
+    case "backtest":
+      optimizer.setProgressListener(undefined)
+      return new Backtester(optimizer, solverRegistry).run(task.assets, task.options, report)
+  }
+}
+
+self.onmessage = async (event: MessageEvent<OptimizerRequest>) => {
+  const { id, covarianceEstimator, task } = event.data
+  const post = (response: OptimizerResponse) => self.postMessage(response)
+
+  let pending: number[] = []
+  let lastFlush = Date.now()
+  const flush = () => {
+    if (pending.length > 0) post({ id, type: "progress", values: pending })
+    pending = []
+    lastFlush = Date.now()
+  }
+
+  const report = (value: number) => {
+    pending.push(value)
+    if (Date.now() - lastFlush >= PROGRESS_INTERVAL_MS) flush()
+  }
+
+  optimizer.setCovarianceEstimator(covarianceEstimator)
+  optimizer.setProgressListener(report)
+  try {
+    const result = await runTask(task, report)
+    flush()
+    post({ id, type: "result", result })
+  } catch (error) {
+    flush()
+    post({ id, type: "error", message: error instanceof Error ? error.message : "Optimization failed" })
+  } finally {
+    optimizer.setProgressListener(undefined)
+  }
+}
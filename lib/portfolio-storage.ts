@@ -1,4 +1,5 @@
 import type { Asset } from "./quantum-optimizer"
+import type { BlackLittermanView } from "./black-litterman"
 
 export interface SavedPortfolio {
   id: string
@@ -6,6 +7,7 @@ export interface SavedPortfolio {
   description?: string
   assets: Asset[]
   weights?: number[]
+  views?: BlackLittermanView[] // Black-Litterman views on the assets
   createdAt: Date
   updatedAt: Date
   tags?: string[]
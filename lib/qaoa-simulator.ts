@@ -0,0 +1,319 @@
+// Statevector simulation of the Quantum Approximate Optimization Algorithm (QAOA)
+// for selecting K of N assets. Qubit i encodes whether asset i is held.
+
+export const MAX_QAOA_QUBITS = 16
+
+export interface QAOAOptions {
+  numAssets: number // K, the number of assets to select
+  layers?: number // p, the circuit depth
+  riskAversion?: number // q in q * risk - (1 - q) * return
+  penalty?: number // weight of the (sum(x) - K)^2 budget penalty
+  maxIterations?: number // outer-loop (Nelder-Mead) iterations
+  topBitstrings?: number // how many of the most probable bitstrings to return, and feasible ones to read out
+}
+
+export interface QAOABitstring {
+  bitstring: string // character i is "1" when asset i is selected
+  probability: number
+  cost: number
+  selectedIndices: number[]
+  feasible: boolean
+}
+
+export interface QAOASimulationResult {
+  gammas: number[]
+  betas: number[]
+  expectedCost: number
+  energyHistory: number[]
+  bestFeasible: QAOABitstring // lowest cost among the most probable feasible bitstrings
+  mostLikely: QAOABitstring // most probable feasible bitstring
+  topBitstrings: QAOABitstring[]
+  evaluations: number
+}
+
+export class QAOASimulator {
+  private n: number
+  private k: number
+  private layers: number
+  private maxIterations: number
+  private topBitstrings: number
+  private costs: Float64Array // raw cost of each basis state
+  private scaledCosts: Float64Array // feasible costs mapped to [0, 1] so angles are scale-free
+  private evaluations = 0
+
+  constructor(expectedReturns: number[], covMatrix: number[][], options: QAOAOptions) {
+    this.n = expectedReturns.length
+    this.k = options.numAssets
+    this.layers = options.layers ?? 2
+    this.maxIterations = options.maxIterations ?? 100
+    this.topBitstrings = options.topBitstrings ?? 8
+
+    if (this.n > MAX_QAOA_QUBITS) {
+      throw new Error(`QAOA simulation supports at most ${MAX_QAOA_QUBITS} assets`)
+    }
+    if (!Number.isInteger(this.k) || this.k < 1 || this.k > this.n) {
+      throw new Error(`Number of assets to select must be between 1 and ${this.n}`)
+    }
+    if (!Number.isInteger(this.layers) || this.layers < 1) {
+      throw new Error("QAOA requires at least one layer")
+    }
+
+    const riskAversion = options.riskAversion ?? 0.5
+    const penalty = options.penalty ?? this.defaultPenalty(expectedReturns, covMatrix, riskAversion)
+    this.costs = this.buildCostDiagonal(expectedReturns, covMatrix, riskAversion, penalty)
+
+    // Scale by the spread of feasible costs: normalising by the full range would let the
+    // penalty swamp the differences between the portfolios we actually care about
+    let min = Infinity
+    let max = -Infinity
+    this.costs.forEach((c, z) => {
+      if (this.popCount(z) !== this.k) return
+      if (c < min) min = c
+      if (c > max) max = c
+    })
+    const range = max - min || 1
+    this.scaledCosts = this.costs.map((c) => (c - min) / range)
+  }
+
+  // The cost Hamiltonian is diagonal in the computational basis, so we only need
+  // C(z) = q * z'Σz - (1 - q) * μ'z + A * (|z| - K)^2 for every bitstring z.
+  private buildCostDiagonal(
+    expectedReturns: number[],
+    covMatrix: number[][],
+    riskAversion: number,
+    penalty: number,
+  ): Float64Array {
+    const dim = 1 << this.n
+    const costs = new Float64Array(dim)
+
+    for (let z = 0; z < dim; z++) {
+      let risk = 0
+      let ret = 0
+      let count = 0
+      for (let i = 0; i < this.n; i++) {
+        if (!(z & (1 << i))) continue
+        count++
+        ret += expectedReturns[i]
+        for (let j = 0; j < this.n; j++) {
+          if (z & (1 << j)) risk += covMatrix[i][j]
+        }
+      }
+      costs[z] = riskAversion * risk - (1 - riskAversion) * ret + penalty * Math.pow(count - this.k, 2)
+    }
+
+    return costs
+  }
+
+  // Adding or dropping one asset can change the objective by at most the largest marginal
+  // contribution, so a penalty of that size keeps every infeasible state above its neighbours
+  private defaultPenalty(expectedReturns: number[], covMatrix: number[][], riskAversion: number): number {
+    let maxMarginal = 0
+    for (let i = 0; i < this.n; i++) {
+      const risk = covMatrix[i].reduce((sum, v, j) => sum + (i === j ? v : 2 * Math.abs(v)), 0)
+      maxMarginal = Math.max(maxMarginal, riskAversion * risk + (1 - riskAversion) * Math.abs(expectedReturns[i]))
+    }
+    return Math.max(1e-3, maxMarginal)
+  }
+
+  // Prepare |+>^n and apply p alternating cost and mixer layers
+  simulate(gammas: number[], betas: number[]): { re: Float64Array; im: Float64Array } {
+    const dim = 1 << this.n
+    const re = new Float64Array(dim).fill(1 / Math.sqrt(dim))
+    const im = new Float64Array(dim)
+
+    for (let layer = 0; layer < gammas.length; layer++) {
+      this.applyCostLayer(re, im, gammas[layer])
+      this.applyMixerLayer(re, im, betas[layer])
+    }
+
+    return { re, im }
+  }
+
+  // exp(-i γ C) multiplies each amplitude by a phase
+  private applyCostLayer(re: Float64Array, im: Float64Array, gamma: number): void {
+    for (let z = 0; z < re.length; z++) {
+      const phase = -gamma * this.scaledCosts[z]
+      const cos = Math.cos(phase)
+      const sin = Math.sin(phase)
+      const r = re[z]
+      const i = im[z]
+      re[z] = r * cos - i * sin
+      im[z] = r * sin + i * cos
+    }
+  }
+
+  // exp(-i β Σ X_j) factorises into an RX(2β) rotation on every qubit
+  private applyMixerLayer(re: Float64Array, im: Float64Array, beta: number): void {
+    const cos = Math.cos(beta)
+    const sin = Math.sin(beta)
+
+    for (let qubit = 0; qubit < this.n; qubit++) {
+      const bit = 1 << qubit
+      for (let z = 0; z < re.length; z++) {
+        if (z & bit) continue
+        const z1 = z | bit
+        const r0 = re[z]
+        const i0 = im[z]
+        const r1 = re[z1]
+        const i1 = im[z1]
+        re[z] = cos * r0 + sin * i1
+        im[z] = cos * i0 - sin * r1
+        re[z1] = cos * r1 + sin * i0
+        im[z1] = cos * i1 - sin * r0
+      }
+    }
+  }
+
+  // <ψ(γ, β)| C |ψ(γ, β)> using the scaled cost
+  private expectation(params: number[]): number {
+    this.evaluations++
+    const { re, im } = this.simulate(params.slice(0, this.layers), params.slice(this.layers))
+    let energy = 0
+    for (let z = 0; z < re.length; z++) {
+      energy += (re[z] * re[z] + im[z] * im[z]) * this.scaledCosts[z]
+    }
+    return energy
+  }
+
+  // Classical outer loop: Nelder-Mead over the 2p circuit angles
+  private minimize(initial: number[], history: number[]): number[] {
+    const dim = initial.length
+    const step = 0.25
+    let simplex = [initial, ...initial.map((_, i) => initial.map((v, j) => (i === j ? v + step : v)))]
+    let values = simplex.map((point) => this.expectation(point))
+
+    for (let iteration = 0; iteration < this.maxIterations; iteration++) {
+      const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b])
+      simplex = order.map((i) => simplex[i])
+      values = order.map((i) => values[i])
+      history.push(values[0])
+
+      if (Math.abs(values[dim] - values[0]) < 1e-8) break
+
+      const centroid = Array(dim).fill(0)
+      for (let i = 0; i < dim; i++) {
+        for (let j = 0; j < dim; j++) centroid[j] += simplex[i][j] / dim
+      }
+      const worst = simplex[dim]
+      const along = (t: number) => centroid.map((c, j) => c + t * (worst[j] - c))
+
+      const reflected = along(-1)
+      const reflectedValue = this.expectation(reflected)
+
+      if (reflectedValue < values[0]) {
+        const expanded = along(-2)
+        const expandedValue = this.expectation(expanded)
+        if (expandedValue < reflectedValue) {
+          simplex[dim] = expanded
+          values[dim] = expandedValue
+        } else {
+          simplex[dim] = reflected
+          values[dim] = reflectedValue
+        }
+      } else if (reflectedValue < values[dim - 1]) {
+        simplex[dim] = reflected
+        values[dim] = reflectedValue
+      } else {
+        const contracted = reflectedValue < values[dim] ? along(-0.5) : along(0.5)
+        const contractedValue = this.expectation(contracted)
+        if (contractedValue < Math.min(reflectedValue, values[dim])) {
+          simplex[dim] = contracted
+          values[dim] = contractedValue
+        } else {
+          // Shrink towards the best vertex
+          for (let i = 1; i <= dim; i++) {
+            simplex[i] = simplex[i].map((v, j) => simplex[0][j] + 0.5 * (v - simplex[0][j]))
+            values[i] = this.expectation(simplex[i])
+          }
+        }
+      }
+    }
+
+    const bestIndex = values.indexOf(Math.min(...values))
+    return simplex[bestIndex]
+  }
+
+  private describe(z: number, probability: number): QAOABitstring {
+    const selectedIndices: number[] = []
+    let bitstring = ""
+    for (let i = 0; i < this.n; i++) {
+      const selected = (z & (1 << i)) !== 0
+      bitstring += selected ? "1" : "0"
+      if (selected) selectedIndices.push(i)
+    }
+    return {
+      bitstring,
+      probability,
+      cost: this.costs[z],
+      selectedIndices,
+      feasible: selectedIndices.length === this.k,
+    }
+  }
+
+  // Tune the angles and sample the final state exactly
+  run(): QAOASimulationResult {
+    this.evaluations = 0
+    const history: number[] = []
+
+    // Linear-ramp initialisations, reminiscent of a discretised adiabatic schedule, restarted at
+    // several time scales because the QAOA energy landscape is full of local minima
+    let params: number[] = []
+    let bestEnergy = Infinity
+    for (const scale of [0.25, 0.5, 1, 2]) {
+      const initial = [
+        ...Array.from({ length: this.layers }, (_, i) => ((i + 1) / this.layers) * Math.PI * scale),
+        ...Array.from({ length: this.layers }, (_, i) => (1 - i / this.layers) * Math.PI * 0.25),
+      ]
+      const restartHistory: number[] = []
+      const candidate = this.minimize(initial, restartHistory)
+      const energy = this.expectation(candidate)
+      if (energy < bestEnergy) {
+        bestEnergy = energy
+        params = candidate
+        history.splice(0, history.length, ...restartHistory)
+      }
+    }
+    const gammas = params.slice(0, this.layers)
+    const betas = params.slice(this.layers)
+
+    const { re, im } = this.simulate(gammas, betas)
+    const probabilities = re.map((r, z) => r * r + im[z] * im[z])
+
+    let expectedCost = 0
+    for (let z = 0; z < probabilities.length; z++) expectedCost += probabilities[z] * this.costs[z]
+
+    // Read out like a sampled device: keep the most probable feasible outcomes and report the cheapest,
+    // since the most probable one alone can be the worst selection when the circuit is shallow
+    const feasible = Array.from(probabilities.keys())
+      .filter((z) => this.popCount(z) === this.k)
+      .sort((a, b) => probabilities[b] - probabilities[a])
+    const bestFeasibleIndex = feasible
+      .slice(0, this.topBitstrings)
+      .reduce((best, z) => (this.costs[z] < this.costs[best] ? z : best), feasible[0])
+
+    const topBitstrings = Array.from(probabilities.keys())
+      .sort((a, b) => probabilities[b] - probabilities[a])
+      .slice(0, this.topBitstrings)
+      .map((z) => this.describe(z, probabilities[z]))
+
+    return {
+      gammas,
+      betas,
+      expectedCost,
+      energyHistory: history,
+      bestFeasible: this.describe(bestFeasibleIndex, probabilities[bestFeasibleIndex]),
+      mostLikely: this.describe(feasible[0], probabilities[feasible[0]]),
+      topBitstrings,
+      evaluations: this.evaluations,
+    }
+  }
+
+  private popCount(z: number): number {
+    let count = 0
+    while (z) {
+      z &= z - 1
+      count++
+    }
+    return count
+  }
+}
@@ -1,9 +1,49 @@
+import { QAOASimulator, type QAOAOptions } from "./qaoa-simulator"
+import { RiskModel, type CovarianceEstimator } from "./risk-model"
+import { ConstrainedSolver, type TradingCosts, type WeightBounds } from "./constrained-solver"
+import { BranchAndBound } from "./branch-and-bound"
+import { QUBOBuilder, type QUBOEncoding, type QUBOModel, type QUBOOptions } from "./qubo"
+import { AnnealingSolver, type AnnealingMethod, type AnnealingOptions } from "./annealing-solver"
+import type { RunManifest } from "./run-manifest"
+import { RiskAnalytics, type RiskOptions, type RiskReport } from "./risk-analytics"
+import { MonteCarloSimulator, type SimulationOptions, type SimulationResult } from "./monte-carlo"
+import {
+  BlackLitterman,
+  type BlackLittermanOptions,
+  type BlackLittermanResult,
+  type BlackLittermanView,
+} from "./black-litterman"
+import { HierarchicalRiskParity, type ClusterNode } from "./hierarchical-risk-parity"
+import { DiscreteAllocator, type DiscreteAllocation } from "./discrete-allocation"
+import {
+  DEFAULT_RETURN_UNCERTAINTY,
+  DEFAULT_ROBUST_RISK_AVERSION,
+  RobustSolver,
+  type RobustOptions,
+  type RobustSummary,
+} from "./robust-optimizer"
+import {
+  DEFAULT_RESAMPLES,
+  PortfolioResampler,
+  type ResamplingOptions,
+  type ResamplingSummary,
+} from "./resampled-optimizer"
+import { randomSeed } from "./random"
+import { BenchmarkAnalytics, type Benchmark, type BenchmarkSummary } from "./benchmark"
+
 export interface Asset {
   symbol: string
   name: string
   expectedReturn: number
   volatility: number
   price: number
+  category?: string // sector or asset class, one of assetCategories
+  priceHistory?: number[] // evenly spaced closing prices, oldest first
+  returnHistory?: number[] // periodic simple returns, used instead of priceHistory when present
+  lotSize?: number // shares per tradable lot, 1 when unset
+  marketCap?: number // market capitalisation, for Black-Litterman equilibrium weights
+  posteriorReturn?: number // Black-Litterman posterior, used instead of expectedReturn and the history mean
+  returnUncertainty?: number // half-width of the expected return's interval for robust optimization
 }
 
 export interface Portfolio {
@@ -19,6 +59,150 @@ export interface Portfolio {
   updatedAt: Date
 }
 
+export const assetCategories = [
+  "Technology",
+  "Healthcare",
+  "Financial",
+  "Consumer",
+  "Energy",
+  "Real Estate",
+  "Utilities",
+  "Materials",
+  "ETF",
+  "Bond",
+]
+
+// Assets without a category are grouped under this label in exposure reports
+export const UNCATEGORIZED = "Uncategorized"
+
+export interface CategoryLimit {
+  category: string
+  min?: number // minimum total weight of the category
+  max?: number // maximum total weight of the category
+}
+
+export interface PortfolioConstraints {
+  minWeight?: number // negative values allow short positions; applies to held assets only once any holding rule is set
+  maxWeight?: number
+  netExposure?: number // sum of the weights: 1 when fully invested, 0 for a market-neutral book, 1.5 for 150% long
+  grossExposure?: number // limit on the sum of absolute weights, e.g. 1.6 for a 130/30 portfolio
+  borrowingRate?: number // annual cost of short positions and of cash borrowed beyond the capital
+  categoryLimits?: CategoryLimit[]
+  minHoldings?: number // fewest assets held
+  maxHoldings?: number // most assets held
+  minBuyIn?: number // smallest weight of an asset that is held at all
+}
+
+export interface AssetSelection {
+  held: string[]
+  excluded: string[]
+  nodesExplored: number
+  provenOptimal: boolean // false when the search stopped at its node budget
+}
+
+export interface ExposureSummary {
+  long: number // total weight of long positions
+  short: number // total weight of short positions, as a positive number
+  gross: number
+  net: number
+  borrowingCost: number // annual financing charge as a fraction of capital
+}
+
+export interface CategoryExposure {
+  category: string
+  weight: number
+  min?: number
+  max?: number
+}
+
+export type OptimizationObjective =
+  | { type: "max-sharpe" }
+  | { type: "min-variance" }
+  | { type: "risk-parity" }
+  | { type: "hierarchical-risk-parity" }
+  | { type: "max-diversification" }
+  | { type: "target-return"; targetReturn: number }
+  | { type: "target-volatility"; targetVolatility: number }
+  | { type: "max-information-ratio"; benchmark: Benchmark; trackingErrorBudget: number }
+  | { type: "min-tracking-error"; benchmark: Benchmark; targetActiveReturn?: number }
+
+export const optimizationObjectives: { value: OptimizationObjective["type"]; label: string; description: string }[] = [
+  { value: "max-sharpe", label: "Max Sharpe", description: "Best excess return per unit of volatility" },
+  { value: "min-variance", label: "Min Variance", description: "Global minimum-variance portfolio" },
+  { value: "risk-parity", label: "Risk Parity", description: "Every asset contributes the same share of risk" },
+  {
+    value: "hierarchical-risk-parity",
+    label: "Hierarchical Risk Parity",
+    description: "Inverse-variance weights split down a tree of correlation clusters",
+  },
+  {
+    value: "max-diversification",
+    label: "Max Diversification",
+    description: "Highest ratio of average asset volatility to portfolio volatility",
+  },
+  { value: "target-return", label: "Target Return", description: "Lowest risk that reaches a target return" },
+  {
+    value: "target-volatility",
+    label: "Target Volatility",
+    description: "Highest return that stays within a target volatility",
+  },
+  {
+    value: "max-information-ratio",
+    label: "Max Information Ratio",
+    description: "Highest active return within a tracking error budget",
+  },
+  {
+    value: "min-tracking-error",
+    label: "Min Tracking Error",
+    description: "Closest to the benchmark, optionally while beating it by a target active return",
+  },
+]
+
+// Weights further than this outside a limit are reported as violations
+export const CONSTRAINT_TOLERANCE = 1e-6
+
+export interface ConstraintViolation {
+  constraint:
+    | "min-weight"
+    | "max-weight"
+    | "budget"
+    | "gross-exposure"
+    | "category-min"
+    | "category-max"
+    | "min-holdings"
+    | "max-holdings"
+    | "max-turnover"
+  symbol?: string // set for per-asset constraints
+  category?: string // set for category exposure constraints
+  limit: number
+  actual: number
+}
+
+export interface RebalanceOptions {
+  currentWeights: number[] // holdings before the rebalance, aligned with the assets
+  proportionalCosts?: number[] // cost per unit traded, e.g. 0.001 for 10 bps of the traded value
+  fixedCosts?: number[] // flat charge in currency whenever an asset is traded at all
+  portfolioValue?: number // converts fixed costs into weight and trades into currency
+  maxTurnover?: number // one-way turnover limit: half the sum of absolute weight changes
+}
+
+export interface Trade {
+  symbol: string
+  action: "buy" | "sell"
+  currentWeight: number
+  targetWeight: number
+  delta: number
+  value?: number // delta in currency when the portfolio value is known
+  cost: number // transaction cost as a fraction of the portfolio
+}
+
+export interface RebalanceSummary {
+  trades: Trade[]
+  turnover: number
+  transactionCost: number // total cost as a fraction of the portfolio
+  netSharpeRatio: number // Sharpe ratio after charging the cost against one year of expected return
+}
+
 export interface OptimizationResult {
   optimalWeights: number[]
   expectedReturn: number
@@ -26,6 +210,64 @@ export interface OptimizationResult {
   sharpeRatio: number
   convergenceData: number[]
   iterations: number
+  covarianceEstimator?: CovarianceEstimator | "heuristic" // "heuristic" when no asset carried history
+  objective?: OptimizationObjective["type"]
+  constraintViolations?: ConstraintViolation[] // empty when every configured limit holds
+  categoryExposures?: CategoryExposure[]
+  exposure?: ExposureSummary
+  assetSelection?: AssetSelection // set when holding rules made the problem combinatorial
+  rebalance?: RebalanceSummary
+  robust?: RobustSummary
+  resampling?: ResamplingSummary
+  benchmark?: BenchmarkSummary // set for the benchmark-relative objectives
+  solver?: { name: string; version: string } // the registered solver that produced the result
+  seed?: number
+  manifest?: RunManifest // inputs and settings for auditing and replaying the run
+}
+
+export interface EfficientFrontierPoint {
+  weights: number[]
+  expectedReturn: number
+  volatility: number
+  sharpeRatio: number
+}
+
+export interface QAOAOptimizationResult extends OptimizationResult {
+  qaoa: {
+    numAssets: number
+    layers: number
+    gammas: number[]
+    betas: number[]
+    expectedCost: number
+    evaluations: number
+    selectedBitstring: string // the readout the weights come from
+    mostLikelyBitstring: string // the most probable feasible bitstring, which may cost more
+    bitstrings: {
+      bitstring: string
+      probability: number
+      cost: number
+      feasible: boolean
+      symbols: string[]
+    }[]
+  }
+}
+
+export type AnnealingPortfolioOptions = QUBOOptions & AnnealingOptions
+
+export interface AnnealingOptimizationResult extends OptimizationResult {
+  annealing: {
+    method: AnnealingMethod
+    encoding: QUBOEncoding
+    variables: number
+    penalty: number
+    energy: number
+    bitstring: string // character v is "1" when QUBO variable v is set
+    sweeps: number
+    acceptanceRate: number
+    swapRate?: number
+    seed: number
+    runtimeMs: number
+  }
 }
 
 // Quantum Approximate Optimization Algorithm (QAOA) implementation
@@ -33,27 +275,92 @@ export class QuantumPortfolioOptimizer {
   private riskFreeRate = 0.02 // 2% risk-free rate
   private maxIterations = 100
   private tolerance = 1e-6
+  private periodsPerYear = 252 // daily history by default
+  private covarianceEstimator: CovarianceEstimator = "sample"
+  private progressListener?: (value: number) => void
 
-  constructor(riskFreeRate?: number, maxIterations?: number) {
+  constructor(riskFreeRate?: number, maxIterations?: number, periodsPerYear?: number) {
     if (riskFreeRate) this.riskFreeRate = riskFreeRate
     if (maxIterations) this.maxIterations = maxIterations
+    if (periodsPerYear) this.periodsPerYear = periodsPerYear
+  }
+
+  setCovarianceEstimator(estimator: CovarianceEstimator): void {
+    this.covarianceEstimator = estimator
+  }
+
+  getCovarianceEstimator(): CovarianceEstimator {
+    return this.covarianceEstimator
+  }
+
+  getRiskFreeRate(): number {
+    return this.riskFreeRate
+  }
+
+  // Observations per year in asset histories, used to annualise them
+  getPeriodsPerYear(): number {
+    return this.periodsPerYear
+  }
+
+  // Sees every value appended to a result's convergenceData while a solve is still running
+  setProgressListener(listener?: (value: number) => void): void {
+    this.progressListener = listener
+  }
+
+  private record(convergenceData: number[], value: number): void {
+    convergenceData.push(value)
+    this.progressListener?.(value)
+  }
+
+  // Annualised expected returns and covariance, estimated from history where assets carry it
+  private estimateInputs(assets: Asset[]): {
+    expectedReturns: number[]
+    covMatrix: number[][]
+    covarianceEstimator: CovarianceEstimator | "heuristic"
+  } {
+    const history = RiskModel.alignedReturns(assets)
+    const expectedReturns = assets.map((asset, i) => {
+      const series = history[i]
+      if (asset.posteriorReturn !== undefined) return asset.posteriorReturn
+      return series ? RiskModel.mean(series) * this.periodsPerYear : asset.expectedReturn
+    })
+
+    return {
+      expectedReturns,
+      covMatrix: this.calculateCovarianceMatrix(assets, history),
+      covarianceEstimator: history.some((series) => series !== null) ? this.covarianceEstimator : "heuristic",
+    }
   }
 
   // Calculate covariance matrix from asset data
-  private calculateCovarianceMatrix(assets: Asset[]): number[][] {
+  private calculateCovarianceMatrix(assets: Asset[], history: (number[] | null)[]): number[][] {
     const n = assets.length
     const covMatrix: number[][] = Array(n)
       .fill(null)
       .map(() => Array(n).fill(0))
 
+    const withHistory = history.map((series, i) => (series ? i : -1)).filter((i) => i >= 0)
+    const historicalCov = RiskModel.estimateCovariance(
+      withHistory.map((i) => history[i] as number[]),
+      this.covarianceEstimator,
+    )
+    const volatilities = assets.map((asset, i) => {
+      const position = withHistory.indexOf(i)
+      return position >= 0 ? Math.sqrt(historicalCov[position][position] * this.periodsPerYear) : asset.volatility
+    })
+
     for (let i = 0; i < n; i++) {
       for (let j = 0; j < n; j++) {
-        if (i === j) {
-          covMatrix[i][j] = Math.pow(assets[i].volatility, 2)
+        const pi = withHistory.indexOf(i)
+        const pj = withHistory.indexOf(j)
+        if (pi >= 0 && pj >= 0) {
+          covMatrix[i][j] = historicalCov[pi][pj] * this.periodsPerYear
+        } else if (i === j) {
+          covMatrix[i][j] = Math.pow(volatilities[i], 2)
         } else {
-          // Simplified correlation assumption - in real implementation, use historical data
-          const correlation = 0.3 // Moderate positive correlation
-          covMatrix[i][j] = correlation * assets[i].volatility * assets[j].volatility
+          // No shared history for this pair - fall back to a moderate positive correlation
+          const correlation = 0.3
+          covMatrix[i][j] = correlation * volatilities[i] * volatilities[j]
         }
       }
     }
@@ -61,6 +368,42 @@ export class QuantumPortfolioOptimizer {
     return covMatrix
   }
 
+  // Return, volatility and Sharpe ratio for weights under already estimated inputs. The excess return
+  // credits uninvested cash (1 - net exposure) with the risk-free rate and charges borrowing, so it is
+  // expectedReturn - riskFreeRate for a fully invested long-only portfolio.
+  private metricsFor(
+    weights: number[],
+    expectedReturns: number[],
+    covMatrix: number[][],
+    constraints: PortfolioConstraints = {},
+  ): { expectedReturn: number; volatility: number; sharpeRatio: number } {
+    const expectedReturn = weights.reduce((sum, w, i) => sum + w * expectedReturns[i], 0)
+    const volatility = Math.sqrt(ConstrainedSolver.quadraticForm(covMatrix, weights))
+    const { net, borrowingCost } = this.calculateExposure(weights, constraints)
+    const excessReturn = expectedReturn - this.riskFreeRate * net - borrowingCost
+    return { expectedReturn, volatility, sharpeRatio: volatility > 0 ? excessReturn / volatility : 0 }
+  }
+
+  // Long, short, gross and net exposure, with borrowing charged on the shorts and on any cash
+  // borrowed to take the net exposure above one
+  calculateExposure(weights: number[], constraints: PortfolioConstraints = {}): ExposureSummary {
+    const long = weights.reduce((sum, w) => sum + Math.max(0, w), 0)
+    const short = weights.reduce((sum, w) => sum + Math.max(0, -w), 0)
+    const net = long - short
+    return {
+      long,
+      short,
+      gross: long + short,
+      net,
+      borrowingCost: (constraints.borrowingRate || 0) * (short + Math.max(0, net - 1)),
+    }
+  }
+
+  // Fully invested without shorts: the setting the variational Sharpe optimiser and rebalancing assume
+  private isLongOnly(constraints: PortfolioConstraints): boolean {
+    return (constraints.minWeight || 0) >= 0 && (constraints.netExposure ?? 1) === 1
+  }
+
   // QAOA objective function: maximize Sharpe ratio
   private objectiveFunction(weights: number[], expectedReturns: number[], covMatrix: number[][]): number {
     const portfolioReturn = weights.reduce((sum, w, i) => sum + w * expectedReturns[i], 0)
@@ -81,37 +424,30 @@ export class QuantumPortfolioOptimizer {
   // Quantum-inspired optimization using variational approach
   private async quantumOptimization(
     assets: Asset[],
-    constraints: { minWeight?: number; maxWeight?: number } = {},
+    constraints: PortfolioConstraints = {},
   ): Promise<OptimizationResult> {
     const n = assets.length
-    const expectedReturns = assets.map((a) => a.expectedReturn)
-    const covMatrix = this.calculateCovarianceMatrix(assets)
+    const { expectedReturns, covMatrix, covarianceEstimator } = this.estimateInputs(assets)
+    const bounds = this.buildBounds(assets, constraints)
 
     // Initialize weights uniformly
-    let weights = Array(n).fill(1 / n)
+    let weights = ConstrainedSolver.projectOntoBoundedSimplex(Array(n).fill(1 / n), bounds)
     const convergenceData: number[] = []
 
-    const minWeight = constraints.minWeight || 0
-    const maxWeight = constraints.maxWeight || 1
-
     for (let iteration = 0; iteration < this.maxIterations; iteration++) {
       const currentObjective = this.objectiveFunction(weights, expectedReturns, covMatrix)
-      convergenceData.push(-currentObjective) // Store positive Sharpe ratio
+      this.record(convergenceData, -currentObjective) // Store positive Sharpe ratio
 
       // Quantum-inspired parameter updates using gradient descent with momentum
       const learningRate = 0.01 * Math.exp(-iteration / 50) // Adaptive learning rate
       const gradients = this.calculateGradients(weights, expectedReturns, covMatrix)
 
-      // Update weights with momentum
-      const newWeights = weights.map((w, i) => {
-        const gradient = gradients[i]
-        const update = w - learningRate * gradient
-        return Math.max(minWeight, Math.min(maxWeight, update))
-      })
-
-      // Normalize weights to sum to 1
-      const sum = newWeights.reduce((s, w) => s + w, 0)
-      weights = newWeights.map((w) => w / sum)
+      // Gradient step followed by the exact Euclidean projection back onto
+      // { w : sum(w) = 1, minWeight <= w <= maxWeight }
+      weights = ConstrainedSolver.projectOntoBoundedSimplex(
+        weights.map((w, i) => w - learningRate * gradients[i]),
+        bounds,
+      )
 
       // Check convergence
       const newObjective = this.objectiveFunction(weights, expectedReturns, covMatrix)
@@ -138,6 +474,7 @@ export class QuantumPortfolioOptimizer {
       sharpeRatio,
       convergenceData,
       iterations: convergenceData.length,
+      covarianceEstimator,
     }
   }
 
@@ -178,44 +515,1066 @@ export class QuantumPortfolioOptimizer {
   // Main optimization method
   async optimizePortfolio(
     assets: Asset[],
-    constraints: { minWeight?: number; maxWeight?: number } = {},
+    constraints: PortfolioConstraints = {},
+    objective: OptimizationObjective = { type: "max-sharpe" },
+  ): Promise<OptimizationResult> {
+    return this.solvePortfolio(assets, constraints, objective, true)
+  }
+
+  // The same problem without the variational route: long-only max Sharpe is solved directly as a ratio problem
+  async optimizeExact(
+    assets: Asset[],
+    constraints: PortfolioConstraints = {},
+    objective: OptimizationObjective = { type: "max-sharpe" },
+  ): Promise<OptimizationResult> {
+    return this.solvePortfolio(assets, constraints, objective, false)
+  }
+
+  private async solvePortfolio(
+    assets: Asset[],
+    constraints: PortfolioConstraints,
+    objective: OptimizationObjective,
+    variational: boolean,
+  ): Promise<OptimizationResult> {
+    if (assets.length < 2) {
+      throw new Error("Portfolio must contain at least 2 assets")
+    }
+
+    const result = this.hasHoldingRules(constraints)
+      ? this.solveWithSelection(assets, constraints, objective)
+      : variational && objective.type === "max-sharpe" && this.isLongOnly(constraints)
+        ? await this.quantumOptimization(assets, constraints)
+        : this.solveObjective(assets, constraints, objective)
+
+    return {
+      ...result,
+      objective: objective.type,
+      constraintViolations: this.checkConstraints(assets, result.optimalWeights, constraints),
+      categoryExposures: this.calculateCategoryExposures(assets, result.optimalWeights, constraints.categoryLimits),
+      exposure: this.calculateExposure(result.optimalWeights, constraints),
+    }
+  }
+
+  // Rebalance existing holdings: maximise the Sharpe ratio net of transaction costs, charging the
+  // one-off cost of the trades against the first year of expected return
+  async rebalancePortfolio(
+    assets: Asset[],
+    constraints: PortfolioConstraints = {},
+    options: RebalanceOptions,
   ): Promise<OptimizationResult> {
     if (assets.length < 2) {
       throw new Error("Portfolio must contain at least 2 assets")
     }
+    if (this.hasHoldingRules(constraints) || constraints.categoryLimits?.length) {
+      throw new Error("Holding rules and category limits are not available when rebalancing")
+    }
+    if (!this.isLongOnly(constraints) || constraints.grossExposure !== undefined) {
+      throw new Error("Short positions and leverage are not available when rebalancing")
+    }
+
+    const n = assets.length
+    const current = this.normalizeWeights(options.currentWeights, n)
+    const fixedCosts = assets.map((_, i) => options.fixedCosts?.[i] ?? 0)
+    const portfolioValue = options.portfolioValue
+    if (fixedCosts.some((f) => f > 0) && !(portfolioValue && portfolioValue > 0)) {
+      throw new Error("A portfolio value is required to apply fixed transaction costs")
+    }
+    const fixedWeights = fixedCosts.map((f) => (f > 0 && portfolioValue ? f / portfolioValue : 0))
+    const trading: TradingCosts = {
+      current,
+      rates: assets.map((_, i) => options.proportionalCosts?.[i] ?? 0),
+      maxTurnover: options.maxTurnover,
+    }
 
-    return await this.quantumOptimization(assets, constraints)
+    const { expectedReturns, covMatrix, covarianceEstimator } = this.estimateInputs(assets)
+    const bounds = this.buildBounds(assets, constraints)
+    const isTraded = (w: number[], i: number) => Math.abs(w[i] - current[i]) > CONSTRAINT_TOLERANCE
+    const costOf = (w: number[]) =>
+      ConstrainedSolver.tradingCost(w, trading) +
+      fixedWeights.reduce((sum, f, i) => sum + (isTraded(w, i) ? f : 0), 0)
+    const netSharpeOf = (w: number[]) => {
+      const { expectedReturn, volatility } = this.metricsFor(w, expectedReturns, covMatrix)
+      return (expectedReturn - costOf(w) - this.riskFreeRate) / volatility
+    }
+
+    const convergenceData: number[] = []
+    // Assets in `untraded` are pinned at their current weight
+    const solve = (untraded: Set<number>) => {
+      const pinned: WeightBounds = {
+        lower: bounds.lower.map((l, i) => (untraded.has(i) ? current[i] : l)),
+        upper: bounds.upper.map((u, i) => (untraded.has(i) ? current[i] : u)),
+      }
+      ConstrainedSolver.assertFeasible(pinned)
+      return ConstrainedSolver.maximizeRatio(
+        covMatrix,
+        expectedReturns,
+        this.riskFreeRate,
+        pinned,
+        (w) => this.record(convergenceData, netSharpeOf(w)),
+        { trading },
+      )
+    }
+
+    // Proportional costs are convex and handled exactly. Fixed costs make each trade all-or-nothing,
+    // so greedily stop trading the asset with the smallest trade while that improves the net Sharpe ratio.
+    let untraded = new Set<number>()
+    let weights = solve(untraded)
+    for (let improved = fixedWeights.some((f) => f > 0); improved; ) {
+      improved = false
+      const candidates = weights
+        .map((_, i) => i)
+        .filter((i) => fixedWeights[i] > 0 && isTraded(weights, i))
+        .filter((i) => current[i] >= bounds.lower[i] && current[i] <= bounds.upper[i])
+        .sort((a, b) => Math.abs(weights[a] - current[a]) - Math.abs(weights[b] - current[b]))
+
+      for (const i of candidates) {
+        const trial = new Set(untraded).add(i)
+        let candidate: number[]
+        try {
+          candidate = solve(trial)
+        } catch {
+          continue
+        }
+        if (netSharpeOf(candidate) > netSharpeOf(weights) + 1e-12) {
+          untraded = trial
+          weights = candidate
+          improved = true
+          break
+        }
+      }
+    }
+
+    const trades: Trade[] = assets
+      .map((asset, i) => ({ asset, i, delta: weights[i] - current[i] }))
+      .filter(({ i }) => isTraded(weights, i))
+      .map(({ asset, i, delta }) => ({
+        symbol: asset.symbol,
+        action: delta > 0 ? ("buy" as const) : ("sell" as const),
+        currentWeight: current[i],
+        targetWeight: weights[i],
+        delta,
+        value: portfolioValue ? delta * portfolioValue : undefined,
+        cost: trading.rates[i] * Math.abs(delta) + fixedWeights[i],
+      }))
+
+    return {
+      optimalWeights: weights,
+      ...this.metricsFor(weights, expectedReturns, covMatrix),
+      convergenceData,
+      iterations: convergenceData.length,
+      covarianceEstimator,
+      objective: "max-sharpe",
+      constraintViolations: this.checkConstraints(assets, weights, constraints, options),
+      categoryExposures: this.calculateCategoryExposures(assets, weights),
+      rebalance: {
+        trades,
+        turnover: ConstrainedSolver.turnover(weights, current),
+        transactionCost: costOf(weights),
+        netSharpeRatio: netSharpeOf(weights),
+      },
+    }
+  }
+
+  // Maximise the worst-case Sharpe ratio or utility over an uncertainty set around the expected returns,
+  // and solve the same criterion at the nominal returns for comparison
+  async optimizeRobust(
+    assets: Asset[],
+    constraints: PortfolioConstraints = {},
+    options: RobustOptions,
+  ): Promise<OptimizationResult> {
+    if (assets.length < 2) {
+      throw new Error("Portfolio must contain at least 2 assets")
+    }
+    if (this.hasHoldingRules(constraints)) {
+      throw new Error("Holding rules are not available in robust mode")
+    }
+    const scale = options.scale ?? 1
+    if (!(scale >= 0)) {
+      throw new Error("The uncertainty scale cannot be negative")
+    }
+    const riskAversion = options.riskAversion ?? DEFAULT_ROBUST_RISK_AVERSION
+    if (options.criterion === "utility" && !(riskAversion > 0)) {
+      throw new Error("Risk aversion must be positive")
+    }
+
+    const { expectedReturns, covMatrix, covarianceEstimator } = this.estimateInputs(assets)
+    const halfWidths = this.returnUncertainties(assets).map((r) => r * scale)
+    const bounds = this.buildBounds(assets, constraints)
+    const worstCase = (w: number[]) =>
+      this.metricsFor(
+        w,
+        RobustSolver.worstCaseReturns(w, expectedReturns, halfWidths, options.uncertainty),
+        covMatrix,
+        constraints,
+      )
+
+    const convergenceData: number[] = []
+    const track = (w: number[]) => this.record(convergenceData, worstCase(w).sharpeRatio)
+    let weights: number[]
+    let nominalWeights: number[]
+    if (options.criterion === "sharpe") {
+      weights = RobustSolver.maximizeWorstCaseRatio(
+        covMatrix,
+        expectedReturns,
+        halfWidths,
+        options.uncertainty,
+        bounds,
+        (w) => worstCase(w).sharpeRatio,
+        track,
+      )
+      nominalWeights = this.solveWithinBounds(
+        { type: "max-sharpe" },
+        expectedReturns,
+        covMatrix,
+        bounds,
+        undefined,
+        constraints.borrowingRate,
+      )
+    } else {
+      weights = RobustSolver.maximizeUtility(
+        covMatrix,
+        expectedReturns,
+        halfWidths,
+        options.uncertainty,
+        riskAversion,
+        bounds,
+      )
+      track(weights)
+      nominalWeights = ConstrainedSolver.minimizeQuadratic(
+        covMatrix.map((row) => row.map((v) => (riskAversion / 2) * v)),
+        { bounds, linear: expectedReturns },
+      )
+    }
+
+    const robust = worstCase(weights)
+    const nominal = this.metricsFor(nominalWeights, expectedReturns, covMatrix, constraints)
+    const nominalWorstCase = worstCase(nominalWeights)
+    return {
+      optimalWeights: weights,
+      ...this.metricsFor(weights, expectedReturns, covMatrix, constraints),
+      convergenceData,
+      iterations: convergenceData.length,
+      covarianceEstimator,
+      constraintViolations: this.checkConstraints(assets, weights, constraints),
+      categoryExposures: this.calculateCategoryExposures(assets, weights, constraints.categoryLimits),
+      exposure: this.calculateExposure(weights, constraints),
+      robust: {
+        uncertainty: options.uncertainty,
+        criterion: options.criterion,
+        scale,
+        riskAversion: options.criterion === "utility" ? riskAversion : undefined,
+        halfWidths,
+        nominalWeights,
+        worstCaseReturn: robust.expectedReturn,
+        worstCaseSharpe: robust.sharpeRatio,
+        nominalExpectedReturn: nominal.expectedReturn,
+        nominalSharpe: nominal.sharpeRatio,
+        nominalWorstCaseReturn: nominalWorstCase.expectedReturn,
+        nominalWorstCaseSharpe: nominalWorstCase.sharpeRatio,
+      },
+    }
+  }
+
+  // Michaud resampling: solve the objective for many input sets drawn around the estimates and average
+  // the weights. Every limit is convex, so the average of feasible weights is feasible too.
+  async optimizeResampled(
+    assets: Asset[],
+    constraints: PortfolioConstraints = {},
+    objective: OptimizationObjective = { type: "max-sharpe" },
+    options: ResamplingOptions,
+    seed = randomSeed(),
+  ): Promise<OptimizationResult> {
+    if (assets.length < 2) {
+      throw new Error("Portfolio must contain at least 2 assets")
+    }
+    if (this.hasHoldingRules(constraints)) {
+      throw new Error("Holding rules are not available with resampling, since averaged weights do not keep them")
+    }
+    if (objective.type === "max-information-ratio" || objective.type === "min-tracking-error") {
+      throw new Error("Benchmark-relative objectives are not available with resampling")
+    }
+
+    const { expectedReturns, covMatrix, covarianceEstimator } = this.estimateInputs(assets)
+    const bounds = this.buildBounds(assets, constraints)
+    const history = RiskModel.alignedReturns(assets)
+    const complete = history.every((series) => series !== null) ? (history as number[][]) : null
+    const observations =
+      options.observations ?? history.find((series) => series !== null)?.length ?? 5 * this.periodsPerYear
+    const draws = PortfolioResampler.draw(
+      expectedReturns,
+      covMatrix,
+      options.method === "bootstrap" ? complete : null,
+      {
+        method: options.method,
+        samples: options.samples ?? DEFAULT_RESAMPLES,
+        observations,
+        periodsPerYear: this.periodsPerYear,
+        estimator: this.covarianceEstimator,
+        seed,
+      },
+    )
+
+    const solve = (mu: number[], cov: number[][]) =>
+      this.solveWithinBounds(objective, mu, cov, bounds, undefined, constraints.borrowingRate)
+    const nominalWeights = solve(expectedReturns, covMatrix)
+    const convergenceData: number[] = []
+    const weightSets: number[][] = []
+    const total = Array(assets.length).fill(0)
+    let failed = 0
+    for (const draw of draws) {
+      let weights: number[]
+      try {
+        weights = solve(draw.expectedReturns, draw.covMatrix)
+      } catch {
+        failed++
+        continue
+      }
+      weightSets.push(weights)
+      weights.forEach((w, i) => {
+        total[i] += w
+      })
+      // Sharpe ratio of the running average at the point estimates
+      const average = total.map((w) => w / weightSets.length)
+      this.record(convergenceData, this.metricsFor(average, expectedReturns, covMatrix, constraints).sharpeRatio)
+    }
+    if (weightSets.length === 0) {
+      throw new Error("The objective had no solution for any of the resampled inputs")
+    }
+
+    const { mean, standardDeviations, lower, upper } = PortfolioResampler.summarize(weightSets)
+    return {
+      optimalWeights: mean,
+      ...this.metricsFor(mean, expectedReturns, covMatrix, constraints),
+      convergenceData,
+      iterations: convergenceData.length,
+      covarianceEstimator,
+      objective: objective.type,
+      constraintViolations: this.checkConstraints(assets, mean, constraints),
+      categoryExposures: this.calculateCategoryExposures(assets, mean, constraints.categoryLimits),
+      exposure: this.calculateExposure(mean, constraints),
+      resampling: {
+        method: options.method,
+        samples: weightSets.length,
+        failed,
+        observations,
+        nominalWeights,
+        standardDeviations,
+        lower,
+        upper,
+      },
+    }
+  }
+
+  // Annual half-width of each expected return's interval: the asset's own, else the standard error of
+  // the historical mean, else a default
+  returnUncertainties(assets: Asset[]): number[] {
+    const history = RiskModel.alignedReturns(assets)
+    return assets.map((asset, i) => {
+      const series = history[i]
+      if (asset.returnUncertainty !== undefined) {
+        if (!(asset.returnUncertainty >= 0)) {
+          throw new Error(`The return uncertainty of ${asset.symbol} cannot be negative`)
+        }
+        return asset.returnUncertainty
+      }
+      if (!series || series.length < 2) return DEFAULT_RETURN_UNCERTAINTY
+      const mean = RiskModel.mean(series)
+      const variance = series.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (series.length - 1)
+      return Math.sqrt(variance / series.length) * this.periodsPerYear
+    })
+  }
+
+  // Current holdings scaled to sum to one; missing entries count as not held
+  private normalizeWeights(weights: number[], n: number): number[] {
+    const padded = Array.from({ length: n }, (_, i) => Math.max(0, weights[i] || 0))
+    const total = padded.reduce((sum, w) => sum + w, 0)
+    if (total <= 0) {
+      throw new Error("Current weights must include at least one holding")
+    }
+    return padded.map((w) => w / total)
+  }
+
+  // Per-asset bounds, the exposure limits and one group per category limit
+  private buildBounds(assets: Asset[], constraints: PortfolioConstraints): WeightBounds {
+    const bounds: WeightBounds = ConstrainedSolver.uniformBounds(
+      assets.length,
+      constraints.minWeight || 0,
+      constraints.maxWeight || 1,
+      constraints.netExposure ?? 1,
+    )
+    if (constraints.grossExposure !== undefined) bounds.gross = constraints.grossExposure
+
+    const limits = constraints.categoryLimits ?? []
+    if (limits.length > 0) {
+      // Unset limits leave a category free to go net short or above 100%
+      bounds.groups = limits.map((limit) => ({
+        name: limit.category,
+        members: assets.map((asset, i) => (this.categoryOf(asset) === limit.category ? i : -1)).filter((i) => i >= 0),
+        lower: limit.min ?? -Infinity,
+        upper: limit.max ?? Infinity,
+      }))
+    }
+    ConstrainedSolver.assertFeasible(bounds)
+    return bounds
+  }
+
+  private categoryOf(asset: Asset): string {
+    return asset.category || UNCATEGORIZED
+  }
+
+  // Realized weight of every category held, alongside any configured limits
+  calculateCategoryExposures(assets: Asset[], weights: number[], limits: CategoryLimit[] = []): CategoryExposure[] {
+    const exposures = new Map<string, CategoryExposure>()
+    assets.forEach((asset, i) => {
+      const category = this.categoryOf(asset)
+      const exposure = exposures.get(category) ?? { category, weight: 0 }
+      exposure.weight += weights[i] ?? 0
+      exposures.set(category, exposure)
+    })
+    for (const limit of limits) {
+      const exposure = exposures.get(limit.category) ?? { category: limit.category, weight: 0 }
+      exposures.set(limit.category, { ...exposure, min: limit.min, max: limit.max })
+    }
+
+    return Array.from(exposures.values()).sort((a, b) => b.weight - a.weight)
+  }
+
+  // Post-solve audit of the weights against the budget, exposure, per-asset, holding and turnover limits
+  checkConstraints(
+    assets: Asset[],
+    weights: number[],
+    constraints: PortfolioConstraints = {},
+    rebalance?: RebalanceOptions,
+  ): ConstraintViolation[] {
+    const violations: ConstraintViolation[] = []
+    const semiContinuous = this.hasHoldingRules(constraints)
+    const minWeight = semiContinuous
+      ? Math.max(constraints.minWeight || 0, constraints.minBuyIn || 0)
+      : constraints.minWeight || 0
+    const maxWeight = constraints.maxWeight || 1
+
+    const net = constraints.netExposure ?? 1
+    const total = weights.reduce((sum, w) => sum + w, 0)
+    if (Math.abs(total - net) > CONSTRAINT_TOLERANCE) {
+      violations.push({ constraint: "budget", limit: net, actual: total })
+    }
+    const gross = ConstrainedSolver.grossExposure(weights)
+    if (constraints.grossExposure !== undefined && gross > constraints.grossExposure + CONSTRAINT_TOLERANCE) {
+      violations.push({ constraint: "gross-exposure", limit: constraints.grossExposure, actual: gross })
+    }
+
+    weights.forEach((w, i) => {
+      // With holding rules an asset may also sit at exactly zero
+      if (semiContinuous && Math.abs(w) <= CONSTRAINT_TOLERANCE) return
+      if (w < minWeight - CONSTRAINT_TOLERANCE) {
+        violations.push({ constraint: "min-weight", symbol: assets[i].symbol, limit: minWeight, actual: w })
+      }
+      if (w > maxWeight + CONSTRAINT_TOLERANCE) {
+        violations.push({ constraint: "max-weight", symbol: assets[i].symbol, limit: maxWeight, actual: w })
+      }
+    })
+
+    const holdings = weights.filter((w) => Math.abs(w) > CONSTRAINT_TOLERANCE).length
+    if (constraints.minHoldings !== undefined && holdings < constraints.minHoldings) {
+      violations.push({ constraint: "min-holdings", limit: constraints.minHoldings, actual: holdings })
+    }
+    if (constraints.maxHoldings !== undefined && holdings > constraints.maxHoldings) {
+      violations.push({ constraint: "max-holdings", limit: constraints.maxHoldings, actual: holdings })
+    }
+
+    if (rebalance?.maxTurnover !== undefined) {
+      const turnover = ConstrainedSolver.turnover(weights, this.normalizeWeights(rebalance.currentWeights, weights.length))
+      if (turnover > rebalance.maxTurnover + CONSTRAINT_TOLERANCE) {
+        violations.push({ constraint: "max-turnover", limit: rebalance.maxTurnover, actual: turnover })
+      }
+    }
+
+    for (const exposure of this.calculateCategoryExposures(assets, weights, constraints.categoryLimits)) {
+      const { category, weight, min, max } = exposure
+      if (min !== undefined && weight < min - CONSTRAINT_TOLERANCE) {
+        violations.push({ constraint: "category-min", category, limit: min, actual: weight })
+      }
+      if (max !== undefined && weight > max + CONSTRAINT_TOLERANCE) {
+        violations.push({ constraint: "category-max", category, limit: max, actual: weight })
+      }
+    }
+
+    return violations
+  }
+
+  // Every objective except long-only max Sharpe is solved directly on the bounded simplex
+  private solveObjective(
+    assets: Asset[],
+    constraints: PortfolioConstraints,
+    objective: OptimizationObjective,
+  ): OptimizationResult {
+    if (objective.type === "max-information-ratio" || objective.type === "min-tracking-error") {
+      return this.solveAgainstBenchmark(assets, constraints, objective)
+    }
+    const { expectedReturns, covMatrix, covarianceEstimator } = this.estimateInputs(assets)
+    const bounds = this.buildBounds(assets, constraints)
+    const convergenceData: number[] = []
+    const track = (weights: number[]) =>
+      this.record(convergenceData, this.metricsFor(weights, expectedReturns, covMatrix, constraints).sharpeRatio)
+    const weights = this.solveWithinBounds(
+      objective,
+      expectedReturns,
+      covMatrix,
+      bounds,
+      track,
+      constraints.borrowingRate,
+    )
+
+    return {
+      optimalWeights: weights,
+      ...this.metricsFor(weights, expectedReturns, covMatrix, constraints),
+      convergenceData,
+      iterations: convergenceData.length,
+      covarianceEstimator,
+    }
+  }
+
+  // Information ratio and tracking error objectives. They are solved for the active weights a = w - b over
+  // the portfolio and the benchmark's outside constituents, which the portfolio holds at zero.
+  private solveAgainstBenchmark(
+    assets: Asset[],
+    constraints: PortfolioConstraints,
+    objective: Extract<OptimizationObjective, { benchmark: Benchmark }>,
+  ): OptimizationResult {
+    if (constraints.grossExposure !== undefined) {
+      throw new Error("Gross exposure limits are not available for benchmark-relative objectives")
+    }
+    const n = assets.length
+    const { universe, weights: benchmarkWeights } = BenchmarkAnalytics.resolve(assets, objective.benchmark)
+    const { expectedReturns, covMatrix, covarianceEstimator } = this.estimateInputs(universe)
+    const bounds = this.buildBounds(universe, constraints)
+    const activeBounds: WeightBounds = {
+      lower: bounds.lower.map((l, i) => (i < n ? l : 0) - benchmarkWeights[i]),
+      upper: bounds.upper.map((u, i) => (i < n ? u : 0) - benchmarkWeights[i]),
+      net: (bounds.net ?? 1) - 1,
+      groups: bounds.groups?.map((group) => {
+        const inBenchmark = group.members.reduce((sum, i) => sum + benchmarkWeights[i], 0)
+        return { ...group, lower: group.lower - inBenchmark, upper: group.upper - inBenchmark }
+      }),
+    }
+    ConstrainedSolver.assertFeasible(activeBounds)
+
+    // Cash left over earns the risk-free rate against the fully invested benchmark
+    const carry = this.riskFreeRate * (1 - (bounds.net ?? 1))
+    const activeReturnOf = (a: number[]) => a.reduce((sum, x, i) => sum + x * expectedReturns[i], 0) + carry
+    const trackingErrorOf = (a: number[]) => Math.sqrt(ConstrainedSolver.quadraticForm(covMatrix, a))
+    const convergenceData: number[] = []
+    const track = (a: number[]) => this.record(convergenceData, activeReturnOf(a) / (trackingErrorOf(a) || 1))
+
+    let active: number[]
+    if (objective.type === "max-information-ratio") {
+      // The information ratio does not change when every active weight is scaled, so it is maximised at
+      // every size of the same bet; the budget picks the size. Once weight limits bind, this is the
+      // highest active return for the budget rather than the highest ratio.
+      const budget = objective.trackingErrorBudget
+      const floor = trackingErrorOf(ConstrainedSolver.minimizeQuadratic(covMatrix, { bounds: activeBounds }))
+      if (!(budget >= floor - 1e-9)) {
+        throw new Error(
+          `Tracking error budget ${(budget * 100).toFixed(2)}% is below the ${(floor * 100).toFixed(2)}% ` +
+            "the weight limits allow",
+        )
+      }
+      active = ConstrainedSolver.maximizeReturnForVolatility(covMatrix, expectedReturns, budget, activeBounds, track)
+    } else if (objective.targetActiveReturn === undefined) {
+      active = ConstrainedSolver.minimizeQuadratic(covMatrix, { bounds: activeBounds, onIteration: track })
+    } else {
+      const target = objective.targetActiveReturn - carry
+      const { max } = ConstrainedSolver.returnRange(expectedReturns, activeBounds)
+      if (target > max + 1e-9) {
+        throw new Error(
+          `Target active return ${(objective.targetActiveReturn * 100).toFixed(2)}% is above the ` +
+            `${((max + carry) * 100).toFixed(2)}% reachable within the weight limits`,
+        )
+      }
+      active = ConstrainedSolver.minimizeVarianceForReturn(covMatrix, expectedReturns, target, activeBounds, track)
+    }
+
+    const weights = assets.map((_, i) => active[i] + benchmarkWeights[i])
+    const heldReturns = expectedReturns.slice(0, n)
+    const heldCov = covMatrix.slice(0, n).map((row) => row.slice(0, n))
+    return {
+      optimalWeights: weights,
+      ...this.metricsFor(weights, heldReturns, heldCov, constraints),
+      convergenceData,
+      iterations: convergenceData.length,
+      covarianceEstimator,
+      benchmark: this.benchmarkSummary(objective.benchmark, universe, n, weights, benchmarkWeights, {
+        expectedReturns,
+        covMatrix,
+        constraints,
+      }),
+    }
+  }
+
+  private benchmarkSummary(
+    benchmark: Benchmark,
+    universe: Asset[],
+    held: number,
+    weights: number[],
+    benchmarkWeights: number[],
+    inputs: { expectedReturns: number[]; covMatrix: number[][]; constraints: PortfolioConstraints },
+  ): BenchmarkSummary {
+    const { net, borrowingCost } = this.calculateExposure(weights, inputs.constraints)
+    return BenchmarkAnalytics.summarize(
+      benchmark.name,
+      universe,
+      universe.map((_, i) => (i < held ? weights[i] : 0)),
+      benchmarkWeights,
+      inputs.expectedReturns,
+      inputs.covMatrix,
+      held,
+      this.riskFreeRate * (1 - net) - borrowingCost,
+    )
+  }
+
+  // Weights for an objective on the given bounds. Throws when a target cannot be met.
+  private solveWithinBounds(
+    objective: OptimizationObjective,
+    expectedReturns: number[],
+    covMatrix: number[][],
+    bounds: WeightBounds,
+    track?: (weights: number[]) => void,
+    borrowingRate = 0,
+  ): number[] {
+    switch (objective.type) {
+      case "max-sharpe": {
+        // Borrowing costs rate * (shorts + max(0, net - 1)). With the net exposure fixed the shorts are
+        // (Σ|w| - net) / 2, so that is half the rate per unit of gross exposure plus a constant.
+        const net = bounds.net ?? 1
+        const offset = this.riskFreeRate * net + borrowingRate * (Math.max(0, net - 1) - net / 2)
+        return ConstrainedSolver.maximizeRatio(covMatrix, expectedReturns, offset, bounds, track, {
+          grossCost: borrowingRate / 2,
+        })
+      }
+      case "min-variance":
+        return ConstrainedSolver.minimizeQuadratic(covMatrix, { bounds, onIteration: track })
+      case "risk-parity":
+        if (bounds.lower.some((l) => l < 0)) {
+          throw new Error("Risk parity requires long-only weights")
+        }
+        return ConstrainedSolver.equalRiskContribution(covMatrix, bounds, track)
+      case "hierarchical-risk-parity": {
+        if (bounds.lower.some((l) => l < 0)) {
+          throw new Error("Hierarchical risk parity requires long-only weights")
+        }
+        // HRP ignores weight limits, so its weights are projected onto them
+        const weights = ConstrainedSolver.projectOntoBoundedSimplex(
+          HierarchicalRiskParity.allocate(covMatrix).weights,
+          bounds,
+        )
+        track?.(weights)
+        return weights
+      }
+      case "max-diversification": {
+        const volatilities = covMatrix.map((row, i) => Math.sqrt(row[i]))
+        return ConstrainedSolver.maximizeRatio(covMatrix, volatilities, 0, bounds, track)
+      }
+      case "target-return": {
+        const { max } = ConstrainedSolver.returnRange(expectedReturns, bounds)
+        if (objective.targetReturn > max + 1e-9) {
+          throw new Error(
+            `Target return ${(objective.targetReturn * 100).toFixed(2)}% is above the ${(max * 100).toFixed(2)}% ` +
+              "reachable within the weight limits",
+          )
+        }
+        return ConstrainedSolver.minimizeVarianceForReturn(
+          covMatrix,
+          expectedReturns,
+          objective.targetReturn,
+          bounds,
+          track,
+        )
+      }
+      case "target-volatility": {
+        const minVariance = ConstrainedSolver.minimizeQuadratic(covMatrix, { bounds })
+        const minVolatility = Math.sqrt(ConstrainedSolver.quadraticForm(covMatrix, minVariance))
+        if (objective.targetVolatility < minVolatility - 1e-9) {
+          throw new Error(
+            `Target volatility ${(objective.targetVolatility * 100).toFixed(2)}% is below the ` +
+              `${(minVolatility * 100).toFixed(2)}% minimum-variance portfolio`,
+          )
+        }
+        return ConstrainedSolver.maximizeReturnForVolatility(
+          covMatrix,
+          expectedReturns,
+          objective.targetVolatility,
+          bounds,
+          track,
+        )
+      }
+      case "max-information-ratio":
+      case "min-tracking-error":
+        // The benchmark may reach beyond these assets, so solveAgainstBenchmark builds its own inputs
+        throw new Error("Benchmark-relative objectives need the benchmark's full universe")
+    }
+  }
+
+  private hasHoldingRules(constraints: PortfolioConstraints): boolean {
+    return (
+      constraints.minHoldings !== undefined ||
+      constraints.maxHoldings !== undefined ||
+      (constraints.minBuyIn !== undefined && constraints.minBuyIn > 0)
+    )
+  }
+
+  // Quantity the search minimises for each objective; it must match what solveWithinBounds optimises
+  private objectiveScore(
+    objective: OptimizationObjective,
+    weights: number[],
+    expectedReturns: number[],
+    covMatrix: number[][],
+    constraints: PortfolioConstraints,
+  ): number {
+    const { expectedReturn, volatility, sharpeRatio } = this.metricsFor(
+      weights,
+      expectedReturns,
+      covMatrix,
+      constraints,
+    )
+    switch (objective.type) {
+      case "max-sharpe":
+        return -sharpeRatio
+      case "max-diversification":
+        return -weights.reduce((sum, w, i) => sum + w * Math.sqrt(covMatrix[i][i]), 0) / volatility
+      case "target-volatility":
+        return -expectedReturn
+      default:
+        return volatility * volatility
+    }
+  }
+
+  // Holding counts and buy-in thresholds make the feasible set a union of boxes, one per choice of
+  // held assets. Branch-and-bound searches those choices, solving the continuous problem at each node.
+  private solveWithSelection(
+    assets: Asset[],
+    constraints: PortfolioConstraints,
+    objective: OptimizationObjective,
+  ): OptimizationResult {
+    if (objective.type === "risk-parity" || objective.type === "hierarchical-risk-parity") {
+      throw new Error("Risk parity cannot be combined with holding limits or buy-in thresholds")
+    }
+    if (objective.type === "max-information-ratio" || objective.type === "min-tracking-error") {
+      throw new Error("Benchmark-relative objectives cannot be combined with holding limits or buy-in thresholds")
+    }
+    if ((constraints.minWeight || 0) < 0) {
+      throw new Error("Holding limits and buy-in thresholds cannot be combined with short positions")
+    }
+
+    const { expectedReturns, covMatrix, covarianceEstimator } = this.estimateInputs(assets)
+    // minWeight only binds on held assets here, so the root relaxation lets every weight reach zero
+    const bounds = this.buildBounds(assets, { ...constraints, minWeight: 0 })
+    const buyIn = Math.max(constraints.minWeight || 0, constraints.minBuyIn || 0)
+    const convergenceData: number[] = []
+
+    const search = new BranchAndBound(
+      bounds,
+      {
+        minHoldings: constraints.minHoldings,
+        maxHoldings: constraints.maxHoldings,
+        buyIn: Array(assets.length).fill(buyIn),
+      },
+      (nodeBounds) => {
+        try {
+          const weights = this.solveWithinBounds(
+            objective,
+            expectedReturns,
+            covMatrix,
+            nodeBounds,
+            undefined,
+            constraints.borrowingRate,
+          )
+          return { weights, score: this.objectiveScore(objective, weights, expectedReturns, covMatrix, constraints) }
+        } catch {
+          return null
+        }
+      },
+    )
+    const selection = search.search((incumbent) => {
+      if (incumbent) {
+        this.record(
+          convergenceData,
+          this.metricsFor(incumbent.weights, expectedReturns, covMatrix, constraints).sharpeRatio,
+        )
+      }
+    })
+    // Positions below the tolerance are solver noise on assets the search dropped: fix those at
+    // zero and project back so the remaining weights still meet the net exposure within their limits
+    const held = selection.weights.map((w) => w > CONSTRAINT_TOLERANCE)
+    const optimalWeights = ConstrainedSolver.projectOntoBoundedSimplex(selection.weights, {
+      ...bounds,
+      lower: held.map((h) => (h ? buyIn : 0)),
+      upper: bounds.upper.map((u, i) => (held[i] ? u : 0)),
+    })
+
+    return {
+      optimalWeights,
+      ...this.metricsFor(optimalWeights, expectedReturns, covMatrix, constraints),
+      convergenceData,
+      iterations: selection.nodesExplored,
+      covarianceEstimator,
+      assetSelection: {
+        held: assets.filter((_, i) => held[i]).map((asset) => asset.symbol),
+        excluded: assets.filter((_, i) => !held[i]).map((asset) => asset.symbol),
+        nodesExplored: selection.nodesExplored,
+        provenOptimal: selection.provenOptimal,
+      },
+    }
+  }
+
+  // Discrete asset selection: simulate QAOA for "pick K of N" and equal-weight the cheapest of the most
+  // probable feasible bitstrings
+  async optimizeWithQAOA(assets: Asset[], options: QAOAOptions): Promise<QAOAOptimizationResult> {
+    if (assets.length < 2) {
+      throw new Error("Portfolio must contain at least 2 assets")
+    }
+
+    const { expectedReturns, covMatrix, covarianceEstimator } = this.estimateInputs(assets)
+    const simulator = new QAOASimulator(expectedReturns, covMatrix, {
+      maxIterations: this.maxIterations,
+      ...options,
+    })
+    const simulation = simulator.run()
+
+    const selected = simulation.bestFeasible.selectedIndices
+    const weights = assets.map((_, i) => (selected.includes(i) ? 1 / selected.length : 0))
+    const metrics = this.calculatePortfolioMetrics(assets, weights)
+
+    return {
+      optimalWeights: weights,
+      ...metrics,
+      // The outer loop minimises energy; report it negated so "higher is better" like the Sharpe trace
+      convergenceData: simulation.energyHistory.map((energy) => -energy),
+      iterations: simulation.energyHistory.length,
+      covarianceEstimator,
+      qaoa: {
+        numAssets: options.numAssets,
+        layers: simulation.gammas.length,
+        gammas: simulation.gammas,
+        betas: simulation.betas,
+        expectedCost: simulation.expectedCost,
+        evaluations: simulation.evaluations,
+        selectedBitstring: simulation.bestFeasible.bitstring,
+        mostLikelyBitstring: simulation.mostLikely.bitstring,
+        bitstrings: simulation.topBitstrings.map((b) => ({
+          bitstring: b.bitstring,
+          probability: b.probability,
+          cost: b.cost,
+          feasible: b.feasible,
+          symbols: b.selectedIndices.map((i) => assets[i].symbol),
+        })),
+      },
+    }
+  }
+
+  // The QUBO the annealer (or, for the selection encoding, QAOA) solves, for use outside this app
+  buildQUBO(assets: Asset[], options: QUBOOptions): QUBOModel {
+    const { expectedReturns, covMatrix } = this.estimateInputs(assets)
+    return QUBOBuilder.build(expectedReturns, covMatrix, options)
+  }
+
+  // Annealer-style path: encode the problem as a QUBO and minimise it with simulated annealing or
+  // parallel tempering. The trace records the Sharpe ratio of the best on-budget portfolio so far,
+  // which makes runs directly comparable with the continuous solver
+  async optimizeWithAnnealing(
+    assets: Asset[],
+    options: AnnealingPortfolioOptions,
+  ): Promise<AnnealingOptimizationResult> {
+    if (assets.length < 2) {
+      throw new Error("Portfolio must contain at least 2 assets")
+    }
+
+    const started = Date.now()
+    const { expectedReturns, covMatrix, covarianceEstimator } = this.estimateInputs(assets)
+    const model = QUBOBuilder.build(expectedReturns, covMatrix, options)
+    const solver = new AnnealingSolver(model.matrix, model.offset, options)
+
+    const convergenceData: number[] = []
+    const traceEvery = Math.max(1, Math.ceil((options.sweeps ?? 1000) / this.maxIterations))
+    let sweep = 0
+    const run = solver.run(
+      (bits) => QUBOBuilder.isFeasible(model, bits),
+      (_, bits) => {
+        if (sweep++ % traceEvery !== 0) return
+        const weights = QUBOBuilder.decode(model, bits)
+        this.record(convergenceData, this.metricsFor(weights, expectedReturns, covMatrix).sharpeRatio)
+      },
+    )
+    if (!run.feasible) {
+      throw new Error("Annealing found no portfolio on budget; try more sweeps or a larger penalty")
+    }
+
+    const weights = QUBOBuilder.decode(model, run.bits)
+    const metrics = this.calculatePortfolioMetrics(assets, weights)
+    this.record(convergenceData, metrics.sharpeRatio)
+
+    return {
+      optimalWeights: weights,
+      ...metrics,
+      convergenceData,
+      iterations: run.sweeps,
+      covarianceEstimator,
+      annealing: {
+        method: options.method ?? "simulated-annealing",
+        encoding: model.encoding,
+        variables: model.variables.length,
+        penalty: model.penalty,
+        energy: run.energy,
+        bitstring: run.bits.join(""),
+        sweeps: run.sweeps,
+        acceptanceRate: run.acceptanceRate,
+        swapRate: run.swapRate,
+        seed: run.seed,
+        runtimeMs: Date.now() - started,
+      },
+    }
+  }
+
+  // Minimum-variance portfolios for evenly spaced target returns, from the global minimum-variance
+  // portfolio up to the highest return the weight bounds allow
+  computeEfficientFrontier(
+    assets: Asset[],
+    constraints: PortfolioConstraints = {},
+    points = 20,
+  ): EfficientFrontierPoint[] {
+    if (assets.length < 2) {
+      throw new Error("Portfolio must contain at least 2 assets")
+    }
+
+    const { expectedReturns, covMatrix } = this.estimateInputs(assets)
+    const bounds = this.buildBounds(assets, constraints)
+
+    const minVariance = ConstrainedSolver.minimizeQuadratic(covMatrix, { bounds })
+    const startReturn = minVariance.reduce((sum, w, i) => sum + w * expectedReturns[i], 0)
+    const { max: endReturn } = ConstrainedSolver.returnRange(expectedReturns, bounds)
+    const count = Math.max(2, points)
+
+    return Array.from({ length: count }, (_, k) => {
+      const targetReturn = startReturn + ((endReturn - startReturn) * k) / (count - 1)
+      const weights =
+        k === 0
+          ? minVariance
+          : ConstrainedSolver.minimizeVarianceForReturn(covMatrix, expectedReturns, targetReturn, bounds)
+      return { weights, ...this.calculatePortfolioMetrics(assets, weights, constraints) }
+    })
+  }
+
+  // Monte Carlo paths of portfolio value for fixed weights, using the same expected returns and
+  // covariance the optimizer used; uninvested capital earns the risk-free rate
+  simulatePortfolio(assets: Asset[], weights: number[], options: SimulationOptions = {}): SimulationResult {
+    if (weights.length !== assets.length) {
+      throw new Error("Simulation needs one weight per asset")
+    }
+    const { expectedReturns, covMatrix } = this.estimateInputs(assets)
+    return MonteCarloSimulator.simulate(weights, expectedReturns, covMatrix, {
+      riskFreeRate: this.riskFreeRate,
+      ...options,
+    })
+  }
+
+  // Per-asset expected return and volatility as the optimizer sees them (history-aware)
+  estimateAssetStatistics(assets: Asset[]): { expectedReturn: number; volatility: number }[] {
+    const { expectedReturns, covMatrix } = this.estimateInputs(assets)
+    return assets.map((_, i) => ({
+      expectedReturn: expectedReturns[i],
+      volatility: Math.sqrt(covMatrix[i][i]),
+    }))
   }
 
   // Calculate portfolio metrics for given weights
   calculatePortfolioMetrics(
     assets: Asset[],
     weights: number[],
+    constraints: PortfolioConstraints = {},
   ): {
     expectedReturn: number
     volatility: number
     sharpeRatio: number
   } {
-    const expectedReturns = assets.map((a) => a.expectedReturn)
-    const covMatrix = this.calculateCovarianceMatrix(assets)
+    const { expectedReturns, covMatrix } = this.estimateInputs(assets)
+    return this.metricsFor(weights, expectedReturns, covMatrix, constraints)
+  }
 
-    const portfolioReturn = weights.reduce((sum, w, i) => sum + w * expectedReturns[i], 0)
+  // VaR, CVaR, Sortino, drawdown and risk contributions for given weights. Historical figures use the
+  // aligned history and are left out unless every asset held carries one.
+  calculateRiskMetrics(
+    assets: Asset[],
+    weights: number[],
+    options: RiskOptions = {},
+    constraints: PortfolioConstraints = {},
+  ): RiskReport {
+    const { expectedReturns, covMatrix } = this.estimateInputs(assets)
+    const { expectedReturn, volatility } = this.metricsFor(weights, expectedReturns, covMatrix, constraints)
+    const { net, borrowingCost } = this.calculateExposure(weights, constraints)
+    // Cash earns the risk-free rate and borrowing is charged, as in the Sharpe ratio
+    const carry = this.riskFreeRate * (1 - net) - borrowingCost
 
-    let portfolioVariance = 0
-    for (let i = 0; i < weights.length; i++) {
-      for (let j = 0; j < weights.length; j++) {
-        portfolioVariance += weights[i] * weights[j] * covMatrix[i][j]
-      }
+    const history = RiskModel.alignedReturns(assets)
+    const held = weights.flatMap((w, i) => (w !== 0 ? [i] : []))
+    let portfolioHistory: number[] | null = null
+    if (held.length > 0 && held.every((i) => history[i] !== null)) {
+      const length = (history[held[0]] as number[]).length
+      const carryPerPeriod = carry / this.periodsPerYear
+      portfolioHistory = Array.from(
+        { length },
+        (_, t) => held.reduce((sum, i) => sum + weights[i] * (history[i] as number[])[t], 0) + carryPerPeriod,
+      )
     }
 
-    const portfolioVolatility = Math.sqrt(portfolioVariance)
-    const sharpeRatio = (portfolioReturn - this.riskFreeRate) / portfolioVolatility
+    return RiskAnalytics.report(
+      {
+        weights,
+        covMatrix,
+        expectedReturn: expectedReturn + carry,
+        volatility,
+        riskFreeRate: this.riskFreeRate,
+        periodsPerYear: this.periodsPerYear,
+        history: portfolioHistory,
+      },
+      options,
+    )
+  }
 
-    return {
-      expectedReturn: portfolioReturn,
-      volatility: portfolioVolatility,
-      sharpeRatio,
-    }
+  // Whole-lot orders for the weights, keeping the tracking error to them low under the optimizer's covariance
+  allocateShares(assets: Asset[], weights: number[], capital: number): DiscreteAllocation {
+    const { covMatrix } = this.estimateInputs(assets)
+    return DiscreteAllocator.allocate(assets, weights, capital, covMatrix)
+  }
+
+  // Active weights, tracking error and beta of the weights against a benchmark
+  calculateBenchmarkMetrics(
+    assets: Asset[],
+    weights: number[],
+    benchmark: Benchmark,
+    constraints: PortfolioConstraints = {},
+  ): BenchmarkSummary {
+    const { universe, weights: benchmarkWeights } = BenchmarkAnalytics.resolve(assets, benchmark)
+    const { expectedReturns, covMatrix } = this.estimateInputs(universe)
+    return this.benchmarkSummary(benchmark, universe, assets.length, weights, benchmarkWeights, {
+      expectedReturns,
+      covMatrix,
+      constraints,
+    })
+  }
+
+  // Single-linkage cluster tree of the assets' correlations, as used by hierarchical risk parity
+  clusterAssets(assets: Asset[]): ClusterNode {
+    const { covMatrix } = this.estimateInputs(assets)
+    return HierarchicalRiskParity.cluster(covMatrix)
+  }
+
+  // Equilibrium returns implied by market caps, blended with the views, over the optimizer's covariance
+  calculateBlackLitterman(
+    assets: Asset[],
+    views: BlackLittermanView[],
+    options: BlackLittermanOptions = {},
+  ): BlackLittermanResult {
+    const { covMatrix } = this.estimateInputs(assets)
+    return BlackLitterman.posterior(assets, covMatrix, views, this.riskFreeRate, options)
   }
 }
 
@@ -227,6 +1586,8 @@ export const sampleAssets: Asset[] = [
     expectedReturn: 0.12,
     volatility: 0.25,
     price: 175.5,
+    category: "Technology",
+    marketCap: 2.7e12,
   },
   {
     symbol: "GOOGL",
@@ -234,6 +1595,8 @@ export const sampleAssets: Asset[] = [
     expectedReturn: 0.14,
     volatility: 0.28,
     price: 2750.0,
+    category: "Technology",
+    marketCap: 1.7e12,
   },
   {
     symbol: "MSFT",
@@ -241,6 +1604,8 @@ export const sampleAssets: Asset[] = [
     expectedReturn: 0.11,
     volatility: 0.22,
     price: 415.25,
+    category: "Technology",
+    marketCap: 3.1e12,
   },
   {
     symbol: "TSLA",
@@ -248,6 +1613,8 @@ export const sampleAssets: Asset[] = [
     expectedReturn: 0.18,
     volatility: 0.45,
     price: 245.75,
+    category: "Consumer",
+    marketCap: 7.8e11,
   },
   {
     symbol: "SPY",
@@ -255,5 +1622,7 @@ export const sampleAssets: Asset[] = [
     expectedReturn: 0.1,
     volatility: 0.18,
     price: 445.2,
+    category: "ETF",
+    marketCap: 5e11,
   },
 ]
@@ -0,0 +1,203 @@
+// Quadratic unconstrained binary optimisation (QUBO) models of the portfolio problem, the input format
+// of quantum annealers. Energy is x'Qx + offset over binary x with Q upper triangular; because x² = x
+// the diagonal holds the linear terms.
+//
+// Both encodings minimise q * w'Σw - (1 - q) * μ'w + A * (budget - target)^2:
+// - "selection": one bit per asset marks it as held and the budget counts holdings (pick K of N,
+//   the same cost as the QAOA simulator)
+// - "discrete-weights": each asset's weight is a whole number of units of 1 / resolution, written in
+//   binary with bounded coefficients so no bit pattern exceeds the asset's maximum weight
+
+export const MAX_QUBO_VARIABLES = 256
+
+export type QUBOEncoding = "selection" | "discrete-weights"
+
+export interface QUBOOptions {
+  encoding: QUBOEncoding
+  numAssets?: number // selection: K, the number of assets to hold
+  resolution?: number // discrete weights: the budget is split into this many units
+  minWeight?: number // discrete weights: per-asset limits, rounded inwards to whole units
+  maxWeight?: number
+  riskAversion?: number // q in q * risk - (1 - q) * return
+  penalty?: number // weight A of the budget penalty
+}
+
+export interface QUBOVariable {
+  asset: number
+  units: number // units the bit adds to its asset when set (always 1 for selection)
+}
+
+export interface QUBOModel {
+  encoding: QUBOEncoding
+  matrix: number[][]
+  offset: number
+  variables: QUBOVariable[]
+  baseUnits: number[] // units each asset holds with every bit cleared
+  target: number // K for selection, the resolution for discrete weights
+  penalty: number
+}
+
+// Spin form of the same energy under x = (1 - z) / 2, so z = +1 is |0> (bit clear) and z = -1 is |1>:
+// energy = Σ h_i z_i + Σ_{i<j} J_ij z_i z_j + offset
+export interface IsingModel {
+  h: number[]
+  couplings: { i: number; j: number; value: number }[]
+  offset: number
+}
+
+export class QUBOBuilder {
+  static build(expectedReturns: number[], covMatrix: number[][], options: QUBOOptions): QUBOModel {
+    const n = expectedReturns.length
+    const riskAversion = options.riskAversion ?? 0.5
+
+    let variables: QUBOVariable[]
+    let baseUnits: number[]
+    let target: number
+    let scale: number // weight of one unit in the cost
+
+    if (options.encoding === "selection") {
+      target = options.numAssets ?? 0
+      if (!Number.isInteger(target) || target < 1 || target > n) {
+        throw new Error(`Number of assets to select must be between 1 and ${n}`)
+      }
+      variables = expectedReturns.map((_, asset) => ({ asset, units: 1 }))
+      baseUnits = Array(n).fill(0)
+      scale = 1
+    } else {
+      target = options.resolution ?? 20
+      if (!Number.isInteger(target) || target < 1) {
+        throw new Error("Weight resolution must be a positive whole number")
+      }
+      const minWeight = options.minWeight ?? 0
+      const maxWeight = options.maxWeight ?? 1
+      if (minWeight < 0) {
+        throw new Error("Discrete weights must be non-negative")
+      }
+      // Round inwards so every encodable weight respects the limits
+      const minUnits = Math.ceil(minWeight * target - 1e-9)
+      const maxUnits = Math.floor(maxWeight * target + 1e-9)
+      if (minUnits > maxUnits || n * minUnits > target || n * maxUnits < target) {
+        throw new Error(`No portfolio of whole 1/${target} weight units satisfies the weight limits`)
+      }
+      variables = []
+      for (let asset = 0; asset < n; asset++) {
+        this.boundedBinary(maxUnits - minUnits).forEach((units) => variables.push({ asset, units }))
+      }
+      baseUnits = Array(n).fill(minUnits)
+      scale = 1 / target
+    }
+
+    if (variables.length > MAX_QUBO_VARIABLES) {
+      throw new Error(`QUBO models support at most ${MAX_QUBO_VARIABLES} binary variables`)
+    }
+
+    const penalty =
+      options.penalty ?? this.defaultPenalty(expectedReturns, covMatrix, riskAversion, scale, options.encoding)
+
+    // Cost over units u: u'Au + c'u + constant
+    const quadratic = covMatrix.map((row) => row.map((v) => riskAversion * scale * scale * v + penalty))
+    const linear = expectedReturns.map((mu) => -(1 - riskAversion) * scale * mu - 2 * penalty * target)
+    const constant = penalty * target * target
+
+    // Substitute u = base + Mx, where column v of M is the bit's units on its asset
+    const baseTerm = quadratic.map((row) => row.reduce((sum, v, j) => sum + v * baseUnits[j], 0))
+    const matrix = variables.map((a, v) =>
+      variables.map((b, w) => {
+        if (w < v) return 0
+        const pair = quadratic[a.asset][b.asset] * a.units * b.units
+        return v === w ? pair + a.units * (2 * baseTerm[a.asset] + linear[a.asset]) : 2 * pair
+      }),
+    )
+    const offset = baseUnits.reduce((sum, u, i) => sum + u * (baseTerm[i] + linear[i]), 0) + constant
+
+    return { encoding: options.encoding, matrix, offset, variables, baseUnits, target, penalty }
+  }
+
+  // Coefficients 1, 2, 4, ... with the last one cut short so they sum to exactly `capacity`
+  // and every total from 0 to capacity is reachable
+  private static boundedBinary(capacity: number): number[] {
+    const coefficients: number[] = []
+    let total = 0
+    for (let c = 1; total + c <= capacity; c *= 2) {
+      coefficients.push(c)
+      total += c
+    }
+    if (total < capacity) coefficients.push(capacity - total)
+    return coefficients
+  }
+
+  // One unit more or less changes the cost by at most the largest marginal contribution, so a
+  // penalty of that size keeps every off-budget state above its on-budget neighbours
+  private static defaultPenalty(
+    expectedReturns: number[],
+    covMatrix: number[][],
+    riskAversion: number,
+    scale: number,
+    encoding: QUBOEncoding,
+  ): number {
+    let maxMarginal = 0
+    for (let i = 0; i < expectedReturns.length; i++) {
+      const risk =
+        encoding === "selection"
+          ? covMatrix[i].reduce((sum, v, j) => sum + (i === j ? v : 2 * Math.abs(v)), 0)
+          : scale * covMatrix[i][i] + 2 * Math.max(...covMatrix[i].map(Math.abs))
+      const marginal = riskAversion * risk + (1 - riskAversion) * Math.abs(expectedReturns[i])
+      maxMarginal = Math.max(maxMarginal, scale * marginal)
+    }
+    return Math.max(encoding === "selection" ? 1e-3 : 1e-3 * scale, maxMarginal)
+  }
+
+  static toIsing(model: QUBOModel): IsingModel {
+    const n = model.variables.length
+    const h = Array(n).fill(0)
+    const couplings: IsingModel["couplings"] = []
+    let offset = model.offset
+    for (let i = 0; i < n; i++) {
+      // Q_ii x_i = Q_ii / 2 - Q_ii z_i / 2
+      h[i] -= model.matrix[i][i] / 2
+      offset += model.matrix[i][i] / 2
+      // Q_ij x_i x_j = Q_ij / 4 * (1 - z_i - z_j + z_i z_j)
+      for (let j = i + 1; j < n; j++) {
+        const value = model.matrix[i][j]
+        if (value === 0) continue
+        h[i] -= value / 4
+        h[j] -= value / 4
+        offset += value / 4
+        couplings.push({ i, j, value: value / 4 })
+      }
+    }
+    return { h, couplings, offset }
+  }
+
+  static energy(model: QUBOModel, bits: ArrayLike<number>): number {
+    let energy = model.offset
+    for (let v = 0; v < bits.length; v++) {
+      if (!bits[v]) continue
+      for (let w = v; w < bits.length; w++) {
+        if (bits[w]) energy += model.matrix[v][w]
+      }
+    }
+    return energy
+  }
+
+  // Units held by each asset
+  static units(model: QUBOModel, bits: ArrayLike<number>): number[] {
+    const units = [...model.baseUnits]
+    model.variables.forEach((variable, v) => {
+      if (bits[v]) units[variable.asset] += variable.units
+    })
+    return units
+  }
+
+  static isFeasible(model: QUBOModel, bits: ArrayLike<number>): boolean {
+    return this.units(model, bits).reduce((sum, u) => sum + u, 0) === model.target
+  }
+
+  // Portfolio weights: selected assets equally weighted, or units times 1 / resolution
+  static decode(model: QUBOModel, bits: ArrayLike<number>): number[] {
+    const units = this.units(model, bits)
+    const total = units.reduce((sum, u) => sum + u, 0)
+    if (model.encoding === "selection") return units.map((u) => (total > 0 ? u / total : 0))
+    return units.map((u) => u / model.target)
+  }
+}
@@ -0,0 +1,20 @@
+// Seeded pseudo-random numbers, so stochastic solvers can be replayed exactly from a recorded seed
+
+export type RandomSource = () => number // uniform on [0, 1)
+
+// Mulberry32: small, fast and statistically good enough for Monte Carlo and annealing
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// A fresh 32-bit seed for runs that did not ask for one
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296)
+}
@@ -0,0 +1,138 @@
+// Resampled efficiency (Michaud). Expected returns and covariances are estimates, and optimal weights
+// amplify their errors. Resampling draws many input sets that the same amount of data could just as well
+// have produced, optimizes each one and averages the weights; the spread of the weights across the draws
+// shows which allocations the data actually supports.
+
+import { RiskModel, type CovarianceEstimator } from "./risk-model"
+import { MonteCarloSimulator } from "./monte-carlo"
+import { createRandom } from "./random"
+
+export type ResamplingMethod = "parametric" | "bootstrap"
+
+export const resamplingMethods: { value: ResamplingMethod; label: string; description: string }[] = [
+  {
+    value: "parametric",
+    label: "Parametric",
+    description: "Simulate normal returns with the estimated means and covariance",
+  },
+  {
+    value: "bootstrap",
+    label: "Bootstrap",
+    description: "Resample whole periods of the return history, keeping its fat tails and co-movement",
+  },
+]
+
+export const DEFAULT_RESAMPLES = 100
+export const MAX_RESAMPLES = 1000
+// Percentiles of each weight across the draws reported as its confidence interval
+export const RESAMPLING_INTERVAL: [number, number] = [5, 95]
+
+export interface ResamplingOptions {
+  method: ResamplingMethod
+  samples?: number // number of input sets drawn
+  observations?: number // periods each draw is estimated from; the history length, else five years
+}
+
+export interface ResampledInputs {
+  expectedReturns: number[]
+  covMatrix: number[][]
+}
+
+export interface ResamplingSummary {
+  method: ResamplingMethod
+  samples: number // draws that produced weights
+  failed: number // draws the objective had no solution for, such as an unreachable target return
+  observations: number
+  nominalWeights: number[] // the objective solved once at the point estimates
+  standardDeviations: number[]
+  lower: number[] // RESAMPLING_INTERVAL percentiles of each weight across the draws
+  upper: number[]
+}
+
+export class PortfolioResampler {
+  // Input sets drawn around annual estimates. Each draw re-estimates the means and covariance from
+  // `observations` periods, so less data gives more dispersed inputs. Bootstrap draws need the aligned
+  // history of every asset and are recentred on expectedReturns, which may not be the history mean.
+  static draw(
+    expectedReturns: number[],
+    covMatrix: number[][],
+    history: number[][] | null,
+    options: {
+      method: ResamplingMethod
+      samples: number
+      observations: number
+      periodsPerYear: number
+      estimator: CovarianceEstimator
+      seed: number
+    },
+  ): ResampledInputs[] {
+    const { samples, observations, periodsPerYear, estimator } = options
+    if (!Number.isInteger(samples) || samples < 2 || samples > MAX_RESAMPLES) {
+      throw new Error(`The number of resamples must be a whole number between 2 and ${MAX_RESAMPLES}`)
+    }
+    if (!Number.isInteger(observations) || observations < 2) {
+      throw new Error("Each resample needs at least 2 observations")
+    }
+    if (options.method === "bootstrap" && !history) {
+      throw new Error("Bootstrap resampling needs return history for every asset")
+    }
+
+    const n = expectedReturns.length
+    const random = createRandom(options.seed)
+    const normal = MonteCarloSimulator.normalSampler(random)
+    const lower = MonteCarloSimulator.cholesky(covMatrix.map((row) => row.map((v) => v / periodsPerYear)))
+    const historyMeans = history?.map((series) => RiskModel.mean(series))
+
+    return Array.from({ length: samples }, () => {
+      // series[i][t], one row per asset as the covariance estimators expect
+      const series = expectedReturns.map(() => Array(observations).fill(0))
+      if (history) {
+        const length = history[0].length
+        for (let t = 0; t < observations; t++) {
+          const period = Math.floor(random() * length)
+          for (let i = 0; i < n; i++) series[i][t] = history[i][period]
+        }
+      } else {
+        const shocks = Array(n).fill(0)
+        for (let t = 0; t < observations; t++) {
+          for (let i = 0; i < n; i++) shocks[i] = normal()
+          for (let i = 0; i < n; i++) {
+            let value = expectedReturns[i] / periodsPerYear
+            for (let k = 0; k <= i; k++) value += lower[i][k] * shocks[k]
+            series[i][t] = value
+          }
+        }
+      }
+
+      const means = series.map((s) => RiskModel.mean(s))
+      return {
+        expectedReturns: historyMeans
+          ? expectedReturns.map((mu, i) => mu + (means[i] - historyMeans[i]) * periodsPerYear)
+          : means.map((m) => m * periodsPerYear),
+        covMatrix: RiskModel.estimateCovariance(series, estimator).map((row) => row.map((v) => v * periodsPerYear)),
+      }
+    })
+  }
+
+  // Average weights with their spread and percentile interval across the draws
+  static summarize(weightSets: number[][]): {
+    mean: number[]
+    standardDeviations: number[]
+    lower: number[]
+    upper: number[]
+  } {
+    const count = weightSets.length
+    const n = weightSets[0].length
+    const columns = Array.from({ length: n }, (_, i) => weightSets.map((weights) => weights[i]))
+    const mean = columns.map((column) => column.reduce((sum, w) => sum + w, 0) / count)
+    const sorted = columns.map((column) => [...column].sort((a, b) => a - b))
+    return {
+      mean,
+      standardDeviations: columns.map((column, i) =>
+        Math.sqrt(column.reduce((sum, w) => sum + (w - mean[i]) ** 2, 0) / Math.max(1, count - 1)),
+      ),
+      lower: sorted.map((column) => MonteCarloSimulator.quantile(column, RESAMPLING_INTERVAL[0] / 100)),
+      upper: sorted.map((column) => MonteCarloSimulator.quantile(column, RESAMPLING_INTERVAL[1] / 100)),
+    }
+  }
+}
@@ -0,0 +1,199 @@
+// Downside risk measures for a fixed portfolio. Parametric figures assume normally distributed returns
+// with the optimizer's expected return and volatility; historical figures use the portfolio's realised
+// returns over the aligned asset history. Losses are positive fractions of portfolio value.
+
+export const DEFAULT_CONFIDENCE_LEVELS = [0.95, 0.99]
+
+export interface RiskOptions {
+  confidenceLevels?: number[] // e.g. 0.95 for the loss exceeded 5% of the time
+  horizonPeriods?: number // VaR horizon in history periods (trading days by default)
+}
+
+export interface ValueAtRisk {
+  confidence: number
+  parametricVaR: number
+  parametricCVaR: number // expected loss beyond the VaR, also called expected shortfall
+  historicalVaR?: number // only with return history
+  historicalCVaR?: number
+}
+
+export interface RiskContribution {
+  marginal: number // change in volatility per unit of weight
+  contribution: number // weight times marginal; contributions sum to the portfolio volatility
+  percentage: number // share of the portfolio volatility
+}
+
+export interface RiskReport {
+  horizonPeriods: number
+  periodsPerYear: number
+  valueAtRisk: ValueAtRisk[]
+  sortinoRatio: number
+  downsideDeviation: number // annualised, below the risk-free rate
+  maxDrawdown?: number // only with return history
+  historyObservations: number // 0 when every figure is parametric
+  riskContributions: RiskContribution[]
+}
+
+export interface RiskInputs {
+  weights: number[]
+  covMatrix: number[][]
+  expectedReturn: number // annual, including cash and borrowing
+  volatility: number // annual
+  riskFreeRate: number
+  periodsPerYear: number
+  history: number[] | null // periodic portfolio returns, oldest first
+}
+
+export class RiskAnalytics {
+  static report(inputs: RiskInputs, options: RiskOptions = {}): RiskReport {
+    const confidenceLevels = options.confidenceLevels ?? DEFAULT_CONFIDENCE_LEVELS
+    const horizonPeriods = options.horizonPeriods ?? 1
+    if (confidenceLevels.some((c) => !(c > 0 && c < 1))) {
+      throw new Error("Confidence levels must be between 0 and 1")
+    }
+    if (!Number.isInteger(horizonPeriods) || horizonPeriods < 1) {
+      throw new Error("The VaR horizon must be a positive whole number of periods")
+    }
+
+    const { expectedReturn, volatility, riskFreeRate, periodsPerYear, history } = inputs
+    const horizonMean = (expectedReturn * horizonPeriods) / periodsPerYear
+    const horizonVolatility = volatility * Math.sqrt(horizonPeriods / periodsPerYear)
+    const horizonReturns = history ? this.compound(history, horizonPeriods) : []
+    const sortedReturns = [...horizonReturns].sort((a, b) => a - b)
+
+    const valueAtRisk = confidenceLevels.map((confidence) => {
+      const z = this.normalInverse(confidence)
+      const entry: ValueAtRisk = {
+        confidence,
+        parametricVaR: z * horizonVolatility - horizonMean,
+        parametricCVaR: (horizonVolatility * this.normalDensity(z)) / (1 - confidence) - horizonMean,
+      }
+      if (sortedReturns.length > 0) {
+        Object.assign(entry, this.historicalVaR(sortedReturns, confidence))
+      }
+      return entry
+    })
+
+    let downsideDeviation: number
+    let excessReturn: number
+    if (history && history.length > 1) {
+      const target = riskFreeRate / periodsPerYear
+      const meanReturn = history.reduce((sum, r) => sum + r, 0) / history.length
+      const downsideSquares = history.reduce((sum, r) => sum + Math.min(0, r - target) ** 2, 0) / history.length
+      downsideDeviation = Math.sqrt(downsideSquares * periodsPerYear)
+      excessReturn = (meanReturn - target) * periodsPerYear
+    } else {
+      // Below-target semideviation of a normal distribution: σ²[(1 + d²)Φ(d) + dφ(d)] with d = (τ - μ) / σ
+      const d = volatility > 0 ? (riskFreeRate - expectedReturn) / volatility : 0
+      downsideDeviation = volatility * Math.sqrt((1 + d * d) * this.normalCdf(d) + d * this.normalDensity(d))
+      excessReturn = expectedReturn - riskFreeRate
+    }
+
+    return {
+      horizonPeriods,
+      periodsPerYear,
+      valueAtRisk,
+      sortinoRatio: downsideDeviation > 0 ? excessReturn / downsideDeviation : 0,
+      downsideDeviation,
+      maxDrawdown: history ? this.maxDrawdown(history) : undefined,
+      historyObservations: history?.length ?? 0,
+      riskContributions: this.riskContributions(inputs.weights, inputs.covMatrix),
+    }
+  }
+
+  // Euler decomposition of volatility: σ = Σ w_i (Σw)_i / σ
+  static riskContributions(weights: number[], covMatrix: number[][]): RiskContribution[] {
+    const covWeights = covMatrix.map((row) => row.reduce((sum, v, j) => sum + v * weights[j], 0))
+    const volatility = Math.sqrt(Math.max(0, weights.reduce((sum, w, i) => sum + w * covWeights[i], 0)))
+    return weights.map((w, i) => {
+      const marginal = volatility > 0 ? covWeights[i] / volatility : 0
+      const contribution = w * marginal
+      return { marginal, contribution, percentage: volatility > 0 ? contribution / volatility : 0 }
+    })
+  }
+
+  // Largest fall from a running peak of the compounded return series
+  static maxDrawdown(returns: number[]): number {
+    let value = 1
+    let peak = 1
+    let worst = 0
+    for (const r of returns) {
+      value *= 1 + r
+      peak = Math.max(peak, value)
+      worst = Math.max(worst, 1 - value / peak)
+    }
+    return worst
+  }
+
+  // Loss at the (1 - confidence) quantile and the mean loss of the returns at or below it
+  private static historicalVaR(
+    sorted: number[],
+    confidence: number,
+  ): { historicalVaR: number; historicalCVaR: number } {
+    const position = (sorted.length - 1) * (1 - confidence)
+    const below = Math.floor(position)
+    const above = Math.min(sorted.length - 1, below + 1)
+    const quantile = sorted[below] + (sorted[above] - sorted[below]) * (position - below)
+    const tail = sorted.slice(0, below + 1)
+    return {
+      historicalVaR: -quantile,
+      historicalCVaR: -tail.reduce((sum, r) => sum + r, 0) / tail.length,
+    }
+  }
+
+  // Overlapping compounded returns over `periods` consecutive observations
+  private static compound(returns: number[], periods: number): number[] {
+    if (periods === 1) return returns
+    const compounded: number[] = []
+    for (let start = 0; start + periods <= returns.length; start++) {
+      let growth = 1
+      for (let k = start; k < start + periods; k++) growth *= 1 + returns[k]
+      compounded.push(growth - 1)
+    }
+    return compounded
+  }
+
+  static normalDensity(x: number): number {
+    return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI)
+  }
+
+  // Abramowitz and Stegun 26.2.17, accurate to about 1e-7
+  static normalCdf(x: number): number {
+    const t = 1 / (1 + 0.2316419 * Math.abs(x))
+    const poly = t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))))
+    const tail = this.normalDensity(x) * poly
+    return x >= 0 ? 1 - tail : tail
+  }
+
+  // Acklam's rational approximation of the standard normal quantile, accurate to about 1e-9
+  static normalInverse(p: number): number {
+    const a = [
+      -39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716,
+      2.506628277459239,
+    ]
+    const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572]
+    const c = [
+      -0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968,
+      2.938163982698783,
+    ]
+    const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416]
+    const low = 0.02425
+
+    if (p < low) {
+      const q = Math.sqrt(-2 * Math.log(p))
+      return (
+        (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+        ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+      )
+    }
+    if (p > 1 - low) {
+      return -this.normalInverse(1 - p)
+    }
+    const q = p - 0.5
+    const r = q * q
+    return (
+      ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+      (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+    )
+  }
+}
@@ -0,0 +1,227 @@
+import type { Asset } from "./quantum-optimizer"
+
+// Fewer periodic returns than this cannot produce a sample covariance
+export const MIN_HISTORY_OBSERVATIONS = 2
+
+export type CovarianceEstimator = "sample" | "ledoit-wolf" | "constant-correlation" | "ewma"
+
+export const covarianceEstimators: { value: CovarianceEstimator; label: string; description: string }[] = [
+  { value: "sample", label: "Sample", description: "Unbiased sample covariance of the return history" },
+  {
+    value: "ledoit-wolf",
+    label: "Ledoit-Wolf",
+    description: "Shrinks the sample covariance towards a scaled identity matrix",
+  },
+  {
+    value: "constant-correlation",
+    label: "Constant Correlation",
+    description: "Shrinks towards a target where every pair shares the average correlation",
+  },
+  { value: "ewma", label: "EWMA", description: "Exponentially weighted, so recent returns count more (λ = 0.94)" },
+]
+
+// RiskMetrics decay factor for daily data
+export const EWMA_DECAY = 0.94
+
+export class RiskModel {
+  // Simple periodic returns from a price series ordered oldest first. A period whose previous price is
+  // not positive has no return and is NaN, so every return stays on its own date
+  static toReturns(prices: number[]): number[] {
+    const returns: number[] = []
+    for (let i = 1; i < prices.length; i++) {
+      returns.push(prices[i - 1] > 0 ? prices[i] / prices[i - 1] - 1 : Number.NaN)
+    }
+    return returns
+  }
+
+  // Return series for an asset, preferring explicit returns over prices. Periods without a finite
+  // return are kept as they are, to be dropped for every asset once the series are aligned
+  static getReturnSeries(asset: Asset): number[] | null {
+    const returns = asset.returnHistory?.length
+      ? asset.returnHistory
+      : asset.priceHistory?.length
+        ? this.toReturns(asset.priceHistory)
+        : null
+
+    if (!returns || returns.filter((r) => Number.isFinite(r)).length < MIN_HISTORY_OBSERVATIONS) return null
+    return returns
+  }
+
+  // Trim every available series to the most recent window they all share, then drop the dates where any
+  // of them has no finite return, so the resulting covariance matrix is built from the same dates and
+  // stays positive semi-definite
+  static alignedReturns(assets: Asset[]): (number[] | null)[] {
+    const series = assets.map((asset) => this.getReturnSeries(asset))
+    const available = series.filter((s): s is number[] => s !== null)
+    if (available.length === 0) return series
+
+    const window = Math.min(...available.map((s) => s.length))
+    const trimmed = series.map((s) => (s ? s.slice(s.length - window) : null))
+    const dates = Array.from({ length: window }, (_, t) => t).filter((t) =>
+      trimmed.every((s) => !s || Number.isFinite(s[t])),
+    )
+    if (dates.length < MIN_HISTORY_OBSERVATIONS) return series.map(() => null)
+    return trimmed.map((s) => (s ? dates.map((t) => s[t]) : null))
+  }
+
+  static mean(series: number[]): number {
+    return series.reduce((sum, r) => sum + r, 0) / series.length
+  }
+
+  // Estimate per-period covariance of equally long return series with the chosen estimator
+  static estimateCovariance(series: number[][], estimator: CovarianceEstimator): number[][] {
+    if (series.length === 0) return []
+
+    switch (estimator) {
+      case "ledoit-wolf":
+        return this.ledoitWolfCovariance(series)
+      case "constant-correlation":
+        return this.constantCorrelationCovariance(series)
+      case "ewma":
+        return this.ewmaCovariance(series)
+      default:
+        return this.sampleCovariance(series)
+    }
+  }
+
+  // Unbiased sample covariance of equally long return series (one row per asset)
+  static sampleCovariance(series: number[][]): number[][] {
+    const n = series.length
+    const t = series[0]?.length ?? 0
+    const means = series.map((s) => this.mean(s))
+    const cov: number[][] = Array(n)
+      .fill(null)
+      .map(() => Array(n).fill(0))
+
+    for (let i = 0; i < n; i++) {
+      for (let j = i; j < n; j++) {
+        let sum = 0
+        for (let k = 0; k < t; k++) {
+          sum += (series[i][k] - means[i]) * (series[j][k] - means[j])
+        }
+        cov[i][j] = cov[j][i] = sum / (t - 1)
+      }
+    }
+
+    return cov
+  }
+
+  // Demeaned series and the maximum-likelihood (divide by T) covariance used by the shrinkage estimators
+  private static centered(series: number[][]): { x: number[][]; cov: number[][] } {
+    const n = series.length
+    const t = series[0].length
+    const x = series.map((s) => {
+      const m = this.mean(s)
+      return s.map((r) => r - m)
+    })
+    const cov: number[][] = Array(n)
+      .fill(null)
+      .map(() => Array(n).fill(0))
+
+    for (let i = 0; i < n; i++) {
+      for (let j = i; j < n; j++) {
+        let sum = 0
+        for (let k = 0; k < t; k++) sum += x[i][k] * x[j][k]
+        cov[i][j] = cov[j][i] = sum / t
+      }
+    }
+
+    return { x, cov }
+  }
+
+  // Ledoit & Wolf (2004): optimal convex combination of S and mu * I, where mu is the average variance
+  static ledoitWolfCovariance(series: number[][]): number[][] {
+    const n = series.length
+    const t = series[0].length
+    const { x, cov } = this.centered(series)
+    const mu = cov.reduce((sum, row, i) => sum + row[i], 0) / n
+
+    // delta: distance of S from the target; beta: estimation error of S, capped at delta
+    let delta = 0
+    let beta = 0
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        const target = i === j ? mu : 0
+        delta += Math.pow(cov[i][j] - target, 2)
+        let error = 0
+        for (let k = 0; k < t; k++) error += Math.pow(x[i][k] * x[j][k] - cov[i][j], 2)
+        beta += error / (t * t)
+      }
+    }
+    const shrinkage = delta > 0 ? Math.min(beta, delta) / delta : 0
+
+    return cov.map((row, i) => row.map((v, j) => (1 - shrinkage) * v + (i === j ? shrinkage * mu : 0)))
+  }
+
+  // Ledoit & Wolf (2003): shrink towards a matrix with the sample variances and the average pairwise correlation
+  static constantCorrelationCovariance(series: number[][]): number[][] {
+    const n = series.length
+    const t = series[0].length
+    const { x, cov } = this.centered(series)
+    const sd = cov.map((row, i) => Math.sqrt(row[i]))
+
+    let correlationSum = 0
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        if (sd[i] > 0 && sd[j] > 0) correlationSum += cov[i][j] / (sd[i] * sd[j])
+      }
+    }
+    const averageCorrelation = n > 1 ? (2 * correlationSum) / (n * (n - 1)) : 0
+    const target = cov.map((row, i) => row.map((v, j) => (i === j ? v : averageCorrelation * sd[i] * sd[j])))
+
+    // pi: asymptotic variance of S; rho: covariance between S and the target; gamma: misspecification of the target
+    let pi = 0
+    let rho = 0
+    let gamma = 0
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        let piIJ = 0
+        for (let k = 0; k < t; k++) piIJ += Math.pow(x[i][k] * x[j][k] - cov[i][j], 2)
+        piIJ /= t
+        pi += piIJ
+        gamma += Math.pow(target[i][j] - cov[i][j], 2)
+
+        if (i === j) {
+          rho += piIJ
+        } else if (sd[i] > 0 && sd[j] > 0) {
+          let thetaII = 0
+          let thetaJJ = 0
+          for (let k = 0; k < t; k++) {
+            const cross = x[i][k] * x[j][k] - cov[i][j]
+            thetaII += (x[i][k] * x[i][k] - cov[i][i]) * cross
+            thetaJJ += (x[j][k] * x[j][k] - cov[j][j]) * cross
+          }
+          rho += (averageCorrelation / 2) * ((sd[j] / sd[i]) * (thetaII / t) + (sd[i] / sd[j]) * (thetaJJ / t))
+        }
+      }
+    }
+    const shrinkage = gamma > 0 ? Math.max(0, Math.min(1, (pi - rho) / gamma / t)) : 0
+
+    return cov.map((row, i) => row.map((v, j) => shrinkage * target[i][j] + (1 - shrinkage) * v))
+  }
+
+  // Exponentially weighted covariance with weights proportional to decay^(age of the observation)
+  static ewmaCovariance(series: number[][], decay = EWMA_DECAY): number[][] {
+    const n = series.length
+    const t = series[0].length
+    const raw = Array.from({ length: t }, (_, k) => Math.pow(decay, t - 1 - k))
+    const total = raw.reduce((sum, w) => sum + w, 0)
+    const weights = raw.map((w) => w / total)
+    const means = series.map((s) => s.reduce((sum, r, k) => sum + weights[k] * r, 0))
+    const cov: number[][] = Array(n)
+      .fill(null)
+      .map(() => Array(n).fill(0))
+
+    for (let i = 0; i < n; i++) {
+      for (let j = i; j < n; j++) {
+        let sum = 0
+        for (let k = 0; k < t; k++) {
+          sum += weights[k] * (series[i][k] - means[i]) * (series[j][k] - means[j])
+        }
+        cov[i][j] = cov[j][i] = sum
+      }
+    }
+
+    return cov
+  }
+}
@@ -0,0 +1,190 @@
+// Robust portfolios for uncertain expected returns. Each expected return μ̂_i is only known to within a
+// half-width r_i. The interval set lets every return sit anywhere in [μ̂_i - r_i, μ̂_i + r_i], so the worst
+// case costs Σ r_i |w_i|; the ellipsoidal set bounds Σ ((μ_i - μ̂_i) / r_i)² by 1, so the worst case costs
+// ‖Rw‖ with R = diag(r). Weights are chosen for the worst case in the set rather than for μ̂ itself.
+
+import { ConstrainedSolver, type WeightBounds } from "./constrained-solver"
+
+export type UncertaintySet = "interval" | "ellipsoidal"
+export type RobustCriterion = "sharpe" | "utility"
+
+export const uncertaintySets: { value: UncertaintySet; label: string; description: string }[] = [
+  {
+    value: "interval",
+    label: "Interval",
+    description: "Every expected return can independently sit anywhere within its interval",
+  },
+  {
+    value: "ellipsoidal",
+    label: "Ellipsoidal",
+    description: "Returns miss jointly within an ellipsoid, so not every estimate is wrong at once",
+  },
+]
+
+export const robustCriteria: { value: RobustCriterion; label: string; description: string }[] = [
+  { value: "sharpe", label: "Worst-Case Sharpe", description: "Best Sharpe ratio under the worst-case returns" },
+  {
+    value: "utility",
+    label: "Worst-Case Utility",
+    description: "Best worst-case return minus a risk aversion penalty on variance",
+  },
+]
+
+// Half-width for assets with neither an interval of their own nor return history
+export const DEFAULT_RETURN_UNCERTAINTY = 0.02
+export const DEFAULT_ROBUST_RISK_AVERSION = 3
+
+export interface RobustOptions {
+  uncertainty: UncertaintySet
+  criterion: RobustCriterion
+  scale?: number // κ, multiplies every half-width; for the ellipsoid it is the radius in half-widths
+  riskAversion?: number // λ in worst-case return - λ/2 w'Σw, utility criterion only
+}
+
+export interface RobustSummary {
+  uncertainty: UncertaintySet
+  criterion: RobustCriterion
+  scale: number
+  riskAversion?: number
+  halfWidths: number[] // after scaling
+  nominalWeights: number[] // the same criterion solved for μ̂
+  worstCaseReturn: number
+  worstCaseSharpe: number
+  nominalExpectedReturn: number // nominal weights at μ̂
+  nominalSharpe: number
+  nominalWorstCaseReturn: number // nominal weights at their own worst case
+  nominalWorstCaseSharpe: number
+}
+
+export class RobustSolver {
+  // The returns in the set that are worst for the weights
+  static worstCaseReturns(
+    weights: number[],
+    expectedReturns: number[],
+    halfWidths: number[],
+    uncertainty: UncertaintySet,
+  ): number[] {
+    if (uncertainty === "interval") {
+      return expectedReturns.map((mu, i) => mu - Math.sign(weights[i]) * halfWidths[i])
+    }
+    const norm = Math.sqrt(weights.reduce((sum, w, i) => sum + (halfWidths[i] * w) ** 2, 0))
+    return expectedReturns.map((mu, i) => (norm > 0 ? mu - (halfWidths[i] ** 2 * weights[i]) / norm : mu))
+  }
+
+  // Maximise worst-case return - (riskAversion / 2) w'Σw on the bounds
+  static maximizeUtility(
+    covMatrix: number[][],
+    expectedReturns: number[],
+    halfWidths: number[],
+    uncertainty: UncertaintySet,
+    riskAversion: number,
+    bounds: WeightBounds,
+    initialWeights?: number[],
+  ): number[] {
+    const scaled = covMatrix.map((row) => row.map((v) => (riskAversion / 2) * v))
+    if (uncertainty === "interval") {
+      // Long-only weights pay r_i w_i, so the worst case is just lower returns
+      if (bounds.lower.every((l) => l >= 0)) {
+        return ConstrainedSolver.minimizeQuadratic(scaled, {
+          bounds,
+          linear: expectedReturns.map((mu, i) => mu - halfWidths[i]),
+          initialWeights,
+        })
+      }
+      if (bounds.groups?.length || bounds.gross !== undefined) {
+        throw new Error("Interval uncertainty with short positions cannot be combined with category or gross limits")
+      }
+      // Σ r_i |w_i| is the cost of trading away from an empty book
+      return ConstrainedSolver.minimizeQuadratic(scaled, {
+        bounds,
+        linear: expectedReturns,
+        trading: { current: Array(expectedReturns.length).fill(0), rates: halfWidths },
+        initialWeights,
+      })
+    }
+
+    // ‖Rw‖ ≤ (‖Rw‖² / s + s) / 2 with equality at s = ‖Rw‖, so each pass solves a quadratic that
+    // majorises the penalty at the current weights and can only improve the objective
+    let weights = initialWeights ?? ConstrainedSolver.minimizeQuadratic(scaled, { bounds, linear: expectedReturns })
+    for (let pass = 0; pass < 100; pass++) {
+      const norm = Math.max(1e-8, Math.sqrt(weights.reduce((sum, w, i) => sum + (halfWidths[i] * w) ** 2, 0)))
+      const majorant = scaled.map((row, i) => row.map((v, j) => (i === j ? v + halfWidths[i] ** 2 / (2 * norm) : v)))
+      const next = ConstrainedSolver.minimizeQuadratic(majorant, {
+        bounds,
+        linear: expectedReturns,
+        initialWeights: weights,
+      })
+      const change = next.reduce((max, w, i) => Math.max(max, Math.abs(w - weights[i])), 0)
+      weights = next
+      if (change < 1e-9) break
+    }
+    return weights
+  }
+
+  // Maximise score (a worst-case Sharpe ratio) along the robust frontier traced by the utility solution
+  // as risk aversion varies. The worst-case return is concave, so that frontier is concave and the ratio
+  // along it is unimodal: a coarse sweep over log risk aversion brackets the peak and golden section
+  // search refines it.
+  static maximizeWorstCaseRatio(
+    covMatrix: number[][],
+    expectedReturns: number[],
+    halfWidths: number[],
+    uncertainty: UncertaintySet,
+    bounds: WeightBounds,
+    score: (weights: number[]) => number,
+    onIteration?: (weights: number[]) => void,
+  ): number[] {
+    const reach = Math.max(...expectedReturns.map(Math.abs), ...halfWidths) || 1
+    const center = Math.log(reach / (ConstrainedSolver.largestEigenvalue(covMatrix) || 1))
+    let warmStart: number[] | undefined
+    let best: number[] = []
+    let bestScore = -Infinity
+    const evaluate = (logAversion: number) => {
+      warmStart = this.maximizeUtility(
+        covMatrix,
+        expectedReturns,
+        halfWidths,
+        uncertainty,
+        Math.exp(logAversion),
+        bounds,
+        warmStart,
+      )
+      onIteration?.(warmStart)
+      const s = score(warmStart)
+      if (s > bestScore) {
+        best = warmStart
+        bestScore = s
+      }
+      return s
+    }
+
+    // From risk-averse (near minimum variance) towards return-seeking, a quarter decade at a time
+    const grid = Array.from({ length: 41 }, (_, k) => center + Math.log(10) * (6 - k / 4))
+    const scores = grid.map(evaluate)
+    const peak = scores.indexOf(Math.max(...scores))
+    let a = grid[Math.max(0, peak - 1)]
+    let b = grid[Math.min(grid.length - 1, peak + 1)]
+
+    const ratio = (1 + Math.sqrt(5)) / 2
+    let c = b - (b - a) / ratio
+    let d = a + (b - a) / ratio
+    let sc = evaluate(c)
+    let sd = evaluate(d)
+    for (let iteration = 0; iteration < 40 && Math.abs(b - a) > 1e-4; iteration++) {
+      if (sc >= sd) {
+        b = d
+        d = c
+        sd = sc
+        c = b - (b - a) / ratio
+        sc = evaluate(c)
+      } else {
+        a = c
+        c = d
+        sc = sd
+        d = a + (b - a) / ratio
+        sd = evaluate(d)
+      }
+    }
+    return best
+  }
+}
@@ -0,0 +1,119 @@
+// Run manifests: everything needed to audit and replay an optimization. The inputs hash is a SHA-256
+// digest of the canonical JSON of the request, seed, solver and covariance estimator, so two runs
+// with the same hash were given exactly the same problem.
+
+import packageJson from "../package.json"
+import type { CovarianceEstimator } from "./risk-model"
+import type { SolveRequest } from "./solver-registry"
+
+export const APP_VERSION: string = packageJson.version
+
+export interface RunManifest {
+  appVersion: string
+  createdAt: string
+  inputsHash: string
+  solver: { name: string; version: string }
+  seed: number
+  covarianceEstimator: CovarianceEstimator
+  request: SolveRequest // snapshot of the assets, constraints and solver settings, without the seed
+}
+
+// JSON with object keys sorted and undefined members dropped, so equal inputs always serialise the same
+export function canonicalJSON(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "null"
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? "null" : canonicalJSON(item))).join(",")}]`
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJSON(item)}`).join(",")}}`
+}
+
+const SHA256_K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5, 0xd807aa98,
+  0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da, 0x983e5152, 0xa831c66d, 0xb00327c8,
+  0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819,
+  0xd6990624, 0xf40e3585, 0x106aa070, 0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7,
+  0xc67178f2,
+]
+
+// Synchronous SHA-256 (crypto.subtle is async and unavailable outside secure contexts), as lowercase hex
+export function sha256(text: string): string {
+  const data = new TextEncoder().encode(text)
+  const length = data.length
+  const blocks = Math.ceil((length + 9) / 64)
+  const padded = new Uint8Array(blocks * 64)
+  padded.set(data)
+  padded[length] = 0x80
+  const view = new DataView(padded.buffer)
+  view.setUint32(padded.length - 8, Math.floor(length / 0x20000000))
+  view.setUint32(padded.length - 4, (length * 8) >>> 0)
+
+  const hash = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]
+  const w = new Uint32Array(64)
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n))
+
+  for (let block = 0; block < blocks; block++) {
+    for (let t = 0; t < 16; t++) w[t] = view.getUint32(block * 64 + t * 4)
+    for (let t = 16; t < 64; t++) {
+      const s0 = rotr(w[t - 15], 7) ^ rotr(w[t - 15], 18) ^ (w[t - 15] >>> 3)
+      const s1 = rotr(w[t - 2], 17) ^ rotr(w[t - 2], 19) ^ (w[t - 2] >>> 10)
+      w[t] = (w[t - 16] + s0 + w[t - 7] + s1) >>> 0
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash
+    for (let t = 0; t < 64; t++) {
+      const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[t] + w[t]) >>> 0
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) >>> 0
+      h = g
+      g = f
+      f = e
+      e = (d + t1) >>> 0
+      d = c
+      c = b
+      b = a
+      a = (t1 + t2) >>> 0
+    }
+    ;[a, b, c, d, e, f, g, h].forEach((value, i) => (hash[i] = (hash[i] + value) >>> 0))
+  }
+
+  return hash.map((value) => value.toString(16).padStart(8, "0")).join("")
+}
+
+export function hashInputs(manifest: Omit<RunManifest, "appVersion" | "createdAt" | "inputsHash">): string {
+  const { solver, seed, covarianceEstimator, request } = manifest
+  return sha256(canonicalJSON({ solver, seed, covarianceEstimator, request }))
+}
+
+export function createRunManifest(
+  solver: { name: string; version: string },
+  request: SolveRequest,
+  seed: number,
+  covarianceEstimator: CovarianceEstimator,
+): RunManifest {
+  // Deep copy so later edits to the live assets cannot change the record
+  const snapshot: SolveRequest = JSON.parse(JSON.stringify({ ...request, seed: undefined }))
+  const inputs = {
+    solver: { name: solver.name, version: solver.version },
+    seed,
+    covarianceEstimator,
+    request: snapshot,
+  }
+  return {
+    appVersion: APP_VERSION,
+    createdAt: new Date().toISOString(),
+    inputsHash: hashInputs(inputs),
+    ...inputs,
+  }
+}
+
+// False when the manifest was edited after it was written
+export function verifyRunManifest(manifest: RunManifest): boolean {
+  return hashInputs(manifest) === manifest.inputsHash
+}
@@ -0,0 +1,168 @@
+// Portfolio solvers behind a common interface, looked up by name. The UI, the worker and saved
+// results all refer to solvers by name, and every result is stamped with the name and version of
+// the solver that produced it, the seed it ran with and a manifest for replaying the run.
+
+import type {
+  AnnealingPortfolioOptions,
+  Asset,
+  OptimizationObjective,
+  OptimizationResult,
+  PortfolioConstraints,
+  QuantumPortfolioOptimizer,
+  RebalanceOptions,
+} from "./quantum-optimizer"
+import type { QAOAOptions } from "./qaoa-simulator"
+import type { RobustOptions } from "./robust-optimizer"
+import type { ResamplingOptions } from "./resampled-optimizer"
+import { randomSeed } from "./random"
+import { createRunManifest, verifyRunManifest, type RunManifest } from "./run-manifest"
+
+export interface SolveRequest {
+  assets: Asset[]
+  constraints?: PortfolioConstraints
+  objective?: OptimizationObjective
+  rebalance?: RebalanceOptions // rebalance existing holdings instead of building a new allocation
+  robust?: RobustOptions // optimise for the worst case over uncertain expected returns
+  resampling?: ResamplingOptions // average the objective's weights over resampled inputs
+  qaoa?: QAOAOptions
+  annealing?: AnnealingPortfolioOptions
+  seed?: number // drives every stochastic step; a fresh one is drawn and recorded when omitted
+}
+
+export interface PortfolioSolver {
+  name: string // registry key, stored with saved results
+  version: string // bump whenever the same inputs can produce different weights
+  label: string
+  description: string
+  // request.seed is always set when the registry calls this
+  solve(optimizer: QuantumPortfolioOptimizer, request: SolveRequest): Promise<OptimizationResult>
+}
+
+function rejectUnsupportedModes(solver: string, request: SolveRequest): void {
+  if (request.rebalance) {
+    throw new Error(`The ${solver} solver does not support rebalancing`)
+  }
+  if (request.robust) {
+    throw new Error(`The ${solver} solver does not support robust optimization`)
+  }
+  if (request.resampling) {
+    throw new Error(`The ${solver} solver does not support resampling`)
+  }
+}
+
+// Rebalancing and robust mode replace the objective for the continuous solvers; resampling repeats it
+function solveContinuous(
+  optimizer: QuantumPortfolioOptimizer,
+  { assets, constraints = {}, objective, rebalance, robust, resampling, seed }: SolveRequest,
+  optimize: typeof optimizer.optimizePortfolio,
+): Promise<OptimizationResult> {
+  if (rebalance && robust) {
+    throw new Error("Robust optimization is not available when rebalancing")
+  }
+  if (resampling && (rebalance || robust)) {
+    throw new Error("Resampling is only available for new allocations")
+  }
+  if (rebalance) return optimizer.rebalancePortfolio(assets, constraints, rebalance)
+  if (robust) return optimizer.optimizeRobust(assets, constraints, robust)
+  if (resampling) return optimizer.optimizeResampled(assets, constraints, objective, resampling, seed)
+  return optimize.call(optimizer, assets, constraints, objective)
+}
+
+export const gradientSolver: PortfolioSolver = {
+  name: "gradient",
+  version: "1.0.0",
+  label: "Continuous Weights",
+  description: "Variational gradient ascent on the Sharpe ratio, with exact methods for the other objectives",
+  solve: (optimizer, request) => solveContinuous(optimizer, request, optimizer.optimizePortfolio),
+}
+
+export const exactQPSolver: PortfolioSolver = {
+  name: "exact-qp",
+  version: "1.0.0",
+  label: "Exact QP",
+  description: "Deterministic convex solvers for every objective, with branch-and-bound for holding rules",
+  solve: (optimizer, request) => solveContinuous(optimizer, request, optimizer.optimizeExact),
+}
+
+export const qaoaSolver: PortfolioSolver = {
+  name: "qaoa-simulator",
+  version: "1.0.0",
+  label: "QAOA Asset Selection",
+  description: "Statevector simulation of QAOA choosing K equally weighted assets",
+  solve: (optimizer, request) => {
+    rejectUnsupportedModes("QAOA", request)
+    if (!request.qaoa) {
+      throw new Error("The QAOA solver needs the number of assets to select")
+    }
+    return optimizer.optimizeWithQAOA(request.assets, request.qaoa)
+  },
+}
+
+export const annealingSolver: PortfolioSolver = {
+  name: "annealing",
+  version: "1.0.0",
+  label: "QUBO Annealing",
+  description: "Simulated annealing or parallel tempering on a QUBO encoding of the portfolio",
+  solve: (optimizer, request) => {
+    rejectUnsupportedModes("annealing", request)
+    const { minWeight, maxWeight } = request.constraints ?? {}
+    return optimizer.optimizeWithAnnealing(request.assets, {
+      encoding: "discrete-weights",
+      minWeight,
+      maxWeight,
+      ...request.annealing,
+      seed: request.seed,
+    })
+  },
+}
+
+export class SolverRegistry {
+  private solvers = new Map<string, PortfolioSolver>()
+
+  register(solver: PortfolioSolver): void {
+    if (this.solvers.has(solver.name)) {
+      throw new Error(`A solver named "${solver.name}" is already registered`)
+    }
+    this.solvers.set(solver.name, solver)
+  }
+
+  get(name: string): PortfolioSolver {
+    const solver = this.solvers.get(name)
+    if (!solver) {
+      throw new Error(`Unknown solver "${name}"`)
+    }
+    return solver
+  }
+
+  list(): PortfolioSolver[] {
+    return Array.from(this.solvers.values())
+  }
+
+  async solve(name: string, optimizer: QuantumPortfolioOptimizer, request: SolveRequest): Promise<OptimizationResult> {
+    const solver = this.get(name)
+    const seed = request.seed ?? randomSeed()
+    const manifest = createRunManifest(solver, request, seed, optimizer.getCovarianceEstimator())
+    const result = await solver.solve(optimizer, { ...request, seed })
+    return { ...result, solver: { name: solver.name, version: solver.version }, seed, manifest }
+  }
+
+  // Re-run exactly what a manifest describes. Refuses tampered manifests and solver versions that
+  // may no longer produce the same weights.
+  async replay(manifest: RunManifest, optimizer: QuantumPortfolioOptimizer): Promise<OptimizationResult> {
+    if (!verifyRunManifest(manifest)) {
+      throw new Error("The run manifest does not match its inputs hash")
+    }
+    const solver = this.get(manifest.solver.name)
+    if (solver.version !== manifest.solver.version) {
+      throw new Error(`The run used ${solver.name} v${manifest.solver.version} but v${solver.version} is installed`)
+    }
+    optimizer.setCovarianceEstimator(manifest.covarianceEstimator)
+    return this.solve(solver.name, optimizer, { ...manifest.request, seed: manifest.seed })
+  }
+}
+
+export const solverRegistry = new SolverRegistry()
+solverRegistry.register(gradientSolver)
+solverRegistry.register(exactQPSolver)
+solverRegistry.register(qaoaSolver)
+solverRegistry.register(annealingSolver)
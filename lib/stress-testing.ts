@@ -0,0 +1,110 @@
+// Scenario stress tests: instantaneous returns applied to each asset, chosen by symbol, then by category,
+// then by the scenario's default. Built-in scenarios are approximate peak-to-trough sector returns from past
+// crises, stored in data/stress-scenarios.json; user-defined scenarios are kept in local storage.
+
+import historicalScenarioData from "./data/stress-scenarios.json"
+import { UNCATEGORIZED, type Asset } from "./quantum-optimizer"
+
+export interface StressScenario {
+  id: string
+  name: string
+  description?: string
+  period?: string // when a historical scenario happened
+  defaultShock?: number // return for assets no other shock covers
+  categoryShocks?: Record<string, number>
+  assetShocks?: Record<string, number> // by symbol, overriding the category shock
+  builtIn?: boolean
+}
+
+export interface StressImpact {
+  portfolioReturn: number
+  pnl?: number // in currency, when a portfolio value is given
+  contributions: number[] // weight times shock for each asset
+}
+
+export const historicalScenarios: StressScenario[] = (historicalScenarioData as StressScenario[]).map((scenario) => ({
+  ...scenario,
+  builtIn: true,
+}))
+
+export class StressTester {
+  // The return each asset takes in the scenario
+  static assetShocks(assets: Asset[], scenario: StressScenario): number[] {
+    return assets.map(
+      (asset) =>
+        scenario.assetShocks?.[asset.symbol] ??
+        scenario.categoryShocks?.[asset.category || UNCATEGORIZED] ??
+        scenario.defaultShock ??
+        0,
+    )
+  }
+
+  // Uninvested cash is unaffected, so only the weights on assets move the portfolio
+  static apply(assets: Asset[], weights: number[], scenario: StressScenario, portfolioValue?: number): StressImpact {
+    if (weights.length !== assets.length) {
+      throw new Error("Stress testing needs one weight per asset")
+    }
+    const shocks = this.assetShocks(assets, scenario)
+    const contributions = weights.map((w, i) => w * shocks[i])
+    const portfolioReturn = contributions.reduce((sum, c) => sum + c, 0)
+    return {
+      portfolioReturn,
+      pnl: portfolioValue !== undefined ? portfolioReturn * portfolioValue : undefined,
+      contributions,
+    }
+  }
+
+  static validate(scenario: StressScenario): void {
+    if (!scenario.name.trim()) {
+      throw new Error("Scenario name is required")
+    }
+    const shocks = [
+      scenario.defaultShock,
+      ...Object.values(scenario.categoryShocks ?? {}),
+      ...Object.values(scenario.assetShocks ?? {}),
+    ].filter((shock): shock is number => shock !== undefined)
+    if (shocks.some((shock) => !Number.isFinite(shock) || shock < -1)) {
+      throw new Error("Shocks must be returns of at least -100%")
+    }
+  }
+}
+
+export class ScenarioStorage {
+  private static STORAGE_KEY = "quantum_stress_scenarios"
+
+  static getCustomScenarios(): StressScenario[] {
+    if (typeof window === "undefined") return []
+
+    const stored = localStorage.getItem(this.STORAGE_KEY)
+    if (!stored) return []
+
+    try {
+      return JSON.parse(stored)
+    } catch {
+      return []
+    }
+  }
+
+  static saveScenario(scenario: StressScenario): void {
+    StressTester.validate(scenario)
+    const scenarios = this.getCustomScenarios()
+    const existingIndex = scenarios.findIndex((s) => s.id === scenario.id)
+
+    if (existingIndex >= 0) {
+      scenarios[existingIndex] = scenario
+    } else {
+      scenarios.push(scenario)
+    }
+
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(scenarios))
+  }
+
+  static deleteScenario(id: string): void {
+    const filtered = this.getCustomScenarios().filter((s) => s.id !== id)
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(filtered))
+  }
+
+  static generateId(): string {
+    return `scenario_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+  }
+}
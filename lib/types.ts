@@ -1,9 +1,13 @@
+import type { RunManifest } from "./run-manifest"
+import type { BlackLittermanView } from "./black-litterman"
+
 export interface Portfolio {
   id: string
   user_id: string
   name: string
   description?: string
   tags: string[]
+  views?: BlackLittermanView[] | null
   created_at: string
   updated_at: string
   assets?: Asset[]
@@ -17,6 +21,13 @@ export interface Asset {
   name: string
   expected_return: number
   volatility: number
+  price?: number | null
+  category?: string | null
+  market_cap?: number | null
+  lot_size?: number | null
+  return_uncertainty?: number | null
+  price_history?: number[] | null
+  return_history?: number[] | null
   created_at: string
 }
 
@@ -29,5 +40,6 @@ export interface OptimizationResult {
   sharpe_ratio: number
   convergence_data?: any
   parameters: any
+  manifest?: RunManifest | null
   created_at: string
 }
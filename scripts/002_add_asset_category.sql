@@ -0,0 +1,2 @@
+-- Sector or asset class used for category exposure limits
+ALTER TABLE public.assets ADD COLUMN IF NOT EXISTS category TEXT;
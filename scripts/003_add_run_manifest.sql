@@ -0,0 +1,2 @@
+-- Run manifest (inputs hash, asset snapshot, settings, seed, app version) for auditing and replaying a run
+ALTER TABLE public.optimization_results ADD COLUMN IF NOT EXISTS manifest JSONB;
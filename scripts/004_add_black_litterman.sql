@@ -0,0 +1,3 @@
+-- Market capitalisation for Black-Litterman equilibrium weights, and the investor views saved with each portfolio
+ALTER TABLE public.assets ADD COLUMN IF NOT EXISTS market_cap NUMERIC;
+ALTER TABLE public.portfolios ADD COLUMN IF NOT EXISTS views JSONB;
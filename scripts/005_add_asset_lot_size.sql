@@ -0,0 +1,2 @@
+-- Shares per tradable lot, used when turning weights into whole-lot orders
+ALTER TABLE public.assets ADD COLUMN IF NOT EXISTS lot_size INTEGER;
@@ -0,0 +1,2 @@
+-- Half-width of each asset's expected return interval, used by robust optimization
+ALTER TABLE public.assets ADD COLUMN IF NOT EXISTS return_uncertainty DECIMAL(10, 6);
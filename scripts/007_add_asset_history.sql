@@ -0,0 +1,3 @@
+-- Price and return history for estimating covariance, backtests, bootstrap resampling and HRP
+ALTER TABLE public.assets ADD COLUMN IF NOT EXISTS price_history JSONB;
+ALTER TABLE public.assets ADD COLUMN IF NOT EXISTS return_history JSONB;
@@ -0,0 +1,2 @@
+-- Share price, used to turn weights into whole-lot orders and allocation values
+ALTER TABLE public.assets ADD COLUMN IF NOT EXISTS price DECIMAL(14, 4);